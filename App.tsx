@@ -2,23 +2,54 @@ import React, { useState, useEffect, useRef } from 'react';
 import { ImageUploader } from './components/ImageUploader';
 import { LoadingState } from './components/LoadingState';
 import { ResultDisplay } from './components/ResultDisplay';
+import { LandmarkCandidatePicker } from './components/LandmarkCandidatePicker';
+import { TripAlbum } from './components/TripAlbum';
+import { NarrationPresetSelector } from './components/NarrationPresetSelector';
+import { VoiceSelector } from './components/VoiceSelector';
+import { WalkingTourPlayer } from './components/WalkingTourPlayer';
+import { ScanModeSelector, SCAN_MODE_OPTIONS } from './components/ScanModeSelector';
+import { PhotoTranslation } from './components/PhotoTranslation';
 import { TourPlanner } from './components/ImageGenerator';
 import { NearbyPlaces } from './components/NearbyPlaces';
 import { TopPlaces } from './components/TopPlaces';
-import { identifyLandmark } from './services/geminiService';
-import type { LandmarkData } from './types';
+import { DiscoveryJournal } from './components/DiscoveryJournal';
+import { identifyLandmark, streamLandmarkHistory, generateNarrationAudio, fetchLandmarkFacts, translatePhotoText, generateImageForPlace, isAbortError } from './services/geminiService';
+import type { LandmarkData, LandmarkNarration, LandmarkFacts, NarrationPreset, NarrationSubject, ScanMode, CaptureMode, TextRegion, LandmarkCandidate, PhotoMetadata, PhotoLocation, AlbumPhoto, AlbumGroup, DiscoveryEntry, RelatedLandmark, TtsVoice, NarrationAudio } from './types';
+import { readPhotoMetadata } from './utils/exif';
+import { createTaskQueue } from './utils/taskQueue';
+import { saveDiscovery, getDiscovery } from './utils/discoveryJournal';
+import { getCurrentRoute, navigate } from './utils/router';
+import { useWalkingTourState } from './utils/walkingTour';
+import type { Route } from './utils/router';
+import { preprocessImage } from './utils/imagePreprocessing';
+import type { ImagePreprocessOptions } from './utils/imagePreprocessing';
 import { useTranslation } from './contexts/LanguageContext';
 import { useTheme } from './contexts/ThemeContext';
-import { CameraIcon, CalendarDaysIcon, MapPinIcon, SunIcon, MoonIcon, StarIcon, QuestionMarkCircleIcon, XIcon } from './components/Icons';
+import { useNarrationPreset } from './contexts/NarrationPresetContext';
+import { useVoice } from './contexts/VoiceContext';
+import { CameraIcon, CalendarDaysIcon, MapPinIcon, SunIcon, MoonIcon, StarIcon, QuestionMarkCircleIcon, XIcon, BookOpenIcon } from './components/Icons';
 import { SUPPORTED_LANGUAGES } from './utils/translations';
 
 /**
  * Defines the possible states of the main application flow.
  * 'idle': Initial state, ready for image upload.
  * 'loading': An operation is in progress (e.g., landmark identification).
+ * 'choosing': Several candidates (or one uncertain guess) await the user's choice.
+ * 'album': A batch of photos is being identified or grouped into a trip album.
  * 'result': Landmark identification is complete and results are displayed.
+ * 'translation': The text of a photo is displayed translated over the photo.
  */
-type AppState = 'idle' | 'loading' | 'result';
+type AppState = 'idle' | 'loading' | 'choosing' | 'album' | 'result' | 'translation';
+
+/**
+ * Minimum confidence for a single candidate to be narrated without asking the user.
+ */
+const CONFIDENT_MATCH_THRESHOLD = 0.85;
+
+/**
+ * Maximum number of album photos identified at the same time.
+ */
+const ALBUM_CONCURRENCY = 3;
 
 /**
  * Defines the currently active view/feature of the application.
@@ -26,8 +57,187 @@ type AppState = 'idle' | 'loading' | 'result';
  * 'planner': The tour planning feature.
  * 'nearby': The nearby places feature.
  * 'topPlaces': The top places feature.
+ * 'journal': The saved discoveries journal.
+ */
+type ActiveView = 'landmark' | 'planner' | 'nearby' | 'topPlaces' | 'journal';
+
+/**
+ * The route each footer tab opens, without any linked state.
+ */
+const TAB_ROUTES: Record<ActiveView, Route> = {
+  landmark: { view: 'guide' },
+  planner: { view: 'planner' },
+  nearby: { view: 'nearby' },
+  topPlaces: { view: 'topPlaces' },
+  journal: { view: 'journal' },
+};
+
+/**
+ * A photo waiting to be narrated: the original file, its object URL, the EXIF metadata read from it
+ * and the scan mode it was taken in.
+ */
+interface PendingPhoto {
+  file: File;
+  userImageUrl: string;
+  metadata: PhotoMetadata;
+  mode: ScanMode;
+}
+
+/**
+ * A photo whose text was translated in place. The file is kept so the text can be
+ * translated again when the language changes.
+ */
+interface TranslatedPhoto {
+  file: File;
+  userImageUrl: string;
+  regions: TextRegion[];
+}
+
+// --- Session Cache for Landmark Narrations ---
+// Caches the generated history per (landmark, language, preset) and its audio per voice for the
+// duration of the user's session, so switching back to a language, preset or voice or reopening
+// a guide is instant, and a new voice only has to read the known text again.
+const narrationCache = new Map<string, LandmarkNarration>();
+const narrationAudioCache = new Map<string, NarrationAudio>();
+// Fact sheets only depend on the landmark and language, so they are shared across presets.
+const factsCache = new Map<string, LandmarkFacts>();
+
+/**
+ * Returns the fact sheet of a landmark in the given language, generating it only on a cache miss.
+ * The fact sheet is optional, so a failure is logged and resolves to undefined instead of
+ * failing the whole guide.
+ * @param {string} landmarkName - The identified landmark.
+ * @param {string} languageCode - The UI language code, e.g. 'es'.
+ * @param {AbortSignal} [signal] - Cancels the request.
+ * @returns {Promise<LandmarkFacts | undefined>} The fact sheet, if it could be generated.
+ */
+const getLandmarkFacts = async (landmarkName: string, languageCode: string, signal?: AbortSignal): Promise<LandmarkFacts | undefined> => {
+  const cacheKey = `${languageCode}::${landmarkName}`;
+  const cached = factsCache.get(cacheKey);
+  if (cached) return cached;
+
+  const langName = SUPPORTED_LANGUAGES.find(l => l.code === languageCode)?.name || 'English';
+  try {
+    const facts = await fetchLandmarkFacts(landmarkName, langName, signal);
+    factsCache.set(cacheKey, facts);
+    return facts;
+  } catch (err) {
+    console.warn(`Could not generate the fact sheet for ${landmarkName}:`, err);
+    return undefined;
+  }
+};
+
+/**
+ * Receives each piece of a narration as soon as it is available.
+ * `isHistoryComplete` turns true once the history has finished streaming and its sources are known.
+ */
+type NarrationUpdateHandler = (update: Partial<LandmarkNarration>, isHistoryComplete: boolean) => void;
+
+/**
+ * Produces the narration of a scanned subject in the given language and preset piece by piece:
+ * the history while it streams, then its sources, the fact sheet (landmarks only) and finally
+ * the audio guide, which is synthesized in the background once the full text is known.
+ * A cached narration is reported in a single update.
+ * @param {NarrationSubject} subject - The identified landmark, artwork, dish, plant or sign.
+ * @param {string} languageCode - The UI language code, e.g. 'es'.
+ * @param {NarrationPreset} preset - The narration depth and audience.
+ * @param {TtsVoice} voice - The voice the audio guide is read in.
+ * @param {function} onProgress - Receives progress messages until the history starts streaming.
+ * @param {NarrationUpdateHandler} onUpdate - Receives the partial narrations to merge into the guide.
+ * @param {AbortSignal} [signal] - Cancels every request of the narration; nothing is cached then.
+ * @returns {Promise<LandmarkNarration>} The complete history, audio guide and fact sheet.
+ */
+const generateNarration = async (
+  subject: NarrationSubject,
+  languageCode: string,
+  preset: NarrationPreset,
+  voice: TtsVoice,
+  onProgress: (message: string) => void,
+  onUpdate: NarrationUpdateHandler,
+  signal?: AbortSignal
+): Promise<LandmarkNarration> => {
+  const { name: landmarkName, mode = 'landmark', transcript = '' } = subject;
+  const cacheKey = `${languageCode}::${preset}::${mode}::${landmarkName}::${transcript}`;
+  const audioCacheKey = `${voice}::${cacheKey}`;
+  const cached = narrationCache.get(cacheKey);
+  if (cached) {
+    const cachedAudio = narrationAudioCache.get(audioCacheKey);
+    onUpdate({ ...cached, ...cachedAudio }, true);
+    if (cachedAudio) return { ...cached, ...cachedAudio };
+
+    // The text is known already, only the audio is read again in the new voice
+    const audio = await generateNarrationAudio(cached.history, voice, languageCode, preset, signal);
+    narrationAudioCache.set(audioCacheKey, audio);
+    onUpdate(audio, true);
+    return { ...cached, ...audio };
+  }
+
+  const langName = SUPPORTED_LANGUAGES.find(l => l.code === languageCode)?.name || 'English';
+  let isHistoryComplete = false;
+  const factsPromise = mode !== 'landmark' ? Promise.resolve(undefined) : getLandmarkFacts(landmarkName, languageCode, signal).then(facts => {
+    if (facts) onUpdate({ facts }, isHistoryComplete);
+    return facts;
+  });
+
+  const history = await streamLandmarkHistory(
+    subject,
+    langName,
+    onProgress,
+    text => onUpdate({ name: landmarkName, history: text }, false),
+    preset,
+    signal
+  );
+  isHistoryComplete = true;
+  onUpdate({ history: history.text, sources: history.sources, citations: history.citations }, true);
+
+  const [audio, facts] = await Promise.all([generateNarrationAudio(history.text, voice, languageCode, preset, signal), factsPromise]);
+  onUpdate(audio, true);
+
+  const narration: LandmarkNarration = {
+    name: landmarkName,
+    history: history.text,
+    ...audio,
+    facts,
+    sources: history.sources,
+    citations: history.citations,
+  };
+  narrationCache.set(cacheKey, { ...narration, audioData: undefined, audioParagraphStarts: undefined });
+  narrationAudioCache.set(audioCacheKey, audio);
+  return narration;
+};
+
+/**
+ * The parts of a guide that do not come from the narration: the user's photo and what was scanned.
  */
-type ActiveView = 'landmark' | 'planner' | 'nearby' | 'topPlaces';
+type GuideBase = Omit<LandmarkData, keyof LandmarkNarration>;
+
+/**
+ * Size and encoding of the photos kept in the discovery journal; large enough for the result view.
+ */
+const JOURNAL_IMAGE_OPTIONS: ImagePreprocessOptions = { maxDimension: 1280, format: 'image/jpeg', quality: 0.8 };
+
+/**
+ * Stores a narrated landmark in the discovery journal so it survives a reset or reload.
+ * A failure is logged and never interrupts the guide.
+ * @param {string} id - The journal entry id; saving again with the same id replaces the entry.
+ * @param {LandmarkData} data - The narrated landmark.
+ * @param {File} photo - The user's original photo.
+ * @param {string} languageCode - The UI language code the narration was generated in.
+ * @returns {Promise<DiscoveryEntry | null>} The stored entry, or null if it could not be saved.
+ */
+const saveToJournal = async (id: string, data: LandmarkData, photo: File, languageCode: string): Promise<DiscoveryEntry | null> => {
+  try {
+    // Downscaled copies keep the database small and make HEIC photos displayable later.
+    const imageBlob = await preprocessImage(photo, JOURNAL_IMAGE_OPTIONS).catch(() => photo);
+    const { userImageUrl, ...narration } = data;
+    const entry: DiscoveryEntry = { ...narration, id, imageBlob, language: languageCode, savedAt: Date.now() };
+    await saveDiscovery(entry);
+    return entry;
+  } catch (err) {
+    console.warn(`Could not save ${data.name} to the discovery journal:`, err);
+    return null;
+  }
+};
 
 /**
  * Renders a language selection dropdown.
@@ -135,6 +345,10 @@ const HelpModal: React.FC<{ isOpen: boolean; onClose: () => void }> = ({ isOpen,
                         <h3 className="font-semibold text-lg text-brand-blue dark:text-brand-lightblue mb-2">{t('helpModalTopPlacesTitle')}</h3>
                         <p>{t('helpModalTopPlacesContent')}</p>
                     </div>
+                    <div>
+                        <h3 className="font-semibold text-lg text-brand-blue dark:text-brand-lightblue mb-2">{t('helpModalJournalTitle')}</h3>
+                        <p>{t('helpModalJournalContent')}</p>
+                    </div>
                 </div>
 
                 <div className="mt-8 pt-6 border-t border-gray-200 dark:border-gray-700 text-sm text-gray-600 dark:text-gray-400">
@@ -159,31 +373,210 @@ const App: React.FC = () => {
   const [appState, setAppState] = useState<AppState>('idle');
   const [activeView, setActiveView] = useState<ActiveView>('landmark');
   const [landmarkData, setLandmarkData] = useState<LandmarkData | null>(null);
+  const [candidates, setCandidates] = useState<LandmarkCandidate[]>([]);
+  const [pendingPhoto, setPendingPhoto] = useState<PendingPhoto | null>(null);
+  const [nearbyOrigin, setNearbyOrigin] = useState<{ lat: number; lon: number } | undefined>(undefined);
+  const [plannerSeed, setPlannerSeed] = useState<{ location?: string; planId?: string } | undefined>(undefined);
+  const [topPlacesSeed, setTopPlacesSeed] = useState<{ country?: string; city?: string } | undefined>(undefined);
+  // Incremented for every route change, so the tab views start fresh from their linked state
+  const [routeVersion, setRouteVersion] = useState(0);
+  const [albumPhotos, setAlbumPhotos] = useState<AlbumPhoto[]>([]);
+  const [albumError, setAlbumError] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [loadingMessage, setLoadingMessage] = useState('');
   const [isTranslating, setIsTranslating] = useState(false);
+  const [isHistoryStreaming, setIsHistoryStreaming] = useState(false);
+  const [isAudioUnavailable, setIsAudioUnavailable] = useState(false);
+  // Set when the history was cut off midway, to narrate the guide again
+  const [retryNarration, setRetryNarration] = useState<(() => void) | null>(null);
   const [isHelpModalOpen, setIsHelpModalOpen] = useState(false);
+  const [scanMode, setScanMode] = useState<CaptureMode>('landmark');
+  const [translatedPhoto, setTranslatedPhoto] = useState<TranslatedPhoto | null>(null);
   const { t, language } = useTranslation();
+  const { preset } = useNarrationPreset();
+  const { voice } = useVoice();
+  const walkingTourState = useWalkingTourState();
   const [isInitialMount, setIsInitialMount] = useState(true);
 
   // Ref for scrolling to the result view
   const mainRef = useRef<HTMLElement>(null);
+  // Shared queue that bounds how many album photos are identified in parallel
+  const albumQueueRef = useRef(createTaskQueue(ALBUM_CONCURRENCY));
+  // Incremented whenever an album is discarded, so queued work for it is skipped
+  const albumGenerationRef = useRef(0);
+  // Incremented for every narration and on reset, so updates from a replaced narration are dropped
+  const narrationIdRef = useRef(0);
+  // Aborts the identification, narration or translation in progress when it is cancelled or replaced
+  const operationRef = useRef<AbortController | null>(null);
+  // Aborts the identification of the current album's photos when the album is discarded
+  const albumAbortRef = useRef(new AbortController());
+  // The journal entry of the displayed guide, updated when the guide is narrated again
+  const journalEntryRef = useRef<DiscoveryEntry | null>(null);
+
+  /**
+   * Starts a new cancellable operation, aborting the one in progress.
+   * @returns {AbortSignal} The signal to pass to every request of the new operation.
+   */
+  const beginOperation = (): AbortSignal => {
+    operationRef.current?.abort();
+    operationRef.current = new AbortController();
+    return operationRef.current.signal;
+  };
 
     /**
-   * Handles the image selection and starts the landmark identification process.
-   * Updates app state to 'loading' and then to 'result' or 'idle' on error.
+   * Handles the image selection and starts identifying its subject in the selected scan mode.
+   * EXIF GPS coordinates, when present, ground the identification.
+   * A single confident candidate is narrated right away; otherwise the user is asked
+   * to pick or confirm one in the 'choosing' state.
    * @param {File} file - The image file uploaded by the user.
    */
   const handleImageSelect = async (file: File) => {
+    if (scanMode === 'translate') {
+      handlePhotoTranslate(file);
+      return;
+    }
+    const signal = beginOperation();
     setAppState('loading');
     setError(null);
     setLandmarkData(null);
+    setCandidates([]);
+    const langName = SUPPORTED_LANGUAGES.find(l => l.code === language)?.name || 'English';
+    const userImageUrl = URL.createObjectURL(file);
+    try {
+      const metadata = await readPhotoMetadata(file);
+      const photo: PendingPhoto = { file, userImageUrl, metadata, mode: scanMode };
+      const rankedCandidates = await identifyLandmark(file, langName, setLoadingMessage, metadata.location, scanMode, signal);
+      signal.throwIfAborted();
+      if (rankedCandidates.length === 1 && rankedCandidates[0].confidence >= CONFIDENT_MATCH_THRESHOLD) {
+        await narrateLandmark(rankedCandidates[0], photo, signal);
+        return;
+      }
+      setCandidates(rankedCandidates);
+      setPendingPhoto(photo);
+      setAppState('choosing');
+    } catch (err) {
+      URL.revokeObjectURL(userImageUrl);
+      // A cancelled analysis has already returned to the upload screen
+      if (isAbortError(err)) return;
+      const message = err instanceof Error ? err.message : t('errorProcessing');
+      setError(message);
+      setAppState('idle');
+    } finally {
+        setLoadingMessage('');
+    }
+  };
+
+  /**
+   * Reads the text in a photo and shows it translated into the UI language, over the photo.
+   * @param {File} file - The photo of a menu, sign or plaque.
+   */
+  const handlePhotoTranslate = async (file: File) => {
+    const signal = beginOperation();
+    setAppState('loading');
+    setError(null);
+    const langName = SUPPORTED_LANGUAGES.find(l => l.code === language)?.name || 'English';
+    const userImageUrl = URL.createObjectURL(file);
+    try {
+      const regions = await translatePhotoText(file, langName, signal);
+      signal.throwIfAborted();
+      setTranslatedPhoto({ file, userImageUrl, regions });
+      setAppState('translation');
+    } catch (err) {
+      URL.revokeObjectURL(userImageUrl);
+      if (isAbortError(err)) return;
+      const message = err instanceof Error ? err.message : t('errorProcessing');
+      setError(message);
+      setAppState('idle');
+    }
+  };
+
+  /**
+   * Streams the narration of a landmark into the displayed guide. The guide appears with the
+   * first words of the history; sources, the fact sheet and the audio are merged in as they arrive.
+   * Updates that come before the history, such as the fact sheet, wait for it, so the guide
+   * never shows without text. Once the guide is visible, a failure keeps what was shown:
+   * a history cut off midway is offered for retry, and a failure after the complete history
+   * only marks the audio as unavailable.
+   * @param {string} landmarkName - The landmark, artwork, dish, plant or sign to narrate.
+   * @param {GuideBase} base - The photo and scan fields of the guide, kept as they are.
+   * @param {function} onShown - Called when the first content is displayed.
+   * @param {function} retry - Narrates the guide again when its history was cut off.
+   * @param {AbortSignal} signal - Cancels the narration; a cancelled narration is always replaced or discarded.
+   * @returns {Promise<LandmarkData | null>} The complete guide, or null if it was replaced, discarded or left incomplete.
+   */
+  const streamNarration = async (landmarkName: string, base: GuideBase, onShown: () => void, retry: () => void, signal: AbortSignal): Promise<LandmarkData | null> => {
+    const narrationId = ++narrationIdRef.current;
+    const isCurrent = () => narrationIdRef.current === narrationId;
+    let isShown = false;
+    let isHistoryDone = false;
+    let pendingUpdate: Partial<LandmarkData> = {};
+    setIsAudioUnavailable(false);
+    setRetryNarration(null);
+
     try {
-      const result = await identifyLandmark(file, language, setLoadingMessage);
-      const userImageUrl = URL.createObjectURL(file);
-      setLandmarkData({ ...result, userImageUrl });
-      setAppState('result');
+      const subject: NarrationSubject = { name: landmarkName, mode: base.mode, transcript: base.transcript };
+      const narration = await generateNarration(subject, language, preset, voice, setLoadingMessage, (update, isHistoryComplete) => {
+        if (!isCurrent()) return;
+        isHistoryDone = isHistoryComplete;
+        if (!isShown && !update.history) {
+          pendingUpdate = { ...pendingUpdate, ...update };
+          return;
+        }
+        const isFirstUpdate = !isShown;
+        isShown = true;
+        setLandmarkData(current => !isFirstUpdate && current
+          ? { ...current, ...update }
+          : { ...base, name: landmarkName, history: '', ...pendingUpdate, ...update });
+        setIsHistoryStreaming(!isHistoryComplete);
+        if (isFirstUpdate) onShown();
+      }, signal);
+      return isCurrent() ? { ...base, ...narration } : null;
     } catch (err) {
+      if (!isCurrent()) return null;
+      if (!isShown) throw err;
+      setIsHistoryStreaming(false);
+      if (isHistoryDone) {
+        console.error("Audio guide failed after the history was shown:", err);
+        setIsAudioUnavailable(true);
+      } else {
+        console.error("History stopped streaming before it was complete:", err);
+        setRetryNarration(() => retry);
+      }
+      return null;
+    }
+  };
+
+  /**
+   * Streams the history and audio guide for the chosen candidate into the result view
+   * and saves the complete guide to the discovery journal.
+   * @param {LandmarkCandidate} candidate - The candidate picked by the user or identified with confidence.
+   * @param {PendingPhoto} photo - The user's photo, its EXIF metadata and scan mode.
+   * @param {AbortSignal} signal - Cancels the narration.
+   */
+  const narrateLandmark = async (candidate: LandmarkCandidate, { file, userImageUrl, metadata, mode }: PendingPhoto, signal: AbortSignal) => {
+    setAppState('loading');
+    try {
+      const base: GuideBase = {
+        userImageUrl,
+        photoLocation: metadata.location,
+        capturedAt: metadata.capturedAt,
+        mode,
+        transcript: candidate.transcript,
+      };
+      const retry = () => narrateLandmark(candidate, { file, userImageUrl, metadata, mode }, beginOperation());
+      const data = await streamNarration(candidate.name, base, () => setAppState('result'), retry, signal);
+      if (data) {
+        const id = `${Date.now()}`;
+        const entry = await saveToJournal(id, data, file, language);
+        // Only a saved guide can be reloaded and bookmarked
+        if (entry && !signal.aborted) {
+          journalEntryRef.current = entry;
+          navigate({ view: 'discovery', id });
+        }
+      }
+    } catch (err) {
+      URL.revokeObjectURL(userImageUrl);
+      if (isAbortError(err)) return;
       const message = err instanceof Error ? err.message : t('errorProcessing');
       setError(message);
       setAppState('idle');
@@ -191,22 +584,316 @@ const App: React.FC = () => {
         setLoadingMessage('');
     }
   };
+
+  /**
+   * Updates a single album photo by id.
+   * @param {string} photoId - The photo to update.
+   * @param {Partial<AlbumPhoto>} changes - The fields to change.
+   */
+  const updateAlbumPhoto = (photoId: string, changes: Partial<AlbumPhoto>) => {
+    setAlbumPhotos(current => current.map(photo => photo.id === photoId ? { ...photo, ...changes } : photo));
+  };
+
+  /**
+   * Queues one album photo for identification. Only the best candidate is kept;
+   * photos of the same landmark are merged when the album is grouped.
+   * @param {AlbumPhoto} photo - The photo to identify.
+   */
+  const enqueueAlbumPhoto = (photo: AlbumPhoto) => {
+    const generation = albumGenerationRef.current;
+    const { signal } = albumAbortRef.current;
+    const langName = SUPPORTED_LANGUAGES.find(l => l.code === language)?.name || 'English';
+    updateAlbumPhoto(photo.id, { status: 'queued', error: undefined });
+
+    albumQueueRef.current(async () => {
+      if (generation !== albumGenerationRef.current) return;
+      updateAlbumPhoto(photo.id, { status: 'identifying' });
+      try {
+        const metadata = photo.metadata || await readPhotoMetadata(photo.file);
+        const [bestCandidate] = await identifyLandmark(photo.file, langName, () => {}, metadata.location, 'landmark', signal);
+        if (generation !== albumGenerationRef.current) return;
+        updateAlbumPhoto(photo.id, { status: 'identified', metadata, landmark: bestCandidate });
+      } catch (err) {
+        if (generation !== albumGenerationRef.current) return;
+        const message = err instanceof Error ? err.message : t('errorProcessing');
+        updateAlbumPhoto(photo.id, { status: 'failed', error: message });
+      }
+    });
+  };
+
+  /**
+   * Handles the selection of several photos at once and builds a trip album from them.
+   * @param {File[]} files - The image files selected by the user.
+   */
+  const handleImagesSelect = (files: File[]) => {
+    albumGenerationRef.current++;
+    albumAbortRef.current.abort();
+    albumAbortRef.current = new AbortController();
+    setError(null);
+    setAlbumError(null);
+    const photos: AlbumPhoto[] = files.map((file, index) => ({
+      id: `${Date.now()}-${index}`,
+      file,
+      userImageUrl: URL.createObjectURL(file),
+      status: 'queued',
+    }));
+    setAlbumPhotos(photos);
+    setAppState('album');
+    photos.forEach(enqueueAlbumPhoto);
+  };
+
+  /**
+   * Retries a single album photo that failed to be identified.
+   * @param {string} photoId - The failed photo.
+   */
+  const handleRetryAlbumPhoto = (photoId: string) => {
+    const photo = albumPhotos.find(p => p.id === photoId);
+    if (photo) enqueueAlbumPhoto(photo);
+  };
+
+  /**
+   * Opens the audio guide for a group of album photos, generating it on first open.
+   * The group is saved to the discovery journal under its cover photo, so reopening it
+   * updates the same entry.
+   * @param {AlbumGroup} group - The landmark group chosen in the album.
+   */
+  const handleOpenAlbumGroup = async (group: AlbumGroup) => {
+    const [coverPhoto] = group.photos;
+    const signal = beginOperation();
+    setAppState('loading');
+    setAlbumError(null);
+    try {
+      const base: GuideBase = {
+        userImageUrl: coverPhoto.userImageUrl,
+        photoLocation: coverPhoto.metadata?.location,
+        capturedAt: coverPhoto.metadata?.capturedAt,
+      };
+      const data = await streamNarration(group.landmarkName, base, () => setAppState('result'), () => handleOpenAlbumGroup(group), signal);
+      const entry = data && await saveToJournal(`album-${coverPhoto.id}`, data, coverPhoto.file, language);
+      if (entry && !signal.aborted) journalEntryRef.current = entry;
+    } catch (err) {
+      if (isAbortError(err)) return;
+      const message = err instanceof Error ? err.message : t('errorProcessing');
+      setAlbumError(message);
+      setAppState('album');
+    } finally {
+      setLoadingMessage('');
+    }
+  };
+
+  /**
+   * Returns from an album group's guide to the album without discarding its photos.
+   */
+  const handleBackToAlbum = () => {
+    narrationIdRef.current++;
+    operationRef.current?.abort();
+    setIsHistoryStreaming(false);
+    setLandmarkData(null);
+    setAppState('album');
+  };
+
+  /**
+   * Narrates the candidate the user picked from the disambiguation picker.
+   * @param {LandmarkCandidate} candidate - The selected candidate.
+   */
+  const handleCandidateSelect = (candidate: LandmarkCandidate) => {
+    if (!pendingPhoto) return;
+    setCandidates([]);
+    setPendingPhoto(null);
+    narrateLandmark(candidate, pendingPhoto, beginOperation());
+  };
   
+  /**
+   * Cancels the analysis in progress. Opening an album group returns to the album;
+   * anything else returns to the upload screen.
+   */
+  const handleCancel = () => {
+    setLoadingMessage('');
+    if (albumPhotos.length > 0) {
+      handleBackToAlbum();
+    } else {
+      handleReset();
+    }
+  };
+
   /**
    * Resets the application state back to 'idle' (image upload).
    */
   const handleReset = () => {
+    narrationIdRef.current++;
+    operationRef.current?.abort();
+    journalEntryRef.current = null;
     setAppState('idle');
     setLandmarkData(null);
+    setIsHistoryStreaming(false);
+    setIsAudioUnavailable(false);
+    setRetryNarration(null);
+    setIsTranslating(false);
+    setCandidates([]);
     setError(null);
     if (landmarkData?.userImageUrl) {
         URL.revokeObjectURL(landmarkData.userImageUrl);
     }
+    if (pendingPhoto) {
+        URL.revokeObjectURL(pendingPhoto.userImageUrl);
+        setPendingPhoto(null);
+    }
+    if (translatedPhoto) {
+        URL.revokeObjectURL(translatedPhoto.userImageUrl);
+        setTranslatedPhoto(null);
+    }
+    if (albumPhotos.length > 0) {
+        albumGenerationRef.current++;
+        albumAbortRef.current.abort();
+        albumPhotos.forEach(photo => URL.revokeObjectURL(photo.userImageUrl));
+        setAlbumPhotos([]);
+        setAlbumError(null);
+    }
+  };
+
+  /**
+   * Closes the displayed guide and returns to the upload screen.
+   */
+  const handleCloseGuide = () => {
+    handleReset();
+    navigate({ view: 'guide' });
+  };
+
+  /**
+   * Shows a saved discovery in the result view, without calling Gemini again.
+   * @param {DiscoveryEntry} entry - The journal entry to show.
+   */
+  const showDiscovery = (entry: DiscoveryEntry) => {
+    handleReset();
+    const { id, imageBlob, language: entryLanguage, savedAt, ...narration } = entry;
+    setLandmarkData({ ...narration, userImageUrl: URL.createObjectURL(imageBlob) });
+    journalEntryRef.current = entry;
+    setAppState('result');
+    setActiveView('landmark');
+  };
+
+  /**
+   * Reopens a discovery chosen in the journal.
+   * @param {DiscoveryEntry} entry - The journal entry chosen by the user.
+   */
+  const handleOpenDiscovery = (entry: DiscoveryEntry) => {
+    showDiscovery(entry);
+    navigate({ view: 'discovery', id: entry.id });
+  };
+
+  /**
+   * Opens a saved discovery from a link to it. A missing entry returns to the upload screen
+   * with an error.
+   * @param {string} id - The id of the journal entry.
+   */
+  const openDiscoveryById = async (id: string) => {
+    const signal = beginOperation();
+    try {
+      const entry = await getDiscovery(id);
+      if (signal.aborted) return;
+      if (!entry) throw new Error(t('errorDiscoveryNotFound'));
+      showDiscovery(entry);
+    } catch (err) {
+      if (signal.aborted) return;
+      console.error(`Could not open discovery ${id}:`, err);
+      setError(err instanceof Error ? err.message : t('errorProcessing'));
+      navigate({ view: 'guide' }, true);
+    }
+  };
+
+  /**
+   * Shows the view of a route, with its linked state, discarding whatever was displayed before.
+   * Used when the app is opened from a link and for the browser's back and forward buttons.
+   * @param {Route} route - The route to show.
+   */
+  const applyRoute = (route: Route) => {
+    handleReset();
+    setRouteVersion(version => version + 1);
+    setNearbyOrigin(route.view === 'nearby' ? route.origin : undefined);
+    setPlannerSeed(route.view === 'planner' ? { location: route.location, planId: route.planId } : undefined);
+    setTopPlacesSeed(route.view === 'topPlaces' ? { country: route.country, city: route.city } : undefined);
+    setActiveView(route.view === 'guide' || route.view === 'discovery' ? 'landmark' : route.view);
+    if (route.view === 'discovery') openDiscoveryById(route.id);
+  };
+
+  /**
+   * Navigates to a route from within the app: shows it and adds it to the browser history.
+   * @param {Route} route - The route to open.
+   */
+  const showRoute = (route: Route) => {
+    applyRoute(route);
+    navigate(route);
+  };
+
+  /**
+   * Opens the Nearby tab centred on where the photo was taken.
+   * @param {PhotoLocation} location - The EXIF location of the user's photo.
+   */
+  const handleExploreNearby = (location: PhotoLocation) => {
+    showRoute({ view: 'nearby', origin: { lat: location.latitude, lon: location.longitude } });
+  };
+
+  /**
+   * Opens a landmark suggested from a guide as a guide of its own. There is no photo of it,
+   * so the guide shows a generated view of the landmark, labelled as such. Without a photo
+   * by the user, the guide is not saved to the journal and offers no reconstruction.
+   * @param {RelatedLandmark} related - The suggestion chosen by the user.
+   */
+  const handleOpenRelated = async (related: RelatedLandmark) => {
+    handleReset();
+    navigate({ view: 'guide' });
+    const signal = beginOperation();
+    setAppState('loading');
+    setLoadingMessage(t('loadingRelatedImage', { landmarkName: related.name }));
+    try {
+      const imageData = await generateImageForPlace(related.name, related.location, signal);
+      const base: GuideBase = { userImageUrl: `data:image/png;base64,${imageData}`, isImageGenerated: true, mode: 'landmark' };
+      await streamNarration(related.name, base, () => setAppState('result'), () => handleOpenRelated(related), signal);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      const message = err instanceof Error ? err.message : t('errorProcessing');
+      setError(message);
+      setAppState('idle');
+    } finally {
+      setLoadingMessage('');
+    }
+  };
+
+  /**
+   * Opens the Planner tab and starts planning a day around the given location.
+   * @param {string} location - The landmark and city suggested from a guide.
+   */
+  const handlePlanTour = (location: string) => {
+    showRoute({ view: 'planner', location });
   };
 
+  /**
+   * Shows the route of the URL the app was opened with, and replaces the URL with its
+   * canonical form, e.g. "/" with "/guide".
+   */
+  useEffect(() => {
+    const initialRoute = getCurrentRoute();
+    applyRoute(initialRoute);
+    navigate(initialRoute, true);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  /**
+   * Follows the browser's back and forward buttons. Re-registered on every render so the
+   * handler always sees the current state.
+   */
+  useEffect(() => {
+    const handlePopState = () => applyRoute(getCurrentRoute());
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  });
+
    /**
-   * useEffect hook to handle automatic re-identification/translation when the language changes,
-   * but only after the initial mount and if a result is currently displayed.
+   * useEffect hook to re-narrate the current landmark when the language, narration preset or voice
+   * changes, but only after the initial mount and if a result is currently displayed.
+   * Identification is not repeated: only the history and audio are regenerated for the
+   * already known landmark, and narrations cached for that combination are reused instantly.
+   * A guide saved in the journal is updated there with the new narration.
    */
   useEffect(() => {
     if (isInitialMount) {
@@ -214,31 +901,61 @@ const App: React.FC = () => {
         return;
     }
 
-    const handleLanguageChange = async () => {
+    const handleNarrationChange = async () => {
         if (!landmarkData || appState !== 'result') return;
         
+        const journalEntry = journalEntryRef.current;
         setIsTranslating(true);
         setError(null);
         try {
-            // Re-fetch the image from the temporary URL and convert it back to a File
-            const response = await fetch(landmarkData.userImageUrl);
-            const blob = await response.blob();
-            const file = new File([blob], "landmark_image.jpg", { type: blob.type });
-
-            // Re-run identification with the new language
-            const result = await identifyLandmark(file, language, () => {});
-
-            // Preserve the original image URL
-            setLandmarkData({ ...result, userImageUrl: landmarkData.userImageUrl });
+            // Preserve the original image URL and photo metadata
+            const { name, userImageUrl, isImageGenerated, photoLocation, capturedAt, mode, transcript } = landmarkData;
+            const data = await streamNarration(name, { userImageUrl, isImageGenerated, photoLocation, capturedAt, mode, transcript }, () => setIsTranslating(false), handleNarrationChange, beginOperation());
+            if (data && journalEntry) {
+                // The entry keeps its id, photo and save time, so it stays in place in the journal
+                const { userImageUrl: imageUrl, ...narration } = data;
+                const { id, imageBlob, savedAt } = journalEntry;
+                const updatedEntry: DiscoveryEntry = { ...narration, id, imageBlob, savedAt, language };
+                journalEntryRef.current = updatedEntry;
+                await saveDiscovery(updatedEntry).catch(err => console.warn(`Could not update ${name} in the discovery journal:`, err));
+            }
         } catch (err) {
+            if (isAbortError(err)) return;
             const message = err instanceof Error ? err.message : t('errorProcessing');
             setError(message);
-        } finally {
             setIsTranslating(false);
         }
     };
 
-    handleLanguageChange();
+    handleNarrationChange();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [language, preset, voice]);
+
+  /**
+   * Translates the text of the displayed photo again when the language changes.
+   * The previous translation stays visible if this fails.
+   */
+  useEffect(() => {
+    if (!translatedPhoto || appState !== 'translation') return;
+
+    const { file } = translatedPhoto;
+    const langName = SUPPORTED_LANGUAGES.find(l => l.code === language)?.name || 'English';
+    const signal = beginOperation();
+    setIsTranslating(true);
+    setError(null);
+    translatePhotoText(file, langName, signal)
+      .then(regions => {
+        signal.throwIfAborted();
+        setTranslatedPhoto(current => current?.file === file ? { ...current, regions } : current);
+      })
+      .catch(err => {
+        // A newer language change or a reset has taken over
+        if (isAbortError(err)) return;
+        setError(err instanceof Error ? err.message : t('errorProcessing'));
+      })
+      .finally(() => {
+        if (!signal.aborted) setIsTranslating(false);
+      });
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [language]);
 
@@ -262,11 +979,27 @@ const App: React.FC = () => {
         case 'landmark':
             return renderLandmarkFinder();
         case 'planner':
-            return <TourPlanner />;
+            return (
+              <TourPlanner
+                key={routeVersion}
+                initialLocation={plannerSeed?.location}
+                initialPlanId={plannerSeed?.planId}
+                onPlanChange={(location, planId) => navigate(planId ? { view: 'planner', planId } : { view: 'planner', location })}
+              />
+            );
         case 'nearby':
-            return <NearbyPlaces />;
+            return <NearbyPlaces key={routeVersion} initialCoordinates={nearbyOrigin} />;
         case 'topPlaces':
-            return <TopPlaces />;
+            return (
+              <TopPlaces
+                key={routeVersion}
+                initialCountry={topPlacesSeed?.country}
+                initialCity={topPlacesSeed?.city}
+                onSearch={(country, city) => navigate({ view: 'topPlaces', country, city })}
+              />
+            );
+        case 'journal':
+            return <DiscoveryJournal key={routeVersion} onOpen={handleOpenDiscovery} onPlanTour={handlePlanTour} />;
         default:
             return renderLandmarkFinder();
     }
@@ -279,16 +1012,71 @@ const App: React.FC = () => {
   const renderLandmarkFinder = () => {
     switch (appState) {
       case 'loading':
-        return <LoadingState message={loadingMessage || t('loadingPreparing')} />;
+        return <LoadingState message={loadingMessage || t('loadingPreparing')} onCancel={handleCancel} />;
+      case 'choosing':
+        return pendingPhoto && (
+          <LandmarkCandidatePicker
+            candidates={candidates}
+            imageUrl={pendingPhoto.userImageUrl}
+            onSelect={handleCandidateSelect}
+            onCancel={handleReset}
+            mode={pendingPhoto.mode}
+          />
+        );
+      case 'album':
+        return (
+          <TripAlbum
+            photos={albumPhotos}
+            error={albumError}
+            onOpenGroup={handleOpenAlbumGroup}
+            onRetry={handleRetryAlbumPhoto}
+            onReset={handleReset}
+          />
+        );
       case 'result':
-        return landmarkData && <ResultDisplay data={landmarkData} onReset={handleReset} isTranslating={isTranslating} />;
+        return landmarkData && (
+          <ResultDisplay
+            data={landmarkData}
+            onReset={albumPhotos.length > 0 ? handleBackToAlbum : handleCloseGuide}
+            isTranslating={isTranslating}
+            isHistoryStreaming={isHistoryStreaming}
+            isAudioUnavailable={isAudioUnavailable}
+            onRetryNarration={retryNarration ?? undefined}
+            onExploreNearby={handleExploreNearby}
+            onOpenRelated={handleOpenRelated}
+            onPlanTour={handlePlanTour}
+          />
+        );
+      case 'translation':
+        return translatedPhoto && (
+          <PhotoTranslation
+            imageUrl={translatedPhoto.userImageUrl}
+            regions={translatedPhoto.regions}
+            isTranslating={isTranslating}
+            error={error}
+            onReset={handleReset}
+          />
+        );
       case 'idle':
       default:
         return (
           <div className="text-center p-4 sm:p-8 bg-white/90 dark:bg-gray-800/90 backdrop-blur-md rounded-2xl shadow-2xl w-full max-w-md animate-fade-in flex flex-col justify-center md:min-h-[450px]">
             <h1 className="text-4xl md:text-5xl font-extrabold text-brand-dark dark:text-white mb-4">{t('uploadTitle')}</h1>
             <p className="text-lg text-gray-600 dark:text-gray-300 mb-8">{t('uploadSubtitle')}</p>
-            <ImageUploader onImageSelect={handleImageSelect} />
+            <div className="mb-6">
+              <ScanModeSelector mode={scanMode} onChange={setScanMode} />
+            </div>
+            {/* Trip albums group photos by landmark, so they are only offered in landmark mode */}
+            <ImageUploader onImageSelect={handleImageSelect} onImagesSelect={scanMode === 'landmark' ? handleImagesSelect : undefined} />
+            <p className="mt-4 text-sm text-gray-500 dark:text-gray-400">{t(SCAN_MODE_OPTIONS[scanMode].hintKey)}</p>
+            <div className="mt-6">
+              <p className="text-sm font-semibold text-gray-600 dark:text-gray-300 mb-2">{t('narrationPresetLabel')}</p>
+              <NarrationPresetSelector />
+            </div>
+            <div className="mt-4">
+              <p className="text-sm font-semibold text-gray-600 dark:text-gray-300 mb-2">{t('voiceLabel')}</p>
+              <VoiceSelector />
+            </div>
             {error && <p className="mt-4 text-red-600 bg-red-100 dark:bg-red-900/50 dark:text-red-300 p-3 rounded-lg">{error}</p>}
           </div>
         );
@@ -308,8 +1096,7 @@ const App: React.FC = () => {
     <button
         onClick={() => {
             if (appState === 'loading') return;
-            handleReset(); 
-            setActiveView(view);
+            showRoute(TAB_ROUTES[view]);
         }}
         disabled={appState === 'loading'}
         className={`flex-1 flex flex-col items-center justify-center p-3 text-sm font-semibold border-b-4 transition-colors duration-200 disabled:cursor-not-allowed ${activeView === view ? 'border-brand-blue text-brand-dark dark:text-white' : 'border-transparent text-gray-500 dark:text-gray-400 hover:bg-brand-lightblue/50 dark:hover:bg-gray-700/50'}`}
@@ -320,7 +1107,7 @@ const App: React.FC = () => {
   );
 
   return (
-    <div className="min-h-screen flex flex-col items-center justify-center p-4 pt-28 sm:pt-32 pb-24 font-sans relative">
+    <div className={`min-h-screen flex flex-col items-center justify-center p-4 pt-28 sm:pt-32 font-sans relative ${walkingTourState.places.length > 0 ? 'pb-52' : 'pb-24'}`}>
         <HelpModal isOpen={isHelpModalOpen} onClose={() => setIsHelpModalOpen(false)} />
         <div className="absolute inset-0 bg-[url('https://p.turbosquid.com/ts-thumb/4N/tGvRoh/6p/01/jpg/1656306220/1920x1080/fit_q87/6395b1b534d26bae00bd5b3311ac1b047abcb412/01.jpg')] bg-cover bg-center opacity-40"></div>
         <header className="absolute top-0 left-0 w-full p-4 flex justify-between items-center z-20 bg-brand-navy shadow-lg">
@@ -347,6 +1134,9 @@ const App: React.FC = () => {
         <main ref={mainRef} className="relative z-10 flex-grow flex flex-col items-center justify-center w-full">
             {renderActiveView()}
         </main>
+
+        {/* Rendered outside the views, so the walking tour stays controllable across tab switches */}
+        <WalkingTourPlayer />
         
         <footer className="fixed bottom-0 left-0 w-full bg-white/80 dark:bg-gray-900/80 backdrop-blur-sm shadow-top z-20">
              <div className="max-w-lg mx-auto flex">
@@ -354,6 +1144,7 @@ const App: React.FC = () => {
                 <TabButton view="planner" icon={<CalendarDaysIcon className="w-6 h-6" />} label={t('tourPlannerTabTitle')} />
                 <TabButton view="nearby" icon={<MapPinIcon className="w-6 h-6" />} label={t('nearbyPlacesTabTitle')} />
                 <TabButton view="topPlaces" icon={<StarIcon className="w-6 h-6" />} label={t('topPlacesTabTitle')} />
+                <TabButton view="journal" icon={<BookOpenIcon className="w-6 h-6" />} label={t('journalTabTitle')} />
              </div>
         </footer>
     </div>
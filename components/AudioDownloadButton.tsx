@@ -0,0 +1,133 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { encodeWav, encodeCompressedAudio, getCompressedAudioFormat, getAudioFileName } from '../utils/audio';
+import { isAbortError } from '../services/geminiService';
+import { DownloadIcon, LoaderIcon } from './Icons';
+import { useTranslation } from '../contexts/LanguageContext';
+
+/**
+ * Saves a blob to the user's device under the given name.
+ */
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Give the browser a moment to start the download before releasing the data
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * Props for the AudioDownloadButton component.
+ */
+interface AudioDownloadButtonProps {
+  /** The narration as base64 raw PCM from the TTS model. */
+  audioData: string;
+  /** The landmark or place name, used for the file name. */
+  title: string;
+  /** A smaller button for cards. */
+  compact?: boolean;
+}
+
+/**
+ * Downloads a narration for offline listening, as WAV or, where the browser can encode it,
+ * as a smaller compressed file. The format is picked from a small menu; without compression
+ * support the button downloads the WAV directly.
+ * @param {AudioDownloadButtonProps} props - The component props.
+ */
+export const AudioDownloadButton: React.FC<AudioDownloadButtonProps> = ({ audioData, title, compact = false }) => {
+  const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const [isCompressing, setIsCompressing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const { t } = useTranslation();
+  const compressedFormat = getCompressedAudioFormat();
+
+  useEffect(() => {
+    return () => abortRef.current?.abort();
+  }, []);
+
+  const handleDownloadWav = () => {
+    setIsMenuOpen(false);
+    setError(null);
+    downloadBlob(encodeWav(audioData), getAudioFileName(title, 'wav'));
+  };
+
+  const handleDownloadCompressed = async () => {
+    if (!compressedFormat) return;
+    setIsMenuOpen(false);
+    setError(null);
+    setIsCompressing(true);
+    const controller = new AbortController();
+    abortRef.current = controller;
+    try {
+      const { blob, extension } = await encodeCompressedAudio(audioData, controller.signal);
+      downloadBlob(blob, getAudioFileName(title, extension));
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error("Failed to compress the audio:", err);
+      setError(t('errorAudioDownload'));
+    } finally {
+      if (!controller.signal.aborted) setIsCompressing(false);
+    }
+  };
+
+  const handleCancelCompression = () => {
+    abortRef.current?.abort();
+    setIsCompressing(false);
+  };
+
+  const buttonClass = compact
+    ? 'p-2 bg-brand-lightblue text-brand-dark rounded-full hover:bg-brand-blue hover:text-white transition-colors'
+    : 'p-3 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors';
+  const iconClass = compact ? 'w-5 h-5' : 'w-6 h-6';
+
+  return (
+    <div className="relative inline-flex items-center">
+      {isCompressing ? (
+        <button
+          onClick={handleCancelCompression}
+          className={buttonClass}
+          aria-label={t('audioDownloadCompressing')}
+          title={t('audioDownloadCompressing')}
+        >
+          <LoaderIcon className={`${iconClass} animate-spin`} />
+        </button>
+      ) : (
+        <button
+          onClick={compressedFormat ? () => setIsMenuOpen(open => !open) : handleDownloadWav}
+          className={buttonClass}
+          aria-label={t('audioDownloadAriaLabel', { title })}
+          aria-haspopup={compressedFormat ? 'menu' : undefined}
+          aria-expanded={compressedFormat ? isMenuOpen : undefined}
+          title={t('audioDownloadAriaLabel', { title })}
+        >
+          <DownloadIcon className={iconClass} />
+        </button>
+      )}
+      {isMenuOpen && compressedFormat && (
+        <div role="menu" className="absolute right-0 bottom-full mb-2 z-30 w-56 py-1 bg-white dark:bg-gray-700 rounded-lg shadow-xl border border-gray-200 dark:border-gray-600 text-left">
+          <button
+            role="menuitem"
+            onClick={handleDownloadWav}
+            className="w-full px-4 py-2 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-600 text-left"
+          >
+            {t('audioDownloadWav')}
+          </button>
+          <button
+            role="menuitem"
+            onClick={handleDownloadCompressed}
+            className="w-full px-4 py-2 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-600 text-left"
+          >
+            {t('audioDownloadCompressed', { format: compressedFormat.extension.toUpperCase() })}
+          </button>
+        </div>
+      )}
+      {error && (
+        <p role="alert" className="absolute right-0 bottom-full mb-2 z-30 w-56 text-xs text-red-600 bg-red-100 dark:bg-red-900/50 dark:text-red-300 p-2 rounded-lg">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,63 @@
+import React from 'react';
+import { audioPlayer, useAudioPlayerState } from '../utils/audio';
+import { useTranslation } from '../contexts/LanguageContext';
+
+const PLAYBACK_RATES = [0.75, 1, 1.25, 1.5, 2];
+
+/**
+ * Formats seconds as m:ss.
+ */
+const formatTime = (seconds: number): string => {
+  const wholeSeconds = Math.floor(seconds);
+  return `${Math.floor(wholeSeconds / 60)}:${`${wholeSeconds % 60}`.padStart(2, '0')}`;
+};
+
+/**
+ * Props for the AudioScrubber component.
+ */
+interface AudioScrubberProps {
+  /** The track this scrubber controls; it is only shown while that track is loaded in the player. */
+  trackId: string;
+  /** A smaller layout for cards. */
+  compact?: boolean;
+}
+
+/**
+ * Seek bar, elapsed and total time, and speed control for the shared audio player.
+ * Rendered next to a play button, it appears once that button's track has been loaded.
+ * @param {AudioScrubberProps} props - The component props.
+ */
+export const AudioScrubber: React.FC<AudioScrubberProps> = ({ trackId, compact = false }) => {
+  const { trackId: currentTrackId, currentTime, duration, playbackRate } = useAudioPlayerState();
+  const { t } = useTranslation();
+
+  if (currentTrackId !== trackId) return null;
+
+  return (
+    <div className={`w-full flex items-center animate-fade-in ${compact ? 'gap-2 text-xs' : 'gap-3 text-sm'}`}>
+      <span className="tabular-nums text-gray-500 dark:text-gray-400">{formatTime(currentTime)}</span>
+      <input
+        type="range"
+        min={0}
+        max={duration}
+        step={0.1}
+        value={currentTime}
+        onChange={(e) => audioPlayer.seek(Number(e.target.value))}
+        aria-label={t('audioSeekLabel')}
+        aria-valuetext={t('audioPositionValue', { current: formatTime(currentTime), total: formatTime(duration) })}
+        className="flex-grow min-w-0 accent-brand-blue cursor-pointer"
+      />
+      <span className="tabular-nums text-gray-500 dark:text-gray-400">{formatTime(duration)}</span>
+      <select
+        value={playbackRate}
+        onChange={(e) => audioPlayer.setPlaybackRate(Number(e.target.value))}
+        aria-label={t('audioSpeedLabel')}
+        className={`rounded-full border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200 ${compact ? 'px-1 py-0.5' : 'px-2 py-1'}`}
+      >
+        {PLAYBACK_RATES.map(rate => (
+          <option key={rate} value={rate}>{`${rate}×`}</option>
+        ))}
+      </select>
+    </div>
+  );
+};
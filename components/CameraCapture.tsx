@@ -0,0 +1,252 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { CameraIcon, ArrowPathIcon, BoltIcon, CheckIcon, XIcon, LoaderIcon } from './Icons';
+import { useTranslation } from '../contexts/LanguageContext';
+
+type FacingMode = 'environment' | 'user';
+
+/**
+ * Reasons why the camera could not be started.
+ * 'denied': The user or browser refused camera access.
+ * 'unavailable': No usable camera was found or it is already in use.
+ */
+export type CameraErrorReason = 'denied' | 'unavailable';
+
+/**
+ * Torch support is not part of the standard DOM typings yet.
+ */
+type TorchCapabilities = MediaTrackCapabilities & { torch?: boolean };
+
+/**
+ * Props for the CameraCapture component.
+ */
+interface CameraCaptureProps {
+  /** Called with the accepted frame as a JPEG file. */
+  onCapture: (file: File) => void;
+  /** Called when the user closes the viewfinder. */
+  onClose: () => void;
+  /** Called when the camera cannot be started, so the caller can fall back to the file picker. */
+  onError: (reason: CameraErrorReason) => void;
+}
+
+/**
+ * Returns true when the browser exposes the camera API at all.
+ */
+export const isCameraSupported = (): boolean =>
+  typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+/**
+ * An in-app camera viewfinder built on getUserMedia. It supports switching between
+ * the front and rear cameras, an optional torch, and a retake preview before the
+ * captured frame is handed to the caller.
+ * @param {CameraCaptureProps} props - The component props.
+ */
+export const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose, onError }) => {
+  const [facingMode, setFacingMode] = useState<FacingMode>('environment');
+  const [isStarting, setIsStarting] = useState(true);
+  const [hasMultipleCameras, setHasMultipleCameras] = useState(false);
+  const [isTorchSupported, setIsTorchSupported] = useState(false);
+  const [isTorchOn, setIsTorchOn] = useState(false);
+  const [captured, setCaptured] = useState<{ file: File; previewUrl: string } | null>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  // The latest onError, so a parent re-render does not restart the camera
+  const onErrorRef = useRef(onError);
+  const { t } = useTranslation();
+
+  useEffect(() => {
+    onErrorRef.current = onError;
+  }, [onError]);
+
+  const stopStream = useCallback(() => {
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+  }, []);
+
+  /**
+   * (Re)starts the camera stream whenever the facing mode changes.
+   * The stream is stopped on unmount so the camera light turns off.
+   */
+  useEffect(() => {
+    let isCancelled = false;
+
+    const startCamera = async () => {
+      setIsStarting(true);
+      setIsTorchOn(false);
+      stopStream();
+      try {
+        const stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: { ideal: facingMode }, width: { ideal: 1920 }, height: { ideal: 1080 } },
+          audio: false,
+        });
+        if (isCancelled) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        streamRef.current = stream;
+        if (videoRef.current) {
+          videoRef.current.srcObject = stream;
+        }
+
+        const [track] = stream.getVideoTracks();
+        const capabilities = (track.getCapabilities?.() || {}) as TorchCapabilities;
+        setIsTorchSupported(!!capabilities.torch);
+
+        // The stream already works, so failing to list the cameras only hides the switch button
+        try {
+          const devices = await navigator.mediaDevices.enumerateDevices();
+          if (!isCancelled) {
+            setHasMultipleCameras(devices.filter(device => device.kind === 'videoinput').length > 1);
+          }
+        } catch (err) {
+          console.warn("Could not list the cameras:", err);
+        }
+      } catch (err) {
+        if (isCancelled) return;
+        console.error("Failed to start camera:", err);
+        const name = err instanceof DOMException ? err.name : '';
+        onErrorRef.current(name === 'NotAllowedError' || name === 'SecurityError' ? 'denied' : 'unavailable');
+      } finally {
+        if (!isCancelled) setIsStarting(false);
+      }
+    };
+
+    startCamera();
+    return () => {
+      isCancelled = true;
+      stopStream();
+    };
+  }, [facingMode, stopStream]);
+
+  useEffect(() => {
+    return () => {
+      if (captured) URL.revokeObjectURL(captured.previewUrl);
+    };
+  }, [captured]);
+
+  const handleToggleTorch = async () => {
+    const track = streamRef.current?.getVideoTracks()[0];
+    if (!track) return;
+    try {
+      await track.applyConstraints({ advanced: [{ torch: !isTorchOn } as MediaTrackConstraintSet] });
+      setIsTorchOn(!isTorchOn);
+    } catch (err) {
+      console.warn("Torch could not be toggled:", err);
+      setIsTorchSupported(false);
+    }
+  };
+
+  const handleSwitchCamera = () => {
+    setFacingMode(current => current === 'environment' ? 'user' : 'environment');
+  };
+
+  /**
+   * Draws the current video frame onto a canvas and keeps it as a JPEG for review.
+   */
+  const handleCapture = () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext('2d')?.drawImage(video, 0, 0, canvas.width, canvas.height);
+    canvas.toBlob(blob => {
+      if (!blob) return;
+      const file = new File([blob], `scout-ai-capture-${Date.now()}.jpg`, { type: 'image/jpeg' });
+      setCaptured({ file, previewUrl: URL.createObjectURL(blob) });
+    }, 'image/jpeg', 0.92);
+  };
+
+  const handleRetake = () => {
+    setCaptured(null);
+  };
+
+  const handleUsePhoto = () => {
+    if (!captured) return;
+    stopStream();
+    onCapture(captured.file);
+  };
+
+  const controlButtonClass = "p-3 rounded-full bg-black/50 text-white hover:bg-black/75 transition-colors disabled:opacity-40";
+
+  return (
+    <div className="relative w-full aspect-[3/4] bg-black rounded-2xl overflow-hidden shadow-lg">
+      <video
+        ref={videoRef}
+        autoPlay
+        playsInline
+        muted
+        className={`w-full h-full object-cover ${facingMode === 'user' ? '-scale-x-100' : ''} ${captured ? 'hidden' : ''}`}
+      />
+      {captured && (
+        <img src={captured.previewUrl} alt={t('cameraPreviewAlt')} className="w-full h-full object-cover" />
+      )}
+      {isStarting && !captured && (
+        <div className="absolute inset-0 flex flex-col items-center justify-center text-white">
+          <LoaderIcon className="w-10 h-10 animate-spin mb-2" />
+          <p className="text-sm font-semibold">{t('cameraStarting')}</p>
+        </div>
+      )}
+
+      <div className="absolute top-3 left-3 right-3 flex justify-between">
+        <button onClick={onClose} className={controlButtonClass} aria-label={t('cameraCloseAriaLabel')}>
+          <XIcon className="w-5 h-5" />
+        </button>
+        {!captured && (
+          <div className="flex gap-2">
+            {isTorchSupported && (
+              <button
+                onClick={handleToggleTorch}
+                className={`${controlButtonClass} ${isTorchOn ? 'text-amber-300' : ''}`}
+                aria-label={isTorchOn ? t('cameraTorchOffAriaLabel') : t('cameraTorchOnAriaLabel')}
+                aria-pressed={isTorchOn}
+              >
+                <BoltIcon className={`w-5 h-5 ${isTorchOn ? 'fill-current' : ''}`} />
+              </button>
+            )}
+            {hasMultipleCameras && (
+              <button
+                onClick={handleSwitchCamera}
+                disabled={isStarting}
+                className={controlButtonClass}
+                aria-label={t('cameraSwitchAriaLabel')}
+              >
+                <ArrowPathIcon className="w-5 h-5" />
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="absolute bottom-4 left-0 w-full flex justify-center gap-4">
+        {captured ? (
+          <>
+            <button
+              onClick={handleRetake}
+              className="flex items-center px-5 py-3 bg-white/90 text-brand-dark font-bold rounded-full shadow-lg hover:bg-white transition-colors"
+            >
+              <ArrowPathIcon className="w-5 h-5 mr-2" />
+              {t('cameraRetakeButton')}
+            </button>
+            <button
+              onClick={handleUsePhoto}
+              className="flex items-center px-5 py-3 bg-brand-blue text-white font-bold rounded-full shadow-lg hover:bg-brand-dark transition-colors"
+            >
+              <CheckIcon className="w-5 h-5 mr-2" />
+              {t('cameraUsePhotoButton')}
+            </button>
+          </>
+        ) : (
+          <button
+            onClick={handleCapture}
+            disabled={isStarting}
+            className="w-16 h-16 rounded-full bg-white border-4 border-brand-blue flex items-center justify-center shadow-lg hover:scale-105 transition-transform disabled:opacity-50"
+            aria-label={t('cameraCaptureAriaLabel')}
+          >
+            <CameraIcon className="w-7 h-7 text-brand-blue" />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
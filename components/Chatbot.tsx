@@ -1,7 +1,7 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { createChatSession, sendChatMessage } from '../services/geminiService';
 import type { Chat } from '@google/genai';
-import type { ChatMessage } from '../types';
+import type { ChatMessage, ScanMode } from '../types';
 import { PaperAirplaneIcon, UserCircleIcon, SparklesIcon, LoaderIcon } from './Icons';
 import { useTranslation } from '../contexts/LanguageContext';
 
@@ -9,9 +9,11 @@ import { useTranslation } from '../contexts/LanguageContext';
  * Props for the Chatbot component.
  * @interface ChatbotProps
  * @property {string} landmarkName - The name of the landmark to use in the system instruction for the chat.
+ * @property {ScanMode} [mode] - What was scanned; anything other than a landmark gets a general-purpose guide.
  */
 interface ChatbotProps {
   landmarkName: string;
+  mode?: ScanMode;
 }
 
 
@@ -21,7 +23,7 @@ interface ChatbotProps {
  * @param {ChatbotProps} props - Component props.
  * @returns {React.FC} The Chatbot component.
  */
-export const Chatbot: React.FC<ChatbotProps> = ({ landmarkName }) => {
+export const Chatbot: React.FC<ChatbotProps> = ({ landmarkName, mode = 'landmark' }) => {
   // --- State Management ---
   /** Holds the active chat session object from the Gemini SDK. */
   const [chat, setChat] = useState<Chat | null>(null);
@@ -44,7 +46,7 @@ export const Chatbot: React.FC<ChatbotProps> = ({ landmarkName }) => {
     const initializeChat = async () => {
       setIsLoading(true);
 
-      const systemInstruction = t('chatbotSystemInstruction', { landmarkName });
+      const systemInstruction = t(mode === 'landmark' ? 'chatbotSystemInstruction' : 'chatbotSystemInstructionSubject', { landmarkName });
       const initialMessage = t('chatbotInitialMessage');
 
       const chatSession = createChatSession(systemInstruction);
@@ -57,7 +59,7 @@ export const Chatbot: React.FC<ChatbotProps> = ({ landmarkName }) => {
     };
 
     initializeChat();
-  }, [landmarkName, t]);
+  }, [landmarkName, mode, t]);
 
   /**
    * Effect hook to automatically scroll the chat body to the bottom whenever new messages are added.
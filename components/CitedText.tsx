@@ -0,0 +1,125 @@
+import React from 'react';
+import type { GroundingSource, Citation } from '../types';
+import type { TranscriptSegment } from '../utils/transcript';
+import { useTranslation } from '../contexts/LanguageContext';
+
+/**
+ * Props for the CitedText component.
+ */
+interface CitedTextProps {
+  text: string;
+  sources?: GroundingSource[];
+  citations?: Citation[];
+  /** Class name applied to each paragraph. */
+  paragraphClassName?: string;
+  /** Sentences of a narrated text; each can be highlighted and clicked. */
+  segments?: TranscriptSegment[];
+  /** Index of the highlighted segment, or -1 for none. */
+  activeSegment?: number;
+  onSegmentClick?: (index: number) => void;
+}
+
+/**
+ * Renders grounded text paragraph by paragraph, with numbered citation markers placed
+ * after each sentence that is supported by a source. The numbers match SourceList.
+ * When segments are given, each sentence is wrapped so it can follow the audio narration.
+ * @param {CitedTextProps} props - The component props.
+ */
+export const CitedText: React.FC<CitedTextProps> = ({ text, sources = [], citations = [], paragraphClassName, segments = [], activeSegment = -1, onSegmentClick }) => {
+  let paragraphStart = 0;
+
+  const renderText = (from: number, to: number): React.ReactNode => {
+    const segmentIndex = segments.findIndex(segment => from >= segment.start && from < segment.end);
+    if (segmentIndex === -1) return text.slice(from, to);
+    return (
+      <span
+        key={`text-${from}`}
+        data-segment={segmentIndex}
+        onClick={onSegmentClick && (() => onSegmentClick(segmentIndex))}
+        className={`rounded transition-colors duration-300 ${onSegmentClick ? 'cursor-pointer' : ''} ${segmentIndex === activeSegment
+          ? 'bg-brand-lightblue text-brand-dark dark:bg-brand-blue/40 dark:text-white'
+          : 'hover:bg-gray-100 dark:hover:bg-gray-700'
+        }`}
+      >
+        {text.slice(from, to)}
+      </span>
+    );
+  };
+
+  return (
+    <>
+      {text.split('\n').map((paragraph, paragraphIndex) => {
+        const start = paragraphStart;
+        const end = start + paragraph.length;
+        paragraphStart = end + 1; // skip the newline
+
+        // A citation belongs to the paragraph whose text it closes.
+        const paragraphCitations = citations.filter(citation => citation.endIndex > start && citation.endIndex <= end);
+        // The text is cut wherever a citation marker goes or a segment starts or ends
+        const cuts = new Set([start, end, ...paragraphCitations.map(citation => citation.endIndex)]);
+        segments.forEach(segment => {
+          if (segment.start > start && segment.start < end) cuts.add(segment.start);
+          if (segment.end > start && segment.end < end) cuts.add(segment.end);
+        });
+        const positions = [...cuts].sort((a, b) => a - b);
+
+        const content: React.ReactNode[] = [];
+        positions.slice(1).forEach((position, pieceIndex) => {
+          content.push(renderText(positions[pieceIndex], position));
+          paragraphCitations.filter(citation => citation.endIndex === position).forEach(citation => {
+            content.push(
+              <sup key={`citation-${position}`} className="ml-0.5 whitespace-nowrap">
+                {citation.sourceIndices.filter(index => sources[index]).map(index => (
+                  <a
+                    key={index}
+                    href={sources[index].uri}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    title={sources[index].title}
+                    className="text-brand-blue dark:text-brand-lightblue no-underline hover:underline"
+                  >
+                    [{index + 1}]
+                  </a>
+                ))}
+              </sup>
+            );
+          });
+        });
+
+        return <p key={paragraphIndex} className={paragraphClassName}>{content}</p>;
+      })}
+    </>
+  );
+};
+
+/**
+ * Renders the numbered list of web pages a grounded text was based on.
+ * Nothing is rendered when there are no sources.
+ * @param {object} props - Component props.
+ * @param {GroundingSource[]} props.sources - The sources, in citation-number order.
+ */
+export const SourceList: React.FC<{ sources?: GroundingSource[] }> = ({ sources = [] }) => {
+  const { t } = useTranslation();
+
+  if (sources.length === 0) return null;
+
+  return (
+    <div className="mt-4">
+      <h5 className="text-sm font-semibold text-gray-600 dark:text-gray-300 mb-1">{t('sourcesTitle')}</h5>
+      <ol className="list-decimal list-inside space-y-1 text-sm text-gray-600 dark:text-gray-400">
+        {sources.map(source => (
+          <li key={source.uri} className="truncate">
+            <a
+              href={source.uri}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-brand-blue dark:text-brand-lightblue hover:underline"
+            >
+              {source.title}
+            </a>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
@@ -0,0 +1,199 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import type { DiscoveryEntry } from '../types';
+import { getDiscoveries, deleteDiscovery } from '../utils/discoveryJournal';
+import { useFavorites, toggleFavorite } from '../utils/favorites';
+import { BookOpenIcon, SearchIcon, TrashIcon, MapPinIcon, LoaderIcon, HeartIcon, CalendarDaysIcon } from './Icons';
+import { useTranslation } from '../contexts/LanguageContext';
+import { SUPPORTED_LANGUAGES } from '../utils/translations';
+
+type SortOrder = 'newest' | 'oldest' | 'name';
+
+/**
+ * Props for the DiscoveryJournal component.
+ */
+interface DiscoveryJournalProps {
+  /** Reopens a saved discovery in the result view. */
+  onOpen: (entry: DiscoveryEntry) => void;
+  /** Opens the tour planner seeded with a favorite place. */
+  onPlanTour: (location: string) => void;
+}
+
+/**
+ * The "My Discoveries" journal: every landmark the user has identified, stored on the
+ * device in IndexedDB, with search by name or history, sorting, and deletion. The places saved
+ * to favorites from any tab are listed above it, each ready to seed a tour plan.
+ * @param {DiscoveryJournalProps} props - The component props.
+ */
+export const DiscoveryJournal: React.FC<DiscoveryJournalProps> = ({ onOpen, onPlanTour }) => {
+  const [entries, setEntries] = useState<DiscoveryEntry[] | null>(null);
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+  const [query, setQuery] = useState('');
+  const [sortOrder, setSortOrder] = useState<SortOrder>('newest');
+  const [error, setError] = useState<string | null>(null);
+  const favorites = useFavorites();
+  const { t, language } = useTranslation();
+
+  useEffect(() => {
+    getDiscoveries()
+      .then(setEntries)
+      .catch(err => {
+        console.error("Failed to load the discovery journal:", err);
+        setError(t('errorJournalLoad'));
+        setEntries([]);
+      });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  /**
+   * Creates an object URL for each stored photo and revokes them when the entries change or on unmount.
+   */
+  useEffect(() => {
+    if (!entries) return;
+    const urls: Record<string, string> = {};
+    entries.forEach(entry => {
+      urls[entry.id] = URL.createObjectURL(entry.imageBlob);
+    });
+    setThumbnails(urls);
+    return () => {
+      Object.values(urls).forEach(url => URL.revokeObjectURL(url));
+    };
+  }, [entries]);
+
+  const visibleEntries = useMemo(() => {
+    if (!entries) return [];
+    const normalizedQuery = query.trim().toLowerCase();
+    const matching = normalizedQuery
+      ? entries.filter(entry =>
+          entry.name.toLowerCase().includes(normalizedQuery) || entry.history.toLowerCase().includes(normalizedQuery))
+      : entries;
+    return [...matching].sort((a, b) => {
+      if (sortOrder === 'name') return a.name.localeCompare(b.name, language);
+      return sortOrder === 'oldest' ? a.savedAt - b.savedAt : b.savedAt - a.savedAt;
+    });
+  }, [entries, query, sortOrder, language]);
+
+  const handleDelete = async (entry: DiscoveryEntry) => {
+    if (!window.confirm(t('journalDeleteConfirm', { landmarkName: entry.name }))) return;
+    try {
+      await deleteDiscovery(entry.id);
+      setEntries(current => current && current.filter(e => e.id !== entry.id));
+    } catch (err) {
+      console.error("Failed to delete discovery:", err);
+      setError(t('errorJournalDelete'));
+    }
+  };
+
+  return (
+    <div className="p-4 w-full flex flex-col items-center justify-center">
+      <div className="text-center p-4 sm:p-8 bg-white/90 dark:bg-gray-800/90 backdrop-blur-md rounded-2xl shadow-2xl w-full max-w-4xl animate-fade-in flex flex-col justify-center mb-8">
+        <BookOpenIcon className="w-16 h-16 mx-auto text-brand-blue mb-4" />
+        <h1 className="text-3xl font-bold text-brand-dark dark:text-white mb-2">{t('journalTitle')}</h1>
+        <p className="text-gray-600 dark:text-gray-300 mb-6">{t('journalDescription')}</p>
+
+        <div className="flex flex-col sm:flex-row gap-4 w-full max-w-lg mx-auto">
+          <div className="flex-1 relative">
+            <SearchIcon className="w-5 h-5 absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+            <input
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder={t('journalSearchPlaceholder')}
+              className="w-full p-3 pl-10 border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white rounded-lg shadow-sm focus:ring-2 focus:ring-brand-blue focus:border-brand-blue transition-colors"
+            />
+          </div>
+          <select
+            value={sortOrder}
+            onChange={(e) => setSortOrder(e.target.value as SortOrder)}
+            aria-label={t('journalSortLabel')}
+            className="p-3 border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white rounded-lg shadow-sm focus:ring-2 focus:ring-brand-blue focus:border-brand-blue transition-colors"
+          >
+            <option value="newest">{t('journalSortNewest')}</option>
+            <option value="oldest">{t('journalSortOldest')}</option>
+            <option value="name">{t('journalSortName')}</option>
+          </select>
+        </div>
+        {error && <p className="text-red-600 bg-red-100 dark:bg-red-900/50 dark:text-red-300 p-3 rounded-lg mt-4">{error}</p>}
+      </div>
+
+      {favorites.size > 0 && (
+        <div className="w-full max-w-4xl mb-8 p-4 sm:p-6 bg-white dark:bg-gray-800 rounded-2xl shadow-md text-left animate-fade-in">
+          <h2 className="text-lg font-semibold text-brand-dark dark:text-white mb-4 flex items-center">
+            <HeartIcon className="w-5 h-5 mr-2 text-red-500 fill-current" />
+            {t('journalFavoritesTitle')}
+          </h2>
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+            {Array.from(favorites, placeName => (
+              <li key={placeName} className="py-3 flex items-center gap-3">
+                <p className="flex-grow min-w-0 font-medium text-gray-800 dark:text-gray-100 truncate">{placeName}</p>
+                <button
+                  onClick={() => onPlanTour(placeName)}
+                  className="flex-shrink-0 inline-flex items-center px-3 py-1.5 text-xs font-semibold rounded-full border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+                >
+                  <CalendarDaysIcon className="w-4 h-4 mr-1" />
+                  {t('relatedPlanTour')}
+                </button>
+                <button
+                  onClick={() => toggleFavorite(placeName)}
+                  className="flex-shrink-0 p-2 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+                  aria-label={t('removeFromFavoritesAriaLabel', { placeName })}
+                  title={t('removeFromFavoritesAriaLabel', { placeName })}
+                >
+                  <HeartIcon className="w-5 h-5 text-red-500 fill-current" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {entries === null ? (
+        <LoaderIcon className="w-10 h-10 text-brand-blue animate-spin" />
+      ) : visibleEntries.length > 0 ? (
+        <div className="w-full max-w-4xl grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6 text-left animate-fade-in">
+          {visibleEntries.map(entry => (
+            <div key={entry.id} className="bg-white dark:bg-gray-800 rounded-lg shadow-md overflow-hidden flex flex-col">
+              <button
+                onClick={() => onOpen(entry)}
+                className="text-left flex-grow"
+                aria-label={t('journalOpenAriaLabel', { landmarkName: entry.name })}
+              >
+                <img src={thumbnails[entry.id]} alt={t('altUserImage', { landmarkName: entry.name })} className="w-full h-40 object-cover" />
+                <div className="p-4">
+                  <h3 className="font-bold text-lg text-brand-dark dark:text-white">{entry.name}</h3>
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    {new Date(entry.savedAt).toLocaleDateString(language, { dateStyle: 'medium' })}
+                    {' · '}
+                    {SUPPORTED_LANGUAGES.find(l => l.code === entry.language)?.name || entry.language}
+                  </p>
+                  {entry.photoLocation && (
+                    <p className="mt-1 flex items-center text-xs text-gray-500 dark:text-gray-400">
+                      <MapPinIcon className="w-4 h-4 mr-1" />
+                      {entry.photoLocation.latitude.toFixed(4)}, {entry.photoLocation.longitude.toFixed(4)}
+                    </p>
+                  )}
+                  <p className="mt-2 text-sm text-gray-600 dark:text-gray-300 line-clamp-3">{entry.history}</p>
+                </div>
+              </button>
+              <div className="px-4 pb-4 flex justify-end">
+                <button
+                  onClick={() => handleDelete(entry)}
+                  className="p-2 rounded-full text-gray-400 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/30 transition-colors"
+                  aria-label={t('journalDeleteAriaLabel', { landmarkName: entry.name })}
+                  title={t('journalDeleteAriaLabel', { landmarkName: entry.name })}
+                >
+                  <TrashIcon className="w-5 h-5" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="text-center py-10 bg-white/90 dark:bg-gray-800/90 rounded-2xl px-6">
+          <p className="text-gray-600 dark:text-gray-400">
+            {entries.length === 0 ? t('journalEmpty') : t('journalNoMatches')}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
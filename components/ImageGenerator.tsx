@@ -1,5 +1,6 @@
-import React, { useState, useRef } from 'react';
-import { generateTourPlan } from '../services/geminiService';
+import React, { useState, useRef, useEffect } from 'react';
+import { generateTourPlan, isAbortError } from '../services/geminiService';
+import { saveTourPlan, getTourPlan } from '../utils/tourPlans';
 import type { TourPlan } from '../types';
 import { CalendarDaysIcon, LoaderIcon, SparklesIcon, DownloadIcon } from './Icons';
 import { useTranslation } from '../contexts/LanguageContext';
@@ -24,29 +25,49 @@ const MorningIcon = () => <svg xmlns="http://www.w3.org/2000/svg" fill="none" vi
 const FoodIcon = () => <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-6 h-6"><path strokeLinecap="round" strokeLinejoin="round" d="M21.75 6.75v10.5a2.25 2.25 0 01-2.25 2.25h-15a2.25 2.25 0 01-2.25-2.25V6.75m19.5 0A2.25 2.25 0 0019.5 4.5h-15a2.25 2.25 0 00-2.25 2.25m19.5 0v.243a2.25 2.25 0 01-1.07 1.916l-7.5 4.615a2.25 2.25 0 01-2.36 0L3.32 8.91a2.25 2.25 0 01-1.07-1.916V6.75" /></svg>; // A generic icon for food
 const EveningIcon = () => <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-6 h-6"><path strokeLinecap="round" strokeLinejoin="round" d="M21.752 15.002A9.718 9.718 0 0118 15.75c-5.385 0-9.75-4.365-9.75-9.75 0-1.33.266-2.597.748-3.752A9.753 9.753 0 003 11.25C3 16.635 7.365 21 12.75 21a9.753 9.753 0 009.002-5.998z" /></svg>;
 
+/**
+ * Props for the TourPlanner component.
+ */
+interface TourPlannerProps {
+    /** A location to plan for right away, e.g. a landmark suggested from a guide. */
+    initialLocation?: string;
+    /** A saved plan to show again without generating it, e.g. from a link. */
+    initialPlanId?: string;
+    /**
+     * Called with the location and saved id of each generated plan, and without them when the
+     * plan is closed. The id is missing if the plan could not be saved.
+     */
+    onPlanChange?: (location?: string, planId?: string) => void;
+}
+
 /**
  * A component that allows users to generate a one-day tour plan for a specified location
  * using the Gemini AI service. It handles input, loading state, displaying the generated
- * plan, and exporting it as a PDF.
+ * plan, and exporting it as a PDF. Generated plans are saved on the device, so a saved plan
+ * opens again as it was, without calling the model.
+ * @param {TourPlannerProps} props - The component props.
  */
-export const TourPlanner: React.FC = () => {
-    const [location, setLocation] = useState('');
+export const TourPlanner: React.FC<TourPlannerProps> = ({ initialLocation, initialPlanId, onPlanChange }) => {
+    const [location, setLocation] = useState(initialLocation || '');
     const [isLoading, setIsLoading] = useState(false);
     const [isDownloading, setIsDownloading] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [plan, setPlan] = useState<TourPlan | null>(null);
     const planRef = useRef<HTMLDivElement>(null);
+    // Cancels the plan being generated when another one starts or the planner closes
+    const generationRef = useRef<AbortController | null>(null);
     const { language, t } = useTranslation();
 
     /**
-     * Handles the form submission to generate the tour plan.
-     * Calls the Gemini service with the specified location and current language.
-     * @param {React.FormEvent} e - The form event.
+     * Generates the tour plan for a location in the current language, replacing any plan
+     * still being generated. A cancelled plan is neither shown, saved nor linked to.
+     * @param {string} planLocation - The city, area or landmark to plan around.
      */
-    const handleSubmit = async (e: React.FormEvent) => {
-        e.preventDefault();
-        if (!location.trim() || isLoading) return;
-
+    const generatePlan = async (planLocation: string) => {
+        generationRef.current?.abort();
+        const controller = new AbortController();
+        generationRef.current = controller;
+        const { signal } = controller;
         setIsLoading(true);
         setError(null);
         setPlan(null);
@@ -54,16 +75,49 @@ export const TourPlanner: React.FC = () => {
         const langName = SUPPORTED_LANGUAGES.find(l => l.code === language)?.name || 'English';
 
         try {
-            const tourPlan = await generateTourPlan(location, langName);
+            const tourPlan = await generateTourPlan(planLocation, langName, signal);
+            if (signal.aborted) return;
             setPlan(tourPlan);
+            onPlanChange?.(planLocation, saveTourPlan(tourPlan, language) ?? undefined);
         } catch (err) {
+            if (signal.aborted || isAbortError(err)) return;
             const message = err instanceof Error ? err.message : t('errorUnknown');
             setError(`${t('errorTourPlan')} ${message}`);
             console.error(err);
         } finally {
-            setIsLoading(false);
+            if (!signal.aborted) setIsLoading(false);
         }
     };
+
+    /**
+     * Handles the form submission to generate the tour plan.
+     * @param {React.FormEvent} e - The form event.
+     */
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!location.trim() || isLoading) return;
+        generatePlan(location);
+    };
+
+    /**
+     * Shows the linked saved plan, or plans the seeded location, as soon as the planner opens.
+     * The plan being generated is cancelled when the planner closes.
+     */
+    useEffect(() => {
+        if (initialPlanId) {
+            const saved = getTourPlan(initialPlanId);
+            if (saved) {
+                setPlan(saved.plan);
+                setLocation(saved.plan.location);
+            } else {
+                setError(t('errorTourPlanNotFound'));
+            }
+        } else if (initialLocation?.trim()) {
+            generatePlan(initialLocation);
+        }
+        return () => generationRef.current?.abort();
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, []);
     
     /**
      * Resets the form and plan state, returning to the initial input view.
@@ -72,6 +126,7 @@ export const TourPlanner: React.FC = () => {
         setLocation('');
         setPlan(null);
         setError(null);
+        onPlanChange?.();
     };
 
 
@@ -1,7 +1,44 @@
 
-import React, { useRef } from 'react';
-import { CameraIcon } from './Icons';
+import React, { useRef, useState, useCallback, useEffect } from 'react';
+import { CameraIcon, VideoCameraIcon, LinkIcon, LoaderIcon } from './Icons';
+import { CameraCapture, isCameraSupported } from './CameraCapture';
+import type { CameraErrorReason } from './CameraCapture';
 import { useTranslation } from '../contexts/LanguageContext';
+import { isHeicFile } from '../utils/imagePreprocessing';
+
+/**
+ * The largest photo accepted, in megabytes. Larger files are almost always videos
+ * or RAW files, which the model cannot read anyway.
+ */
+const MAX_IMAGE_SIZE_MB = 25;
+
+/**
+ * Checks that a file is an image the app can process and is not too large.
+ * HEIC photos are accepted even when the browser reports no MIME type for them.
+ * @param {File} file - The file to check.
+ * @returns {string | null} The translation key of the problem, or null if the file is valid.
+ */
+const getImageFileError = (file: File): string | null => {
+  if (!file.type.startsWith('image/') && !isHeicFile(file)) return 'errorInvalidImage';
+  if (file.size > MAX_IMAGE_SIZE_MB * 1024 * 1024) return 'errorImageTooLarge';
+  return null;
+};
+
+/**
+ * Downloads an image from a URL into a File.
+ * Many sites do not allow cross-origin downloads, in which case the fetch itself fails.
+ * @param {string} url - The http(s) address of the image.
+ * @returns {Promise<File>} The downloaded image, named after the last path segment of the URL.
+ */
+const fetchImageFromUrl = async (url: string): Promise<File> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Image download failed with status ${response.status}`);
+  }
+  const blob = await response.blob();
+  const name = decodeURIComponent(new URL(url).pathname.split('/').pop() || '') || 'image';
+  return new File([blob], name, { type: blob.type });
+};
 
 /**
  * Props for the ImageUploader component.
@@ -11,30 +48,133 @@ interface ImageUploaderProps {
    * @param {File} file - The selected image file object.
    */
   onImageSelect: (file: File) => void;
+  /**
+   * Optional callback for selecting several images at once. When provided,
+   * the file picker allows multiple selection.
+   * @param {File[]} files - The selected image files.
+   */
+  onImagesSelect?: (files: File[]) => void;
 }
 
 /**
  * A component that provides a styled button to trigger file selection 
- * for image uploads. It handles file validation and calls a callback function
- * with the selected image file.
+ * for image uploads, plus an optional live camera viewfinder. Photos can also be dropped
+ * onto it, pasted from the clipboard anywhere on the page, or imported from an image URL.
+ * It validates the type and size of every file, shows a localized error for rejected ones,
+ * and calls a callback function with the selected or captured image file.
+ * If the camera cannot be used, it falls back to the file picker with a message.
  * @param {ImageUploaderProps} props - The component props.
  */
-export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelect }) => {
+export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelect, onImagesSelect }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isCameraOpen, setIsCameraOpen] = useState(false);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [imageUrl, setImageUrl] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  // dragenter and dragleave also fire for child elements, so count them to know when the drag really leaves
+  const dragDepthRef = useRef(0);
   const { t } = useTranslation();
 
+  /**
+   * Validates the files and passes a single file to onImageSelect, or several files
+   * to onImagesSelect. Invalid files are skipped; if none are left, the reason is shown.
+   * @param {File[]} candidates - The files picked, dropped or pasted by the user.
+   */
+  const handleFiles = (candidates: File[]) => {
+    const errors = candidates.map(getImageFileError);
+    const files = candidates.filter((_, index) => !errors[index]);
+    const firstError = errors.find(Boolean);
+    if (files.length === 0) {
+      setUploadError(t(firstError || 'errorInvalidImage', { maxSize: MAX_IMAGE_SIZE_MB }));
+      return;
+    }
+    setUploadError(null);
+    if (files.length > 1 && onImagesSelect) {
+      onImagesSelect(files);
+    } else {
+      onImageSelect(files[0]);
+    }
+  };
+
   /**
    * Handles the change event from the hidden file input.
-   * Validates the file type and passes the file to the onImageSelect callback.
    * @param {React.ChangeEvent<HTMLInputElement>} event - The file input change event.
    */
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file && file.type.startsWith('image/')) {
-      onImageSelect(file);
-    } else {
-      // Basic validation feedback
-      alert(t('errorInvalidImage'));
+    const selectedFiles: File[] = event.target.files ? Array.from(event.target.files) : [];
+    // Allow picking the same files again later
+    event.target.value = '';
+    if (selectedFiles.length > 0) handleFiles(selectedFiles);
+  };
+
+  const handleDragEnter = (event: React.DragEvent) => {
+    if (!event.dataTransfer.types.includes('Files')) return;
+    event.preventDefault();
+    dragDepthRef.current++;
+    setIsDragging(true);
+  };
+
+  const handleDragOver = (event: React.DragEvent) => {
+    if (!event.dataTransfer.types.includes('Files')) return;
+    // Required for the element to accept the drop
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'copy';
+  };
+
+  const handleDragLeave = () => {
+    dragDepthRef.current = Math.max(0, dragDepthRef.current - 1);
+    if (dragDepthRef.current === 0) setIsDragging(false);
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    event.preventDefault();
+    dragDepthRef.current = 0;
+    setIsDragging(false);
+    const droppedFiles: File[] = Array.from(event.dataTransfer.files);
+    if (droppedFiles.length > 0) handleFiles(droppedFiles);
+  };
+
+  /**
+   * Accepts images pasted anywhere on the page (Ctrl+V / Cmd+V), e.g. screenshots.
+   * Pastes without image data, such as text pasted into the URL field, are left alone.
+   * The listener is re-registered on every render so it always sees the current callbacks.
+   */
+  useEffect(() => {
+    if (isCameraOpen) return;
+    const handlePaste = (event: ClipboardEvent) => {
+      const pastedFiles: File[] = event.clipboardData ? Array.from(event.clipboardData.files) : [];
+      if (pastedFiles.length === 0) return;
+      event.preventDefault();
+      handleFiles(pastedFiles);
+    };
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  });
+
+  /**
+   * Downloads the image at the entered URL and identifies it like an uploaded file.
+   * @param {React.FormEvent} event - The form submit event.
+   */
+  const handleUrlImport = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const url = imageUrl.trim();
+    if (!/^https?:\/\//i.test(url)) {
+      setUploadError(t('errorImageUrlInvalid'));
+      return;
+    }
+    setIsImporting(true);
+    setUploadError(null);
+    try {
+      const file = await fetchImageFromUrl(url);
+      setImageUrl('');
+      handleFiles([file]);
+    } catch (err) {
+      console.error("Image URL import failed:", err);
+      setUploadError(t('errorImageUrlDownload'));
+    } finally {
+      setIsImporting(false);
     }
   };
 
@@ -45,14 +185,66 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelect }) =
     fileInputRef.current?.click();
   };
 
+  const handleOpenCamera = () => {
+    setCameraError(null);
+    setIsCameraOpen(true);
+  };
+
+  /**
+   * Closes the viewfinder and explains why, leaving the file picker as the way forward.
+   * Memoized because the camera restarts its stream when this callback changes.
+   */
+  const handleCameraError = useCallback((reason: CameraErrorReason) => {
+    setIsCameraOpen(false);
+    setCameraError(reason === 'denied' ? t('errorCameraPermission') : t('errorCameraUnavailable'));
+  }, [t]);
+
+  const handleCameraClose = useCallback(() => {
+    setIsCameraOpen(false);
+  }, []);
+
+  /**
+   * Passes the captured frame to the same flow as an uploaded file.
+   * @param {File} file - The captured JPEG frame.
+   */
+  const handleCapture = (file: File) => {
+    setIsCameraOpen(false);
+    onImageSelect(file);
+  };
+
+  if (isCameraOpen) {
+    return (
+      <CameraCapture
+        onCapture={handleCapture}
+        onClose={handleCameraClose}
+        onError={handleCameraError}
+      />
+    );
+  }
+
   return (
-    <div>
+    <div
+      onDragEnter={handleDragEnter}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+      className={`relative rounded-2xl border-2 border-dashed p-4 transition-colors ${isDragging
+        ? 'border-brand-blue bg-brand-lightblue/50 dark:bg-brand-blue/20'
+        : 'border-gray-300 dark:border-gray-600'
+      }`}
+    >
+      {isDragging && (
+        <div className="absolute inset-0 z-10 flex items-center justify-center rounded-2xl bg-white/80 dark:bg-gray-800/80 pointer-events-none">
+          <p className="text-lg font-bold text-brand-blue dark:text-brand-lightblue">{t('dropZoneActive')}</p>
+        </div>
+      )}
       <input
         type="file"
         ref={fileInputRef}
         onChange={handleFileChange}
         className="hidden"
         accept="image/*"
+        multiple={!!onImagesSelect}
       />
       <button
         onClick={handleClick}
@@ -61,6 +253,44 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelect }) =
         <CameraIcon className="w-6 h-6 mr-3" />
         {t('uploadPhotoButton')}
       </button>
+      {isCameraSupported() && (
+        <button
+          onClick={handleOpenCamera}
+          className="mt-4 w-full flex items-center justify-center px-8 py-3 bg-white dark:bg-gray-700 text-brand-blue dark:text-white border border-brand-blue dark:border-gray-600 font-bold text-base rounded-full shadow-lg hover:bg-brand-lightblue dark:hover:bg-gray-600 transition-colors"
+        >
+          <VideoCameraIcon className="w-6 h-6 mr-3" />
+          {t('takePhotoButton')}
+        </button>
+      )}
+      <p className="mt-3 text-sm text-gray-500 dark:text-gray-400">{t('dropZoneHint')}</p>
+      <form onSubmit={handleUrlImport} className="mt-3 flex gap-2">
+        <div className="flex-1 relative">
+          <LinkIcon className="w-5 h-5 absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+          <input
+            type="url"
+            value={imageUrl}
+            onChange={(e) => setImageUrl(e.target.value)}
+            placeholder={t('imageUrlPlaceholder')}
+            aria-label={t('imageUrlPlaceholder')}
+            disabled={isImporting}
+            className="w-full p-2 pl-10 text-sm border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white rounded-full shadow-sm focus:ring-2 focus:ring-brand-blue focus:border-brand-blue transition-colors"
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={isImporting || !imageUrl.trim()}
+          className="flex items-center px-4 py-2 text-sm font-semibold bg-brand-blue text-white rounded-full hover:bg-brand-dark transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+        >
+          {isImporting && <LoaderIcon className="w-4 h-4 mr-2 animate-spin" />}
+          {t('imageUrlButton')}
+        </button>
+      </form>
+      {uploadError && (
+        <p role="alert" className="mt-4 text-sm text-red-600 bg-red-100 dark:bg-red-900/50 dark:text-red-300 p-3 rounded-lg">{uploadError}</p>
+      )}
+      {cameraError && (
+        <p className="mt-4 text-sm text-amber-800 bg-amber-100 dark:bg-amber-900/50 dark:text-amber-200 p-3 rounded-lg">{cameraError}</p>
+      )}
     </div>
   );
 };
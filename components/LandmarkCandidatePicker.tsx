@@ -0,0 +1,94 @@
+import React from 'react';
+import type { LandmarkCandidate, ScanMode } from '../types';
+import { CheckCircleIcon, QuestionMarkCircleIcon } from './Icons';
+import { useTranslation } from '../contexts/LanguageContext';
+
+/**
+ * Confidence below which the best candidate is treated as a guess that the user must confirm.
+ */
+export const LOW_CONFIDENCE_THRESHOLD = 0.5;
+
+/**
+ * Props for the LandmarkCandidatePicker component.
+ */
+interface LandmarkCandidatePickerProps {
+  candidates: LandmarkCandidate[];
+  imageUrl: string;
+  /** Called with the candidate the user picked; narration starts from here. */
+  onSelect: (candidate: LandmarkCandidate) => void;
+  /** Called when none of the candidates is right. */
+  onCancel: () => void;
+  /** What was scanned; anything other than a landmark uses neutral wording. */
+  mode?: ScanMode;
+}
+
+/**
+ * Lets the user choose between several landmark candidates, or confirm a single
+ * low-confidence guess, before the history and audio guide are generated.
+ * @param {LandmarkCandidatePickerProps} props - The component props.
+ */
+export const LandmarkCandidatePicker: React.FC<LandmarkCandidatePickerProps> = ({
+  candidates,
+  imageUrl,
+  onSelect,
+  onCancel,
+  mode = 'landmark'
+}) => {
+  const { t } = useTranslation();
+  const isLowConfidence = candidates[0].confidence < LOW_CONFIDENCE_THRESHOLD;
+  const keySuffix = mode === 'landmark' ? '' : 'Subject';
+
+  return (
+    <div className="p-4 sm:p-8 bg-white/90 dark:bg-gray-800/90 backdrop-blur-md rounded-2xl shadow-2xl w-full max-w-md animate-fade-in">
+      <img src={imageUrl} alt="" className="w-full h-40 object-cover rounded-lg mb-6" />
+      <h2 className="text-2xl font-bold text-brand-dark dark:text-white mb-2 text-center">
+        {isLowConfidence ? t('candidateLowConfidenceTitle') : t(`candidatePickerTitle${keySuffix}`)}
+      </h2>
+      {isLowConfidence ? (
+        <p className="flex items-start gap-2 text-amber-800 bg-amber-100 dark:bg-amber-900/50 dark:text-amber-200 p-3 rounded-lg mb-6">
+          <QuestionMarkCircleIcon className="w-6 h-6 flex-shrink-0" />
+          {t(`candidateLowConfidenceWarning${keySuffix}`)}
+        </p>
+      ) : (
+        <p className="text-gray-600 dark:text-gray-300 mb-6 text-center">{t(`candidatePickerSubtitle${keySuffix}`)}</p>
+      )}
+
+      <div className="space-y-3">
+        {candidates.map(candidate => {
+          const percent = Math.round(candidate.confidence * 100);
+          return (
+            <button
+              key={candidate.name}
+              onClick={() => onSelect(candidate)}
+              className="w-full text-left p-4 border border-gray-200 dark:border-gray-700 rounded-lg hover:border-brand-blue hover:bg-brand-lightblue/40 dark:hover:bg-gray-700/50 transition-colors group"
+            >
+              <div className="flex items-center justify-between gap-3">
+                <span className="font-bold text-brand-dark dark:text-white">{candidate.name}</span>
+                <CheckCircleIcon className="w-6 h-6 flex-shrink-0 text-gray-300 dark:text-gray-600 group-hover:text-brand-blue" />
+              </div>
+              <p className="text-sm text-gray-600 dark:text-gray-300 mt-1">{candidate.reason}</p>
+              <div className="mt-3 flex items-center gap-3">
+                <div className="flex-grow h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+                  <div
+                    className={`h-full rounded-full ${candidate.confidence < LOW_CONFIDENCE_THRESHOLD ? 'bg-amber-500' : 'bg-brand-blue'}`}
+                    style={{ width: `${percent}%` }}
+                  />
+                </div>
+                <span className="text-xs font-semibold text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                  {t('candidateConfidence', { percent })}
+                </span>
+              </div>
+            </button>
+          );
+        })}
+      </div>
+
+      <button
+        onClick={onCancel}
+        className="mt-6 w-full px-6 py-3 text-brand-blue dark:text-brand-lightblue font-semibold rounded-full hover:bg-brand-lightblue/50 dark:hover:bg-gray-700/50 transition-colors"
+      >
+        {t('candidateNoneButton')}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,50 @@
+import React from 'react';
+import type { LandmarkFacts } from '../types';
+import { InformationCircleIcon } from './Icons';
+import { useTranslation } from '../contexts/LanguageContext';
+
+/**
+ * The order in which facts are listed, paired with the translation key of their label.
+ */
+const FACT_ROWS: { field: keyof LandmarkFacts; labelKey: string }[] = [
+  { field: 'constructionDates', labelKey: 'factConstructionDates' },
+  { field: 'architect', labelKey: 'factArchitect' },
+  { field: 'architecturalStyle', labelKey: 'factArchitecturalStyle' },
+  { field: 'dimensions', labelKey: 'factDimensions' },
+  { field: 'unescoStatus', labelKey: 'factUnescoStatus' },
+  { field: 'visitingHours', labelKey: 'factVisitingHours' },
+  { field: 'ticketInfo', labelKey: 'factTicketInfo' },
+  { field: 'accessibility', labelKey: 'factAccessibility' },
+];
+
+/**
+ * A compact, scannable card with the structured facts about a landmark.
+ * Facts the model did not know are left out, and a disclaimer reminds the user
+ * that practical details such as hours and prices may be outdated.
+ * @param {object} props - Component props.
+ * @param {LandmarkFacts} props.facts - The fact sheet to display.
+ */
+export const LandmarkFactSheet: React.FC<{ facts: LandmarkFacts }> = ({ facts }) => {
+  const { t } = useTranslation();
+  const rows = FACT_ROWS.filter(({ field }) => facts[field]?.trim());
+
+  if (rows.length === 0) return null;
+
+  return (
+    <aside className="bg-gray-50 dark:bg-gray-900/50 border border-gray-200 dark:border-gray-700 rounded-xl p-4">
+      <h4 className="text-lg font-semibold text-brand-dark dark:text-white mb-3">{t('factSheetTitle')}</h4>
+      <dl className="divide-y divide-gray-200 dark:divide-gray-700">
+        {rows.map(({ field, labelKey }) => (
+          <div key={field} className="py-2">
+            <dt className="text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400">{t(labelKey)}</dt>
+            <dd className="text-sm text-gray-800 dark:text-gray-200">{facts[field]}</dd>
+          </div>
+        ))}
+      </dl>
+      <p className="mt-3 flex items-start gap-2 text-xs text-gray-500 dark:text-gray-400">
+        <InformationCircleIcon className="w-4 h-4 flex-shrink-0" />
+        {t('factSheetDisclaimer')}
+      </p>
+    </aside>
+  );
+};
@@ -0,0 +1,242 @@
+import React, { useState, useEffect, useRef } from 'react';
+import type { QuizQuestion } from '../types';
+import { generateLandmarkQuiz, isAbortError } from '../services/geminiService';
+import { AcademicCapIcon, CheckCircleIcon, XIcon, LoaderIcon, ArrowPathIcon } from './Icons';
+import { useTranslation } from '../contexts/LanguageContext';
+import { SUPPORTED_LANGUAGES } from '../utils/translations';
+import { getLandmarkKey } from '../utils/landmarkKey';
+
+// --- Best Score Storage ---
+const BEST_SCORES_KEY = 'scout-ai-quiz-best-scores';
+
+interface QuizScore {
+  correct: number;
+  total: number;
+}
+
+/**
+ * Reads the best quiz scores from local storage, keyed by normalized landmark name.
+ */
+const getBestScores = (): Record<string, QuizScore> => {
+  try {
+    const storedScores = window.localStorage.getItem(BEST_SCORES_KEY);
+    return storedScores ? JSON.parse(storedScores) : {};
+  } catch (error) {
+    console.error("Failed to read quiz scores from local storage", error);
+    return {};
+  }
+};
+
+/**
+ * Stores a score if it beats the best one for the landmark.
+ * @returns True if the score is a new best.
+ */
+const saveScoreIfBest = (landmarkKey: string, score: QuizScore): boolean => {
+  const scores = getBestScores();
+  const best = scores[landmarkKey];
+  if (best && best.correct / best.total >= score.correct / score.total) return false;
+  try {
+    window.localStorage.setItem(BEST_SCORES_KEY, JSON.stringify({ ...scores, [landmarkKey]: score }));
+  } catch (error) {
+    console.error("Failed to save quiz score to local storage", error);
+  }
+  return true;
+};
+
+type QuizPhase = 'intro' | 'loading' | 'playing' | 'finished';
+
+/**
+ * Props for the LandmarkQuiz component.
+ */
+interface LandmarkQuizProps {
+  landmarkName: string;
+  /** The narrated history the questions are based on. */
+  history: string;
+  disabled?: boolean;
+}
+
+/**
+ * "Quiz me": a multiple-choice quiz about the landmark, built from the history the user just heard.
+ * Each answer is explained right away, the final score is compared with the best score stored
+ * for the landmark, and a retry asks new questions.
+ * @param {LandmarkQuizProps} props - The component props.
+ */
+export const LandmarkQuiz: React.FC<LandmarkQuizProps> = ({ landmarkName, history, disabled = false }) => {
+  const [phase, setPhase] = useState<QuizPhase>('intro');
+  const [questions, setQuestions] = useState<QuizQuestion[]>([]);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [selectedOption, setSelectedOption] = useState<number | null>(null);
+  const [correctCount, setCorrectCount] = useState(0);
+  const [isNewBest, setIsNewBest] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Every question asked so far for this landmark, so a retry asks new ones
+  const askedQuestionsRef = useRef<string[]>([]);
+  const abortRef = useRef<AbortController | null>(null);
+  const { t, language } = useTranslation();
+
+  const landmarkKey = getLandmarkKey(landmarkName);
+  const [bestScore, setBestScore] = useState<QuizScore | undefined>(() => getBestScores()[landmarkKey]);
+
+  useEffect(() => {
+    return () => abortRef.current?.abort();
+  }, []);
+
+  const startQuiz = async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setPhase('loading');
+    setError(null);
+    const langName = SUPPORTED_LANGUAGES.find(l => l.code === language)?.name || 'English';
+    try {
+      const newQuestions = await generateLandmarkQuiz(landmarkName, history, langName, askedQuestionsRef.current, controller.signal);
+      askedQuestionsRef.current = [...askedQuestionsRef.current, ...newQuestions.map(question => question.question)];
+      setQuestions(newQuestions);
+      setCurrentIndex(0);
+      setSelectedOption(null);
+      setCorrectCount(0);
+      setIsNewBest(false);
+      setPhase('playing');
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error("Failed to generate the quiz:", err);
+      setError(t('errorQuiz'));
+      setPhase('intro');
+    }
+  };
+
+  const handleAnswer = (optionIndex: number) => {
+    if (selectedOption !== null) return;
+    setSelectedOption(optionIndex);
+    if (optionIndex === questions[currentIndex].correctIndex) {
+      setCorrectCount(count => count + 1);
+    }
+  };
+
+  const handleNext = () => {
+    if (currentIndex < questions.length - 1) {
+      setCurrentIndex(index => index + 1);
+      setSelectedOption(null);
+      return;
+    }
+    const score = { correct: correctCount, total: questions.length };
+    const isBest = saveScoreIfBest(landmarkKey, score);
+    if (isBest) setBestScore(score);
+    setIsNewBest(isBest);
+    setPhase('finished');
+  };
+
+  const renderIntro = () => (
+    <div className="text-center">
+      <button
+        onClick={startQuiz}
+        disabled={disabled || !history}
+        className="inline-flex items-center px-4 py-2 text-sm font-medium rounded-full shadow-sm text-white bg-emerald-600 hover:bg-emerald-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+      >
+        <AcademicCapIcon className="w-5 h-5 mr-2" />
+        {t('quizButton')}
+      </button>
+      {bestScore && (
+        <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">
+          {t('quizBestScore', { correct: bestScore.correct, total: bestScore.total })}
+        </p>
+      )}
+    </div>
+  );
+
+  const renderQuestion = () => {
+    const question = questions[currentIndex];
+    const isAnswered = selectedOption !== null;
+    return (
+      <div className="animate-fade-in">
+        <p className="text-sm font-semibold text-gray-500 dark:text-gray-400 mb-2">
+          {t('quizProgress', { current: currentIndex + 1, total: questions.length })}
+        </p>
+        <p className="text-lg font-semibold text-brand-dark dark:text-white mb-4">{question.question}</p>
+        <div className="space-y-2" role="group" aria-label={question.question}>
+          {question.options.map((option, index) => {
+            const isCorrect = index === question.correctIndex;
+            const isSelected = index === selectedOption;
+            const stateClass = !isAnswered
+              ? 'border-gray-200 dark:border-gray-600 hover:border-brand-blue hover:bg-brand-lightblue/40 dark:hover:bg-gray-700/50'
+              : isCorrect
+                ? 'border-green-500 bg-green-50 dark:bg-green-900/30'
+                : isSelected
+                  ? 'border-red-500 bg-red-50 dark:bg-red-900/30'
+                  : 'border-gray-200 dark:border-gray-700 opacity-60';
+            return (
+              <button
+                key={index}
+                onClick={() => handleAnswer(index)}
+                disabled={isAnswered}
+                className={`w-full flex items-center justify-between gap-2 text-left p-3 border rounded-lg text-gray-800 dark:text-gray-100 transition-colors ${stateClass}`}
+              >
+                {option}
+                {isAnswered && isCorrect && <CheckCircleIcon className="w-5 h-5 flex-shrink-0 text-green-600" />}
+                {isAnswered && isSelected && !isCorrect && <XIcon className="w-5 h-5 flex-shrink-0 text-red-600" />}
+              </button>
+            );
+          })}
+        </div>
+        {isAnswered && (
+          <div className="mt-4 animate-fade-in" aria-live="polite">
+            <p className={`font-semibold ${selectedOption === question.correctIndex ? 'text-green-700 dark:text-green-400' : 'text-red-700 dark:text-red-400'}`}>
+              {selectedOption === question.correctIndex ? t('quizCorrect') : t('quizIncorrect')}
+            </p>
+            <p className="mt-1 text-gray-700 dark:text-gray-300">{question.explanation}</p>
+            <div className="mt-4 text-right">
+              <button
+                onClick={handleNext}
+                className="px-6 py-2 bg-brand-blue text-white text-sm font-bold rounded-full hover:bg-brand-dark transition-colors"
+              >
+                {currentIndex < questions.length - 1 ? t('quizNextButton') : t('quizResultsButton')}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderResults = () => (
+    <div className="text-center animate-fade-in">
+      <p className="text-2xl font-bold text-brand-dark dark:text-white">
+        {t('quizScore', { correct: correctCount, total: questions.length })}
+      </p>
+      {isNewBest ? (
+        <p className="mt-1 font-semibold text-emerald-600 dark:text-emerald-400">{t('quizNewBest')}</p>
+      ) : bestScore && (
+        <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+          {t('quizBestScore', { correct: bestScore.correct, total: bestScore.total })}
+        </p>
+      )}
+      <button
+        onClick={startQuiz}
+        disabled={disabled}
+        className="mt-4 inline-flex items-center px-4 py-2 text-sm font-medium rounded-full shadow-sm text-white bg-emerald-600 hover:bg-emerald-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+      >
+        <ArrowPathIcon className="w-5 h-5 mr-2" />
+        {t('quizRetryButton')}
+      </button>
+    </div>
+  );
+
+  return (
+    <div className="mt-6 pt-6 border-t border-gray-200 dark:border-gray-700">
+      <h4 className="text-lg font-semibold text-brand-dark dark:text-white mb-4 flex items-center">
+        <AcademicCapIcon className="w-6 h-6 mr-2" />
+        {t('quizTitle')}
+      </h4>
+      {phase === 'intro' && renderIntro()}
+      {phase === 'loading' && (
+        <div className="flex items-center justify-center gap-2 text-gray-600 dark:text-gray-300">
+          <LoaderIcon className="w-5 h-5 animate-spin" />
+          {t('quizLoading')}
+        </div>
+      )}
+      {phase === 'playing' && renderQuestion()}
+      {phase === 'finished' && renderResults()}
+      {error && <p className="mt-4 text-red-600 bg-red-100 dark:bg-red-900/50 dark:text-red-300 p-3 rounded-lg">{error}</p>}
+    </div>
+  );
+};
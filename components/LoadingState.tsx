@@ -45,8 +45,9 @@ const StatusIcon: React.FC<{ status: StepStatus }> = ({ status }) => {
  * The active step is determined by matching a keyword in the current message.
  * @param {object} props - The component props.
  * @param {string} props.message - The current loading message string, which contains a keyword to identify the active step.
+ * @param {function} [props.onCancel] - Aborts the work in progress; the Cancel button is only shown when provided.
  */
-export const LoadingState: React.FC<{ message: string }> = ({ message }) => {
+export const LoadingState: React.FC<{ message: string; onCancel?: () => void }> = ({ message, onCancel }) => {
   const { t } = useTranslation();
 
   const STEPS = [
@@ -86,6 +87,15 @@ export const LoadingState: React.FC<{ message: string }> = ({ message }) => {
       </div>
       
       <p className="text-gray-600 dark:text-gray-400 h-6 min-h-[1.5rem]">{message}</p>
+
+      {onCancel && (
+        <button
+          onClick={onCancel}
+          className="mt-6 px-6 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 font-semibold rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+        >
+          {t('cancelButton')}
+        </button>
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,46 @@
+import React from 'react';
+import { useNarrationPreset, NARRATION_PRESETS } from '../contexts/NarrationPresetContext';
+import { useTranslation } from '../contexts/LanguageContext';
+import type { NarrationPreset } from '../types';
+
+const PRESET_LABEL_KEYS: Record<NarrationPreset, string> = {
+  summary: 'presetSummary',
+  standard: 'presetStandard',
+  inDepth: 'presetInDepth',
+  kids: 'presetKids',
+  expert: 'presetExpert',
+};
+
+/**
+ * A row of pill buttons for choosing the depth and audience of the landmark narration.
+ * The choice is stored per user by the NarrationPresetProvider.
+ * @param {object} props - Component props.
+ * @param {boolean} [props.disabled] - If true, the preset cannot be changed.
+ */
+export const NarrationPresetSelector: React.FC<{ disabled?: boolean }> = ({ disabled = false }) => {
+  const { preset, changePreset } = useNarrationPreset();
+  const { t } = useTranslation();
+
+  return (
+    <div role="radiogroup" aria-label={t('narrationPresetLabel')} className="flex flex-wrap items-center justify-center gap-2">
+      {NARRATION_PRESETS.map(option => {
+        const isActive = preset === option;
+        return (
+          <button
+            key={option}
+            role="radio"
+            aria-checked={isActive}
+            onClick={() => changePreset(option)}
+            disabled={disabled}
+            className={`px-3 py-1.5 text-sm font-semibold rounded-full transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed ${isActive
+              ? 'bg-brand-blue text-white shadow-md'
+              : 'bg-white dark:bg-gray-700 text-gray-600 dark:text-gray-300 border border-gray-200 dark:border-gray-600 hover:bg-brand-lightblue/50 dark:hover:bg-gray-600/50'
+            }`}
+          >
+            {t(PRESET_LABEL_KEYS[option])}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
@@ -1,9 +1,13 @@
 import React, { useState, useMemo, useEffect, useCallback } from 'react';
-import { findNearbyPlaces, generateImageForPlace, generateAudioForText } from '../services/geminiService';
+import { findNearbyPlaces, generateImageForPlace } from '../services/geminiService';
 import { useTranslation } from '../contexts/LanguageContext';
+import { useVoice } from '../contexts/VoiceContext';
 import { audioPlayer } from '../utils/audio';
+import { createPlaceAudioLoader, playPlaceAudio, stopAudioUnlessTouring } from '../utils/walkingTour';
+import { useFavorites, toggleFavorite } from '../utils/favorites';
 import { GlobeAltIcon, LoaderIcon, MapPinIcon, HeartIcon, SparklesIcon, ArrowPathIcon } from './Icons';
 import { PlaceCard, SkeletonCard } from './PlaceCard';
+import { PlayAllButton } from './WalkingTourPlayer';
 import type { NearbyPlace } from '../types';
 
 // --- Session Cache for Nearby Places ---
@@ -73,10 +77,17 @@ const getValidLocation = (): StoredLocation | null => {
 // --- End Location Caching Utilities ---
 
 const FILTER_KEYS = ['All', 'Favorites', 'Museum', 'Park', 'Restaurant', 'HistoricSite', 'Cafe', 'Shopping', 'Landmark'];
-const FAVORITES_KEY = 'scout-ai-favorites';
 
 
-export const NearbyPlaces: React.FC = () => {
+/**
+ * Props for the NearbyPlaces component.
+ */
+interface NearbyPlacesProps {
+    /** Coordinates to search around instead of the device location, e.g. where a photo was taken. */
+    initialCoordinates?: { lat: number; lon: number };
+}
+
+export const NearbyPlaces: React.FC<NearbyPlacesProps> = ({ initialCoordinates }) => {
     const [loadingState, setLoadingState] = useState<'idle' | 'gettingLocation' | 'findingPlaces' | 'generatingImages'>('idle');
     const [isLoadingMore, setIsLoadingMore] = useState(false);
     const [hasMore, setHasMore] = useState(true);
@@ -84,85 +95,31 @@ export const NearbyPlaces: React.FC = () => {
     const [error, setError] = useState<string | null>(null);
     const [places, setPlaces] = useState<NearbyPlace[] | null>(null);
     const [activeFilterKey, setActiveFilterKey] = useState('All');
-    const [favorites, setFavorites] = useState<Set<string>>(new Set());
-    const [playingPlace, setPlayingPlace] = useState<string | null>(null);
+    const favorites = useFavorites();
     const [generatingAudioFor, setGeneratingAudioFor] = useState<string | null>(null);
     const { language, t } = useTranslation();
+    const { voice } = useVoice();
 
-    useEffect(() => {
-        try {
-            const storedFavorites = window.localStorage.getItem(FAVORITES_KEY);
-            if (storedFavorites) {
-                setFavorites(new Set(JSON.parse(storedFavorites)));
-            }
-        } catch (error) {
-            console.error("Failed to load favorites from local storage", error);
-        }
-    }, []);
-
-    const handleToggleFavorite = (placeName: string) => {
-        const newFavorites = new Set(favorites);
-        if (newFavorites.has(placeName)) {
-            newFavorites.delete(placeName);
-        } else {
-            newFavorites.add(placeName);
-        }
-        setFavorites(newFavorites);
-        try {
-            window.localStorage.setItem(FAVORITES_KEY, JSON.stringify(Array.from(newFavorites)));
-        } catch (error) {
-            console.error("Failed to save favorites to local storage", error);
-        }
-    };
     
+    const loadPlaceAudio = createPlaceAudioLoader(voice, language, (placeName, changes) => {
+        setPlaces(currentPlaces => {
+            if (!currentPlaces) return null;
+            const updated = currentPlaces.map(p => p.name === placeName ? { ...p, ...changes } : p);
+            if (sessionCache) {
+                sessionCache.places = updated;
+            }
+            return updated;
+        });
+    });
+
     const handlePlayPause = async (placeToPlay: NearbyPlace) => {
         if (generatingAudioFor) return;
 
-        if (playingPlace === placeToPlay.name) {
-            audioPlayer.stop();
-            setPlayingPlace(null);
-            return;
-        }
-
-        audioPlayer.stop();
-
-        if (placeToPlay.audioData) {
-            await audioPlayer.play(placeToPlay.audioData, () => setPlayingPlace(null));
-            setPlayingPlace(placeToPlay.name);
-            return;
-        }
-
-        // Generate audio on demand
         try {
-            setGeneratingAudioFor(placeToPlay.name);
-            setPlayingPlace(null);
-
-            const audioData = await generateAudioForText(placeToPlay.description, language);
-
-            const updatePlacesAndCache = (updatedPlaces: NearbyPlace[]) => {
-                setPlaces(updatedPlaces);
-                if (sessionCache) {
-                    sessionCache.places = updatedPlaces;
-                }
-            };
-
-            setPlaces(currentPlaces => {
-                if (!currentPlaces) return null;
-                const updated = currentPlaces.map(p => 
-                    p.name === placeToPlay.name ? { ...p, audioData } : p
-                );
-                updatePlacesAndCache(updated);
-                return updated;
-            });
-
-            await audioPlayer.play(audioData, () => setPlayingPlace(null));
-            setPlayingPlace(placeToPlay.name);
-
+            await playPlaceAudio(placeToPlay, voice, loadPlaceAudio, setGeneratingAudioFor);
         } catch (e) {
             console.error(`Audio generation failed for ${placeToPlay.name}:`, e);
             setError(`Audio generation failed for ${placeToPlay.name}.`);
-        } finally {
-            setGeneratingAudioFor(null);
         }
     };
 
@@ -215,7 +172,11 @@ export const NearbyPlaces: React.FC = () => {
     }, [language, t]);
     
     useEffect(() => {
-        if (sessionCache && sessionCache.language === language) {
+        const isCacheForOrigin = !initialCoordinates || (
+            sessionCache?.coordinates.lat === initialCoordinates.lat &&
+            sessionCache?.coordinates.lon === initialCoordinates.lon
+        );
+        if (sessionCache && sessionCache.language === language && isCacheForOrigin) {
             setPlaces(sessionCache.places);
             setHasMore(sessionCache.hasMore);
             setCoordinates(sessionCache.coordinates);
@@ -224,7 +185,7 @@ export const NearbyPlaces: React.FC = () => {
             return;
         }
 
-        const validLocation = getValidLocation();
+        const validLocation = initialCoordinates || getValidLocation();
         if (validLocation) {
             setPlaces(null);
             setError(null);
@@ -233,12 +194,12 @@ export const NearbyPlaces: React.FC = () => {
             setCoordinates({ lat: validLocation.lat, lon: validLocation.lon });
             fetchAndDisplayPlaces(validLocation.lat, validLocation.lon);
         }
-    }, [language, t, fetchAndDisplayPlaces]);
+    }, [language, t, fetchAndDisplayPlaces, initialCoordinates]);
     
     useEffect(() => {
-        // Stop audio when component unmounts or language changes
+        // Stop audio when component unmounts or language changes, unless a walking tour is playing
         return () => {
-            audioPlayer.stop();
+            stopAudioUnlessTouring();
         }
     }, [language]);
 
@@ -252,7 +213,7 @@ export const NearbyPlaces: React.FC = () => {
         setPlaces(null);
         setHasMore(true);
         setActiveFilterKey('All');
-        setPlayingPlace(null);
+        audioPlayer.stop();
         setLoadingState('gettingLocation');
 
         if (!navigator.geolocation) {
@@ -389,6 +350,11 @@ export const NearbyPlaces: React.FC = () => {
                         })}
                     </div>
 
+                    {filteredPlaces.length > 0 && (
+                        <div className="flex justify-center mb-6">
+                            <PlayAllButton places={filteredPlaces} title={t('nearbyPlacesTitle')} loadAudio={loadPlaceAudio} />
+                        </div>
+                    )}
 
                      {filteredPlaces.length > 0 ? (
                         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -397,8 +363,7 @@ export const NearbyPlaces: React.FC = () => {
                                     key={place.name} 
                                     place={place} 
                                     isFavorite={favorites.has(place.name)}
-                                    onToggleFavorite={handleToggleFavorite}
-                                    isPlaying={playingPlace === place.name}
+                                    onToggleFavorite={toggleFavorite}
                                     isGeneratingAudio={generatingAudioFor === place.name}
                                     onPlayPause={handlePlayPause}
                                 />
@@ -0,0 +1,158 @@
+import React, { useState, useEffect } from 'react';
+import type { TextRegion } from '../types';
+import { generateAudioForText } from '../services/geminiService';
+import { audioPlayer, useAudioPlayerState } from '../utils/audio';
+import { stopAudioUnlessTouring } from '../utils/walkingTour';
+import { ArrowLeftIcon, PlayIcon, PauseIcon, LoaderIcon, LanguageIcon } from './Icons';
+import { useTranslation } from '../contexts/LanguageContext';
+import { useVoice } from '../contexts/VoiceContext';
+
+/**
+ * Props for the PhotoTranslation component.
+ */
+interface PhotoTranslationProps {
+  imageUrl: string;
+  regions: TextRegion[];
+  /** True while the regions are being translated into a newly selected language. */
+  isTranslating: boolean;
+  /** Shown when translating into a newly selected language failed. */
+  error?: string | null;
+  onReset: () => void;
+}
+
+/**
+ * Shows the user's photo with each block of text replaced by its translation, drawn over
+ * the region where it was found. Tapping a translation, or its entry in the list below,
+ * plays the pronunciation of the original text.
+ * @param {PhotoTranslationProps} props - The component props.
+ */
+export const PhotoTranslation: React.FC<PhotoTranslationProps> = ({ imageUrl, regions, isTranslating, error: translationError, onReset }) => {
+  const [showOverlay, setShowOverlay] = useState(true);
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const [loadingAudioIndex, setLoadingAudioIndex] = useState<number | null>(null);
+  // Pronunciations by voice and original text, so a block is only synthesized once per voice
+  const [audioByText, setAudioByText] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+  const { t } = useTranslation();
+  const { voice } = useVoice();
+  const playerState = useAudioPlayerState();
+
+  const getTrackId = (index: number) => `pronunciation:${regions[index].original}`;
+  const playingIndex = playerState.status === 'playing'
+    ? regions.findIndex((_, index) => getTrackId(index) === playerState.trackId)
+    : -1;
+
+  useEffect(() => {
+    setSelectedIndex(null);
+  }, [regions]);
+
+  useEffect(() => {
+    return () => stopAudioUnlessTouring();
+  }, []);
+
+  const handlePronounce = async (index: number) => {
+    setSelectedIndex(index);
+    setError(null);
+    audioPlayer.stop();
+    if (playingIndex === index) return;
+
+    const { original } = regions[index];
+    try {
+      const audioKey = `${voice}::${original}`;
+      let audioData = audioByText[audioKey];
+      if (!audioData) {
+        setLoadingAudioIndex(index);
+        // The sign is not in the UI language, so the model detects its language itself
+        audioData = await generateAudioForText(original, voice);
+        setAudioByText(current => ({ ...current, [audioKey]: audioData }));
+      }
+      await audioPlayer.play(audioData, undefined, getTrackId(index));
+    } catch (err) {
+      console.error("Pronunciation failed:", err);
+      setError(t('errorPronunciation'));
+    } finally {
+      setLoadingAudioIndex(null);
+    }
+  };
+
+  const renderAudioIcon = (index: number, className: string) => {
+    if (loadingAudioIndex === index) return <LoaderIcon className={`${className} animate-spin`} />;
+    return playingIndex === index ? <PauseIcon className={className} /> : <PlayIcon className={className} />;
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 w-full max-w-3xl rounded-2xl shadow-2xl overflow-hidden flex flex-col animate-fade-in">
+      <div className="relative w-full bg-black">
+        <button
+          onClick={onReset}
+          className="absolute top-4 left-4 z-20 bg-black/50 text-white p-2 rounded-full hover:bg-black/75 transition-colors"
+        >
+          <ArrowLeftIcon className="w-6 h-6" />
+        </button>
+        <img src={imageUrl} alt={t('altTranslatedPhoto')} className="w-full h-auto block" />
+        {showOverlay && regions.map((region, index) => (
+          <button
+            key={index}
+            onClick={() => handlePronounce(index)}
+            className={`absolute z-10 flex items-center justify-center p-0.5 overflow-hidden rounded text-[10px] sm:text-xs leading-tight text-center text-gray-900 bg-white/90 border transition-colors ${selectedIndex === index ? 'border-brand-blue ring-2 ring-brand-blue' : 'border-white/60 hover:border-brand-blue'}`}
+            style={{
+              top: `${region.box.top * 100}%`,
+              left: `${region.box.left * 100}%`,
+              width: `${region.box.width * 100}%`,
+              minHeight: `${region.box.height * 100}%`,
+            }}
+            aria-label={t('pronounceAriaLabel', { text: region.original })}
+            title={region.original}
+          >
+            {region.translation}
+          </button>
+        ))}
+        {isTranslating && (
+          <div className="absolute inset-0 z-30 bg-white/70 dark:bg-gray-800/70 backdrop-blur-sm flex flex-col items-center justify-center">
+            <div className="w-12 h-12 border-4 border-brand-blue border-t-transparent rounded-full animate-spin"></div>
+            <p className="mt-4 text-brand-dark dark:text-white font-semibold">{t('translating')}</p>
+          </div>
+        )}
+      </div>
+
+      <div className="w-full p-4 sm:p-6 flex flex-col">
+        <div className="flex items-center justify-between gap-4 mb-4">
+          <h3 className="text-2xl font-bold text-brand-dark dark:text-white flex items-center">
+            <LanguageIcon className="w-7 h-7 mr-2 text-brand-blue" />
+            {t('translationTitle')}
+          </h3>
+          <button
+            onClick={() => setShowOverlay(current => !current)}
+            className="px-4 py-2 text-sm font-semibold rounded-full border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+          >
+            {showOverlay ? t('translationShowOriginal') : t('translationShowTranslation')}
+          </button>
+        </div>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">{t('translationHint')}</p>
+        {(translationError || error) && <p className="mb-4 text-red-600 bg-red-100 dark:bg-red-900/50 dark:text-red-300 p-3 rounded-lg">{translationError || error}</p>}
+
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {regions.map((region, index) => (
+            <li
+              key={index}
+              className={`flex items-start gap-3 py-3 px-2 rounded-lg ${selectedIndex === index ? 'bg-brand-lightblue/40 dark:bg-brand-blue/20' : ''}`}
+            >
+              <button
+                onClick={() => handlePronounce(index)}
+                disabled={loadingAudioIndex !== null && loadingAudioIndex !== index}
+                className="flex-shrink-0 p-2 bg-brand-blue text-white rounded-full hover:bg-brand-dark transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+                aria-label={t('pronounceAriaLabel', { text: region.original })}
+              >
+                {renderAudioIcon(index, 'w-4 h-4')}
+              </button>
+              <div className="min-w-0">
+                <p className="text-sm text-gray-500 dark:text-gray-400 whitespace-pre-line">{region.original}</p>
+                <p className="text-gray-800 dark:text-gray-100 whitespace-pre-line">{region.translation}</p>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
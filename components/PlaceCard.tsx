@@ -2,6 +2,10 @@ import React from 'react';
 import { useTranslation } from '../contexts/LanguageContext';
 import { LoaderIcon, MuseumIcon, ParkIcon, CafeIcon, HistoricSiteIcon, ShoppingBagIcon, SparklesIcon, HeartIcon, PlayIcon, PauseIcon } from './Icons';
 import type { NearbyPlace } from '../types';
+import { useAudioPlayerState } from '../utils/audio';
+import { getPlaceTrackId } from '../utils/walkingTour';
+import { AudioScrubber } from './AudioScrubber';
+import { AudioDownloadButton } from './AudioDownloadButton';
 
 /**
  * Maps a place category string to a corresponding icon component.
@@ -23,17 +27,20 @@ export const CategoryIcon: React.FC<{ category: string, className?: string }> =
 /**
  * A card component displaying information about a nearby place,
  * including its image, category, description, and controls for
- * toggling favorite status and playing/pausing audio.
+ * toggling favorite status and playing/pausing audio. The play button and the scrubber
+ * follow the shared audio player's state for this place.
  */
 export const PlaceCard: React.FC<{ 
     place: NearbyPlace;
     isFavorite: boolean;
     onToggleFavorite: (name: string) => void;
-    isPlaying: boolean;
     isGeneratingAudio: boolean;
     onPlayPause: (place: NearbyPlace) => void;
-}> = ({ place, isFavorite, onToggleFavorite, isPlaying, isGeneratingAudio, onPlayPause }) => {
+}> = ({ place, isFavorite, onToggleFavorite, isGeneratingAudio, onPlayPause }) => {
     const { t } = useTranslation();
+    const playerState = useAudioPlayerState();
+    const trackId = getPlaceTrackId(place.name);
+    const isPlaying = playerState.trackId === trackId && playerState.status === 'playing';
 
     const capitalizedCategory = place.category ? place.category.charAt(0).toUpperCase() + place.category.slice(1) : '';
 
@@ -78,18 +85,24 @@ export const PlaceCard: React.FC<{
                     >
                         {t('viewOnMap')}
                     </a>
-                    <button
-                        onClick={() => onPlayPause(place)}
-                        className="p-2 bg-brand-lightblue text-brand-dark rounded-full hover:bg-brand-blue hover:text-white transition-colors disabled:opacity-50 disabled:cursor-wait"
-                        aria-label={isPlaying ? t('pauseNearbyAudioAriaLabel', { placeName: place.name }) : t('playNearbyAudioAriaLabel', { placeName: place.name })}
-                        disabled={isGeneratingAudio}
-                    >
-                        {isPlaying ? (
-                            <PauseIcon className="w-5 h-5" />
-                        ) : (
-                            <PlayIcon className="w-5 h-5" />
-                        )}
-                    </button>
+                    <div className="flex items-center gap-2">
+                        {place.audioData && <AudioDownloadButton audioData={place.audioData} title={place.name} compact />}
+                        <button
+                            onClick={() => onPlayPause(place)}
+                            className="p-2 bg-brand-lightblue text-brand-dark rounded-full hover:bg-brand-blue hover:text-white transition-colors disabled:opacity-50 disabled:cursor-wait"
+                            aria-label={isPlaying ? t('pauseNearbyAudioAriaLabel', { placeName: place.name }) : t('playNearbyAudioAriaLabel', { placeName: place.name })}
+                            disabled={isGeneratingAudio}
+                        >
+                            {isPlaying ? (
+                                <PauseIcon className="w-5 h-5" />
+                            ) : (
+                                <PlayIcon className="w-5 h-5" />
+                            )}
+                        </button>
+                    </div>
+                </div>
+                <div className="mt-2">
+                    <AudioScrubber trackId={trackId} compact />
                 </div>
             </div>
         </div>
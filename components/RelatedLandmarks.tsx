@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import type { RelatedLandmark, PhotoLocation } from '../types';
+import { suggestRelatedLandmarks } from '../services/geminiService';
+import { MapPinIcon, SparklesIcon, HeartIcon, BookOpenIcon, CalendarDaysIcon, LoaderIcon } from './Icons';
+import { useTranslation } from '../contexts/LanguageContext';
+import { SUPPORTED_LANGUAGES } from '../utils/translations';
+import { useFavorites, toggleFavorite } from '../utils/favorites';
+
+// --- Session Cache for Suggestions ---
+// Caches suggestions per (landmark, language), so reopening a guide does not ask again.
+const suggestionCache = new Map<string, RelatedLandmark[]>();
+
+/**
+ * Props for the RelatedLandmarks component.
+ */
+interface RelatedLandmarksProps {
+  landmarkName: string;
+  /** Where the photo was taken, used to find sites close by. */
+  photoLocation?: PhotoLocation;
+  disabled?: boolean;
+  /** Opens the suggestion as a full audio guide. */
+  onOpenGuide: (landmark: RelatedLandmark) => void;
+  /** Opens the tour planner seeded with the suggestion's location. */
+  onPlanTour: (location: string) => void;
+}
+
+/**
+ * "Nearby & related": suggests a few sites to visit next, either close to the landmark or
+ * linked to it by theme. Each one can be opened as a guide, saved to favorites, which the
+ * journal lists, or used as the starting point of a tour plan.
+ * @param {RelatedLandmarksProps} props - The component props.
+ */
+export const RelatedLandmarks: React.FC<RelatedLandmarksProps> = ({ landmarkName, photoLocation, disabled = false, onOpenGuide, onPlanTour }) => {
+  const { t, language } = useTranslation();
+  const cacheKey = `${landmarkName}::${language}`;
+  const [suggestions, setSuggestions] = useState<RelatedLandmark[] | null>(() => suggestionCache.get(cacheKey) || null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const favorites = useFavorites();
+
+  const handleSuggest = async () => {
+    setIsLoading(true);
+    setError(null);
+    const langName = SUPPORTED_LANGUAGES.find(l => l.code === language)?.name || 'English';
+    try {
+      const related = await suggestRelatedLandmarks(landmarkName, langName, photoLocation);
+      suggestionCache.set(cacheKey, related);
+      setSuggestions(related);
+    } catch (err) {
+      console.error("Failed to suggest related landmarks:", err);
+      setError(t('errorRelatedLandmarks'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="mt-6 pt-6 border-t border-gray-200 dark:border-gray-700">
+      <h4 className="text-lg font-semibold text-brand-dark dark:text-white mb-1">{t('relatedTitle')}</h4>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">{t('relatedDescription')}</p>
+
+      {!suggestions && (
+        <button
+          onClick={handleSuggest}
+          disabled={disabled || isLoading}
+          className="inline-flex items-center px-4 py-2 text-sm font-medium rounded-full shadow-sm text-white bg-brand-blue hover:bg-brand-dark disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+        >
+          {isLoading ? <LoaderIcon className="w-5 h-5 mr-2 animate-spin" /> : <SparklesIcon className="w-5 h-5 mr-2" />}
+          {isLoading ? t('relatedLoading') : t('relatedButton')}
+        </button>
+      )}
+
+      {error && <p className="mt-4 text-red-600 bg-red-100 dark:bg-red-900/50 dark:text-red-300 p-3 rounded-lg">{error}</p>}
+
+      {suggestions && suggestions.length === 0 && (
+        <p className="text-gray-600 dark:text-gray-400">{t('relatedEmpty')}</p>
+      )}
+
+      {suggestions && suggestions.length > 0 && (
+        <ul className="space-y-3 animate-fade-in">
+          {suggestions.map(suggestion => {
+            const isFavorite = favorites.has(suggestion.name);
+            return (
+              <li key={suggestion.name} className="p-4 rounded-lg border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-700/30">
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="font-semibold text-brand-dark dark:text-white">{suggestion.name}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 flex items-center gap-1">
+                      {suggestion.relation === 'nearby' ? <MapPinIcon className="w-4 h-4" /> : <SparklesIcon className="w-4 h-4" />}
+                      {t(suggestion.relation === 'nearby' ? 'relatedNearbyLabel' : 'relatedThematicLabel')} · {suggestion.location}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => toggleFavorite(suggestion.name)}
+                    className="flex-shrink-0 p-2 rounded-full hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors text-gray-500 dark:text-gray-400"
+                    aria-label={t(isFavorite ? 'removeFromFavoritesAriaLabel' : 'addToFavoritesAriaLabel', { placeName: suggestion.name })}
+                    aria-pressed={isFavorite}
+                  >
+                    <HeartIcon className={`w-5 h-5 ${isFavorite ? 'text-red-500 fill-current' : 'fill-none'}`} />
+                  </button>
+                </div>
+                <p className="mt-2 text-sm text-gray-700 dark:text-gray-300">{suggestion.reason}</p>
+                <div className="mt-3 flex flex-wrap gap-2">
+                  <button
+                    onClick={() => onOpenGuide(suggestion)}
+                    disabled={disabled}
+                    className="inline-flex items-center px-3 py-1.5 text-xs font-semibold rounded-full text-white bg-brand-blue hover:bg-brand-dark disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+                  >
+                    <BookOpenIcon className="w-4 h-4 mr-1" />
+                    {t('relatedOpenGuide')}
+                  </button>
+                  <button
+                    onClick={() => onPlanTour(`${suggestion.name}, ${suggestion.location}`)}
+                    disabled={disabled}
+                    className="inline-flex items-center px-3 py-1.5 text-xs font-semibold rounded-full border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    <CalendarDaysIcon className="w-4 h-4 mr-1" />
+                    {t('relatedPlanTour')}
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
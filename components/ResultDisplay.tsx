@@ -1,10 +1,23 @@
-import React, { useState, useEffect } from 'react';
-import type { LandmarkData } from '../types';
-import { audioPlayer } from '../utils/audio';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import type { LandmarkData, PhotoLocation, GroundedText, RelatedLandmark } from '../types';
+import { audioPlayer, useAudioPlayerState, getAudioDuration } from '../utils/audio';
+import { getTranscriptSegments } from '../utils/transcript';
+import { stopAudioUnlessTouring } from '../utils/walkingTour';
 import { fetchFunFact } from '../services/geminiService';
 import { Chatbot } from './Chatbot';
+import { NarrationPresetSelector } from './NarrationPresetSelector';
+import { VoiceSelector } from './VoiceSelector';
+import { LandmarkFactSheet } from './LandmarkFactSheet';
+import { CitedText, SourceList } from './CitedText';
+import { SCAN_MODE_OPTIONS } from './ScanModeSelector';
+import { ThenAndNow } from './ThenAndNow';
+import { LandmarkQuiz } from './LandmarkQuiz';
+import { RelatedLandmarks } from './RelatedLandmarks';
+import { ShareCard } from './ShareCard';
+import { AudioScrubber } from './AudioScrubber';
+import { AudioDownloadButton } from './AudioDownloadButton';
 // Fix: Replaced InstagramIcon with a more appropriate ClipboardIcon for the copy-to-clipboard functionality.
-import { PlayIcon, PauseIcon, ArrowLeftIcon, GlobeAltIcon, LightBulbIcon, LoaderIcon, CheckIcon, WhatsAppIcon, XIcon, ClipboardIcon, ChatBubbleLeftRightIcon } from './Icons';
+import { PlayIcon, PauseIcon, ArrowLeftIcon, GlobeAltIcon, LightBulbIcon, LoaderIcon, CheckIcon, WhatsAppIcon, XIcon, ClipboardIcon, ChatBubbleLeftRightIcon, MapPinIcon, ArrowPathIcon, SparklesIcon } from './Icons';
 import { useTranslation } from '../contexts/LanguageContext';
 import { SUPPORTED_LANGUAGES } from '../utils/translations';
 
@@ -15,39 +28,99 @@ interface ResultDisplayProps {
   data: LandmarkData;
   onReset: () => void;
   isTranslating: boolean;
+  /** True while the history is still arriving; the text grows as it streams in. */
+  isHistoryStreaming?: boolean;
+  /** True when the audio guide could not be synthesized; the text stays readable. */
+  isAudioUnavailable?: boolean;
+  /** Set when the history stopped streaming before it was complete; narrates the guide again. */
+  onRetryNarration?: () => void;
+  /** Opens the Nearby tab around the location where the photo was taken. */
+  onExploreNearby?: (location: PhotoLocation) => void;
+  /** Opens a suggested related landmark as a full guide. */
+  onOpenRelated?: (landmark: RelatedLandmark) => void;
+  /** Opens the tour planner seeded with a location. */
+  onPlanTour?: (location: string) => void;
 }
 
 /**
  * A component that displays the detailed results after a landmark has been identified.
  * It features the landmark's image, history (audio guide), controls for audio playback,
- * fun fact fetching, sharing options, and an integrated chatbot.
+ * a structured fact sheet, a "then and now" reconstruction, fun fact fetching, a trivia quiz,
+ * nearby and related landmark suggestions, sharing options (including an image share card),
+ * and an integrated chatbot.
+ * Artworks, dishes, plants and signs reuse the same layout with a mode badge, and each mode has
+ * its own guide title, share text and fun fact: a detail to look for in an artwork, how locals
+ * eat a dish, or whether a plant is safe. Signs show the original text instead of a fun fact or
+ * quiz, and only landmarks get the reconstruction and related landmarks.
  * @param {ResultDisplayProps} props - The component props.
  */
 export const ResultDisplay: React.FC<ResultDisplayProps> = ({ 
     data,
     onReset,
-    isTranslating 
+    isTranslating,
+    isHistoryStreaming = false,
+    isAudioUnavailable = false,
+    onRetryNarration,
+    onExploreNearby,
+    onOpenRelated,
+    onPlanTour
 }) => {
-  const [isPlaying, setIsPlaying] = useState(false);
-  const [funFact, setFunFact] = useState<string | null>(null);
+  const [funFact, setFunFact] = useState<GroundedText | null>(null);
   const [isFetchingFunFact, setIsFetchingFunFact] = useState(false);
   const [isCopied, setIsCopied] = useState(false);
   const { language, t } = useTranslation();
+  const playerState = useAudioPlayerState();
+
+  const trackId = `guide:${data.name}`;
+  const isPlaying = playerState.trackId === trackId && playerState.status === 'playing';
+  const isAudioReady = !!data.audioData;
+  const mode = data.mode || 'landmark';
+  const { Icon: ModeIcon, funFactButtonKey, shareTextKey } = SCAN_MODE_OPTIONS[mode];
 
   const handlePlayPause = async () => {
-    if (audioPlayer.isPlaying) {
-      audioPlayer.stop();
-      setIsPlaying(false);
-    } else {
-      try {
-        setIsPlaying(true);
-        await audioPlayer.play(data.audioData, () => {
-          setIsPlaying(false);
-        });
-      } catch (error) {
-        console.error("Failed to play audio:", error);
-        setIsPlaying(false);
-      }
+    if (audioPlayer.toggle(trackId) || !data.audioData) return;
+    try {
+      await audioPlayer.play(data.audioData, undefined, trackId);
+    } catch (error) {
+      console.error("Failed to play audio:", error);
+    }
+  };
+
+  // The sentences of the history with their timing in the audio guide, once both are complete
+  const transcriptSegments = useMemo(() => {
+    if (isHistoryStreaming || !data.audioData || !data.audioParagraphStarts) return [];
+    return getTranscriptSegments(data.history, data.audioParagraphStarts, getAudioDuration(data.audioData), language);
+  }, [isHistoryStreaming, data.history, data.audioData, data.audioParagraphStarts, language]);
+  const isTrackLoaded = playerState.trackId === trackId && playerState.status !== 'idle';
+  const activeSegment = isTrackLoaded
+    ? transcriptSegments.findIndex(segment => playerState.currentTime >= segment.startTime && playerState.currentTime < segment.endTime)
+    : -1;
+  const transcriptRef = useRef<HTMLDivElement>(null);
+
+  /**
+   * Keeps the sentence being read in view while the audio guide plays.
+   */
+  useEffect(() => {
+    if (activeSegment === -1 || !isPlaying) return;
+    transcriptRef.current?.querySelector(`[data-segment="${activeSegment}"]`)?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [activeSegment]);
+
+  /**
+   * Plays the audio guide from the sentence the user tapped.
+   */
+  const handleSegmentClick = async (index: number) => {
+    const { startTime } = transcriptSegments[index];
+    if (isTrackLoaded) {
+      audioPlayer.seek(startTime);
+      if (!isPlaying) audioPlayer.resume();
+      return;
+    }
+    if (!data.audioData) return;
+    try {
+      await audioPlayer.play(data.audioData, undefined, trackId, startTime);
+    } catch (error) {
+      console.error("Failed to play audio:", error);
     }
   };
   
@@ -57,11 +130,11 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({
     setFunFact(null); 
     const langName = SUPPORTED_LANGUAGES.find(l => l.code === language)?.name || 'English';
     try {
-      const fact = await fetchFunFact(data.name, langName);
+      const fact = await fetchFunFact(data.name, langName, mode);
       setFunFact(fact);
     } catch (error) {
       console.error("Failed to fetch fun fact:", error);
-      setFunFact(t('errorFunFact'));
+      setFunFact({ text: t(mode === 'landmark' ? 'errorFunFact' : 'errorFunFactMode'), sources: [], citations: [] });
     } finally {
       setIsFetchingFunFact(false);
     }
@@ -73,7 +146,7 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({
    */
 
   const handleCopyToClipboard = async () => {
-    const shareText = t('shareText', { landmarkName: data.name, history: data.history });
+    const shareText = t(shareTextKey, { landmarkName: data.name, history: data.history });
     try {
       await navigator.clipboard.writeText(shareText);
       setIsCopied(true);
@@ -84,25 +157,28 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({
     }
   };
 
-  const shareTextContent = t('shareText', { landmarkName: data.name, history: data.history });
+  const shareTextContent = t(shareTextKey, { landmarkName: data.name, history: data.history });
   const encodedShareText = encodeURIComponent(shareTextContent);
 
+  const capturedAtLabel = data.capturedAt
+    ? new Date(data.capturedAt).toLocaleString(language, { dateStyle: 'medium', timeStyle: 'short' })
+    : null;
+
   const whatsappShareUrl = `https://wa.me/?text=${encodedShareText}`;
   const xShareUrl = `https://twitter.com/intent/tweet?text=${encodedShareText}`;
   
   /**
-   * Stops audio playback when the component unmounts.
+   * Stops audio playback when the component unmounts, unless a walking tour is playing.
    */
   useEffect(() => {
     return () => {
-      audioPlayer.stop();
+      stopAudioUnlessTouring();
     };
   }, []);
 
   useEffect(() => {
-    if (isTranslating && audioPlayer.isPlaying) {
-        audioPlayer.stop();
-        setIsPlaying(false);
+    if (isTranslating) {
+        stopAudioUnlessTouring();
     }
   }, [isTranslating]);
   
@@ -120,10 +196,22 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({
           className="absolute top-4 left-4 z-10 bg-black/50 text-white p-2 rounded-full hover:bg-black/75 transition-colors">
           <ArrowLeftIcon className="w-6 h-6" />
         </button>
-        <img src={data.userImageUrl} alt={t('altUserImage', { landmarkName: data.name })} className="w-full h-full object-cover" />
+        <img src={data.userImageUrl} alt={t(data.isImageGenerated ? 'altGeneratedImage' : 'altUserImage', { landmarkName: data.name })} className="w-full h-full object-cover" />
         <div className="absolute bottom-0 left-0 w-full h-full bg-gradient-to-t from-black/80 to-transparent p-6 flex items-end">
            <h2 className="text-3xl md:text-4xl font-bold text-white shadow-lg">{data.name}</h2>
         </div>
+        {mode !== 'landmark' && (
+          <span className="absolute top-4 right-4 z-10 inline-flex items-center gap-1 px-3 py-1 bg-black/50 text-white text-sm font-semibold rounded-full">
+            <ModeIcon className="w-4 h-4" />
+            {t(SCAN_MODE_OPTIONS[mode].labelKey)}
+          </span>
+        )}
+        {data.isImageGenerated && (
+          <span className="absolute bottom-4 right-4 z-10 inline-flex items-center gap-1 px-3 py-1 bg-black/60 text-white text-xs font-semibold rounded-full">
+            <SparklesIcon className="w-4 h-4" />
+            {t('generatedImageLabel')}
+          </span>
+        )}
       </div>
 
       {/* Content Container */}
@@ -135,22 +223,107 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({
                     <p className="mt-4 text-brand-dark dark:text-white font-semibold">{t('translating')}</p>
                 </div>
             )}
-            <div className="flex items-center mb-6">
-                <h3 className="text-2xl font-bold text-brand-dark dark:text-white">{t('audioGuideTitle')}</h3>
+            <div className="flex items-center mb-4">
+                <h3 className="text-2xl font-bold text-brand-dark dark:text-white">{t(SCAN_MODE_OPTIONS[mode].guideTitleKey)}</h3>
                 <button
                     onClick={handlePlayPause}
-                    disabled={isTranslating}
+                    disabled={isTranslating || !isAudioReady}
                     className="ml-4 p-3 bg-brand-blue text-white rounded-full hover:bg-brand-dark transition-colors shadow-md disabled:bg-gray-400 disabled:cursor-not-allowed"
                     aria-label={isPlaying ? t('pauseAriaLabel') : t('playAriaLabel')}
                 >
-                    {isPlaying ? <PauseIcon className="w-6 h-6" /> : <PlayIcon className="w-6 h-6" />}
+                    {isPlaying ? (
+                        <PauseIcon className="w-6 h-6" />
+                    ) : !isAudioReady && !isAudioUnavailable && !onRetryNarration ? (
+                        <LoaderIcon className="w-6 h-6 animate-spin" />
+                    ) : (
+                        <PlayIcon className="w-6 h-6" />
+                    )}
                 </button>
+                {data.audioData && (
+                    <div className="ml-3">
+                        <AudioDownloadButton audioData={data.audioData} title={data.name} />
+                    </div>
+                )}
+                {!isAudioReady && !onRetryNarration && (
+                    <span className="ml-3 text-sm text-gray-500 dark:text-gray-400" aria-live="polite">
+                        {isAudioUnavailable ? t('audioGuideUnavailable') : t('audioGuidePreparing')}
+                    </span>
+                )}
+            </div>
+            <div className="mb-4 max-w-md">
+                <AudioScrubber trackId={trackId} />
+            </div>
+            <div className="mb-6 flex flex-col sm:flex-row sm:items-center gap-2">
+                <span className="text-sm font-semibold text-gray-600 dark:text-gray-300">{t('narrationPresetLabel')}</span>
+                <NarrationPresetSelector disabled={isTranslating} />
             </div>
-            <div className="prose max-w-none text-gray-700 dark:text-gray-300 leading-relaxed">
-              {data.history.split('\n').map((paragraph, index) => (
-                <p key={index}>{paragraph}</p>
-              ))}
+            <div className="mb-6 flex flex-col sm:flex-row sm:items-center gap-2">
+                <span className="text-sm font-semibold text-gray-600 dark:text-gray-300">{t('voiceLabel')}</span>
+                <VoiceSelector disabled={isTranslating} />
             </div>
+            {(data.photoLocation || capturedAtLabel) && (
+              <div className="mb-6 flex flex-wrap items-center gap-x-4 gap-y-2 text-sm text-gray-600 dark:text-gray-400">
+                <MapPinIcon className="w-5 h-5 text-brand-blue dark:text-brand-lightblue" />
+                {data.photoLocation && (
+                  <a
+                    href={`https://www.google.com/maps?q=${data.photoLocation.latitude},${data.photoLocation.longitude}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="hover:underline"
+                  >
+                    {t('photoTakenAt', { coordinates: `${data.photoLocation.latitude.toFixed(5)}, ${data.photoLocation.longitude.toFixed(5)}` })}
+                  </a>
+                )}
+                {capturedAtLabel && <span>{t('photoTakenOn', { date: capturedAtLabel })}</span>}
+                {data.photoLocation && onExploreNearby && (
+                  <button
+                    onClick={() => onExploreNearby(data.photoLocation!)}
+                    className="font-semibold text-brand-blue dark:text-brand-lightblue hover:underline"
+                  >
+                    {t('exploreNearbyButton')}
+                  </button>
+                )}
+              </div>
+            )}
+            {data.transcript && (
+              <div className="mb-6 p-4 bg-gray-50 dark:bg-gray-700/50 border-l-4 border-gray-300 dark:border-gray-500 rounded-r-lg">
+                <h4 className="text-sm font-semibold text-gray-600 dark:text-gray-300 mb-1">{t('originalTextTitle')}</h4>
+                <p className="text-gray-800 dark:text-gray-100 whitespace-pre-line">{data.transcript}</p>
+              </div>
+            )}
+            <div className={data.facts ? 'grid grid-cols-1 lg:grid-cols-3 gap-6 items-start' : ''}>
+              <div className="lg:col-span-2">
+                <div ref={transcriptRef} className="prose max-w-none text-gray-700 dark:text-gray-300 leading-relaxed">
+                  <CitedText
+                    text={data.history}
+                    sources={data.sources}
+                    citations={data.citations}
+                    segments={transcriptSegments}
+                    activeSegment={activeSegment}
+                    onSegmentClick={isTranslating ? undefined : handleSegmentClick}
+                  />
+                  {isHistoryStreaming && <span className="inline-block w-2 h-5 align-text-bottom bg-brand-blue animate-pulse" aria-hidden="true" />}
+                </div>
+                {onRetryNarration && (
+                  <div role="alert" className="mt-4 flex flex-wrap items-center gap-3 p-3 rounded-lg bg-red-100 dark:bg-red-900/50">
+                    <p className="flex-grow text-sm text-red-600 dark:text-red-300">{t('errorHistoryInterrupted')}</p>
+                    <button
+                      onClick={onRetryNarration}
+                      className="flex items-center px-4 py-2 bg-brand-blue text-white text-sm font-bold rounded-full hover:bg-brand-dark transition-colors"
+                    >
+                      <ArrowPathIcon className="w-4 h-4 mr-2" />
+                      {t('retryButton')}
+                    </button>
+                  </div>
+                )}
+                <SourceList sources={data.sources} />
+              </div>
+              {data.facts && <LandmarkFactSheet facts={data.facts} />}
+            </div>
+
+            {mode === 'landmark' && !data.isImageGenerated && (
+              <ThenAndNow key={data.userImageUrl} landmarkName={data.name} imageUrl={data.userImageUrl} disabled={isTranslating} />
+            )}
 
             <div className="mt-6 pt-6 border-t border-gray-200 dark:border-gray-700">
               <h4 className="text-lg font-semibold text-brand-dark dark:text-white mb-4 text-center">{t('shareTitle')}</h4>
@@ -185,8 +358,15 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({
                       {isCopied ? <CheckIcon className="w-6 h-6" /> : <ClipboardIcon className="w-6 h-6" />}
                   </button>
               </div>
+              <ShareCard
+                landmarkName={data.name}
+                history={data.history}
+                imageUrl={data.userImageUrl}
+                disabled={isTranslating || isHistoryStreaming}
+              />
             </div>
             
+            {funFactButtonKey && (
             <div className="mt-6 text-center">
                 <button
                     onClick={handleFunFact}
@@ -198,22 +378,49 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({
                     ) : (
                         <LightBulbIcon className="w-5 h-5 mr-2" />
                     )}
-                    {isFetchingFunFact ? t('funFactLoadingButton') : t('funFactButton')}
+                    {isFetchingFunFact ? t('funFactLoadingButton') : t(funFactButtonKey)}
                 </button>
             </div>
+            )}
 
             {funFact && (
                 <div className="mt-4 p-4 bg-brand-lightblue/50 dark:bg-brand-blue/20 border-l-4 border-brand-blue rounded-r-lg animate-fade-in">
-                    <p className="text-brand-dark dark:text-sky-200 italic">{funFact}</p>
+                    <CitedText
+                      text={funFact.text}
+                      sources={funFact.sources}
+                      citations={funFact.citations}
+                      paragraphClassName="text-brand-dark dark:text-sky-200 italic"
+                    />
+                    <SourceList sources={funFact.sources} />
                 </div>
             )}
 
+            {mode !== 'sign' && (
+              <LandmarkQuiz
+                key={`${data.name}::${language}`}
+                landmarkName={data.name}
+                history={data.history}
+                disabled={isTranslating || isHistoryStreaming}
+              />
+            )}
+
+            {mode === 'landmark' && onOpenRelated && onPlanTour && (
+              <RelatedLandmarks
+                key={`${data.name}::${language}`}
+                landmarkName={data.name}
+                photoLocation={data.photoLocation}
+                disabled={isTranslating}
+                onOpenGuide={onOpenRelated}
+                onPlanTour={onPlanTour}
+              />
+            )}
+
             <div className="mt-6 pt-6 border-t border-gray-200 dark:border-gray-700">
                 <h4 className="text-lg font-semibold text-brand-dark dark:text-white mb-4 flex items-center">
                     <ChatBubbleLeftRightIcon className="w-6 h-6 mr-2"/>
                     {t('chatbotTitle')}
                 </h4>
-                <Chatbot landmarkName={data.name} />
+                <Chatbot landmarkName={data.name} mode={mode} />
             </div>
 
             
@@ -0,0 +1,69 @@
+import React from 'react';
+import type { CaptureMode } from '../types';
+import { MuseumIcon, PaintBrushIcon, CakeIcon, ParkIcon, LanguageIcon, GlobeAltIcon } from './Icons';
+import { useTranslation } from '../contexts/LanguageContext';
+
+/**
+ * The translation keys and icon used to present each scan mode and the translate mode.
+ * The result view uses the fun fact button and share text of the guide's mode; modes without
+ * a fun fact button offer none.
+ */
+export const SCAN_MODE_OPTIONS: Record<CaptureMode, {
+  labelKey: string;
+  hintKey: string;
+  guideTitleKey: string;
+  funFactButtonKey?: string;
+  shareTextKey: string;
+  Icon: React.FC<React.SVGProps<SVGSVGElement>>;
+}> = {
+  landmark: { labelKey: 'scanModeLandmark', hintKey: 'albumUploadHint', guideTitleKey: 'audioGuideTitle', funFactButtonKey: 'funFactButton', shareTextKey: 'shareText', Icon: MuseumIcon },
+  artwork: { labelKey: 'scanModeArtwork', hintKey: 'scanModeHintArtwork', guideTitleKey: 'guideTitleArtwork', funFactButtonKey: 'funFactButtonArtwork', shareTextKey: 'shareTextArtwork', Icon: PaintBrushIcon },
+  food: { labelKey: 'scanModeFood', hintKey: 'scanModeHintFood', guideTitleKey: 'guideTitleFood', funFactButtonKey: 'funFactButtonFood', shareTextKey: 'shareTextFood', Icon: CakeIcon },
+  plant: { labelKey: 'scanModePlant', hintKey: 'scanModeHintPlant', guideTitleKey: 'guideTitlePlant', funFactButtonKey: 'funFactButtonPlant', shareTextKey: 'shareTextPlant', Icon: ParkIcon },
+  sign: { labelKey: 'scanModeSign', hintKey: 'scanModeHintSign', guideTitleKey: 'guideTitleSign', shareTextKey: 'shareTextSign', Icon: LanguageIcon },
+  translate: { labelKey: 'scanModeTranslate', hintKey: 'scanModeHintTranslate', guideTitleKey: 'translationTitle', shareTextKey: 'shareTextSign', Icon: GlobeAltIcon },
+};
+
+const SCAN_MODES: CaptureMode[] = ['landmark', 'artwork', 'food', 'plant', 'sign', 'translate'];
+
+/**
+ * Props for the ScanModeSelector component.
+ */
+interface ScanModeSelectorProps {
+  mode: CaptureMode;
+  onChange: (mode: CaptureMode) => void;
+}
+
+/**
+ * Lets the user choose what they are pointing the camera at: a landmark, an artwork,
+ * a dish, a plant or a sign, or translating the text of a photo in place. Each scan mode uses
+ * its own identification and explanation prompts.
+ * @param {ScanModeSelectorProps} props - The component props.
+ */
+export const ScanModeSelector: React.FC<ScanModeSelectorProps> = ({ mode, onChange }) => {
+  const { t } = useTranslation();
+
+  return (
+    <div role="radiogroup" aria-label={t('scanModeLabel')} className="grid grid-cols-3 sm:grid-cols-6 gap-2">
+      {SCAN_MODES.map(option => {
+        const { labelKey, Icon } = SCAN_MODE_OPTIONS[option];
+        const isActive = mode === option;
+        return (
+          <button
+            key={option}
+            role="radio"
+            aria-checked={isActive}
+            onClick={() => onChange(option)}
+            className={`flex flex-col items-center justify-center gap-1 p-2 rounded-xl text-xs font-semibold transition-colors duration-200 ${isActive
+              ? 'bg-brand-blue text-white shadow-md'
+              : 'bg-white dark:bg-gray-700 text-gray-600 dark:text-gray-300 border border-gray-200 dark:border-gray-600 hover:bg-brand-lightblue/50 dark:hover:bg-gray-600/50'
+            }`}
+          >
+            <Icon className="w-6 h-6" />
+            {t(labelKey)}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
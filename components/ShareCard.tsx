@@ -0,0 +1,177 @@
+import React, { useState, useEffect } from 'react';
+import { renderShareCard, SHARE_CARD_SIZES } from '../utils/shareCard';
+import type { ShareCardFormat } from '../utils/shareCard';
+import { PhotoIcon, ShareIcon, DownloadIcon, LoaderIcon } from './Icons';
+import { useTranslation } from '../contexts/LanguageContext';
+
+const SHARE_CARD_FORMATS: { format: ShareCardFormat; labelKey: string }[] = [
+  { format: 'square', labelKey: 'shareCardSquare' },
+  { format: 'story', labelKey: 'shareCardStory' },
+];
+
+/**
+ * Returns true if the browser can hand this file to the native share sheet.
+ */
+const canShareFile = (file: File): boolean => {
+  try {
+    return typeof navigator.share === 'function' && !!navigator.canShare?.({ files: [file] });
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Props for the ShareCard component.
+ */
+interface ShareCardProps {
+  landmarkName: string;
+  history: string;
+  imageUrl: string;
+  disabled?: boolean;
+}
+
+/**
+ * Renders the discovery as an image card (photo, name, opening of the history and branding)
+ * in a square or story format. The card is shared through the native share sheet where the
+ * device supports sharing files, and downloaded everywhere else.
+ * @param {ShareCardProps} props - The component props.
+ */
+export const ShareCard: React.FC<ShareCardProps> = ({ landmarkName, history, imageUrl, disabled = false }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [format, setFormat] = useState<ShareCardFormat>('square');
+  const [card, setCard] = useState<{ file: File; previewUrl: string } | null>(null);
+  const [isRendering, setIsRendering] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { t } = useTranslation();
+
+  // Re-render the card whenever its content or format changes while it is open
+  useEffect(() => {
+    if (!isOpen) return;
+    let isCancelled = false;
+    setIsRendering(true);
+    setError(null);
+    renderShareCard({ imageUrl, landmarkName, history, tagline: t('shareCardTagline') }, format)
+      .then(file => {
+        if (isCancelled) return;
+        setCard({ file, previewUrl: URL.createObjectURL(file) });
+      })
+      .catch(err => {
+        if (isCancelled) return;
+        console.error("Failed to render the share card:", err);
+        setError(t('errorShareCard'));
+      })
+      .finally(() => {
+        if (!isCancelled) setIsRendering(false);
+      });
+    return () => {
+      isCancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen, format, imageUrl, landmarkName, history]);
+
+  // Release the previous preview when a new card replaces it
+  useEffect(() => {
+    return () => {
+      if (card) URL.revokeObjectURL(card.previewUrl);
+    };
+  }, [card]);
+
+  const handleDownload = () => {
+    if (!card) return;
+    const link = document.createElement('a');
+    link.href = card.previewUrl;
+    link.download = card.file.name;
+    link.click();
+  };
+
+  const handleShare = async () => {
+    if (!card) return;
+    if (!canShareFile(card.file)) {
+      handleDownload();
+      return;
+    }
+    try {
+      await navigator.share({ files: [card.file], title: landmarkName, text: t('shareCardText', { landmarkName }) });
+    } catch (err) {
+      // The user closing the share sheet is not an error
+      if (err instanceof DOMException && err.name === 'AbortError') return;
+      console.error("Native share failed, downloading instead:", err);
+      handleDownload();
+    }
+  };
+
+  if (!isOpen) {
+    return (
+      <div className="mt-4 text-center">
+        <button
+          onClick={() => setIsOpen(true)}
+          disabled={disabled}
+          className="inline-flex items-center px-4 py-2 text-sm font-medium rounded-full shadow-sm text-white bg-brand-blue hover:bg-brand-dark disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+        >
+          <PhotoIcon className="w-5 h-5 mr-2" />
+          {t('shareCardButton')}
+        </button>
+      </div>
+    );
+  }
+
+  const { width, height } = SHARE_CARD_SIZES[format];
+  const isNativeShareAvailable = !!card && canShareFile(card.file);
+
+  return (
+    <div className="mt-4 flex flex-col items-center animate-fade-in">
+      <div role="radiogroup" aria-label={t('shareCardFormatLabel')} className="flex gap-2 mb-4">
+        {SHARE_CARD_FORMATS.map(option => (
+          <button
+            key={option.format}
+            role="radio"
+            aria-checked={format === option.format}
+            onClick={() => setFormat(option.format)}
+            disabled={isRendering}
+            className={`px-4 py-2 text-sm font-semibold rounded-full transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed ${format === option.format
+              ? 'bg-brand-blue text-white shadow-md'
+              : 'bg-white dark:bg-gray-700 text-gray-600 dark:text-gray-300 border border-gray-200 dark:border-gray-600 hover:bg-brand-lightblue/50 dark:hover:bg-gray-600/50'
+            }`}
+          >
+            {t(option.labelKey)}
+          </button>
+        ))}
+      </div>
+
+      <div
+        className="relative w-full max-w-[280px] rounded-lg overflow-hidden shadow-lg bg-gray-100 dark:bg-gray-700"
+        style={{ aspectRatio: `${width} / ${height}` }}
+      >
+        {card && <img src={card.previewUrl} alt={t('altShareCard', { landmarkName })} className="w-full h-full object-cover" />}
+        {isRendering && (
+          <div className="absolute inset-0 flex items-center justify-center bg-white/60 dark:bg-gray-800/60">
+            <LoaderIcon className="w-8 h-8 text-brand-blue animate-spin" />
+          </div>
+        )}
+      </div>
+
+      {error && <p className="mt-4 text-red-600 bg-red-100 dark:bg-red-900/50 dark:text-red-300 p-3 rounded-lg">{error}</p>}
+
+      <div className="mt-4 flex flex-wrap justify-center gap-2">
+        {isNativeShareAvailable && (
+          <button
+            onClick={handleShare}
+            disabled={isRendering}
+            className="inline-flex items-center px-4 py-2 text-sm font-medium rounded-full shadow-sm text-white bg-brand-blue hover:bg-brand-dark disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+          >
+            <ShareIcon className="w-5 h-5 mr-2" />
+            {t('shareCardShare')}
+          </button>
+        )}
+        <button
+          onClick={handleDownload}
+          disabled={!card || isRendering}
+          className="inline-flex items-center px-4 py-2 text-sm font-medium rounded-full border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          <DownloadIcon className="w-5 h-5 mr-2" />
+          {t('shareCardDownload')}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import type { ReconstructionEra } from '../types';
+import { generateHistoricalReconstruction } from '../services/geminiService';
+import { SparklesIcon, LoaderIcon } from './Icons';
+import { useTranslation } from '../contexts/LanguageContext';
+
+const RECONSTRUCTION_ERAS: { era: ReconstructionEra; labelKey: string }[] = [
+  { era: 'construction', labelKey: 'eraConstruction' },
+  { era: 'centuryAgo', labelKey: 'eraCenturyAgo' },
+  { era: 'fiftyYearsAgo', labelKey: 'eraFiftyYearsAgo' },
+];
+
+/**
+ * Props for the ThenAndNow component.
+ */
+interface ThenAndNowProps {
+  landmarkName: string;
+  /** Object URL of the user's photo, used as the input of the reconstruction. */
+  imageUrl: string;
+  disabled?: boolean;
+}
+
+/**
+ * "See it in the past": reconstructs the landmark in the user's own photo as it looked in a
+ * chosen era, and compares the two with a slider. The reconstruction is always labelled as
+ * AI-generated, since it is an interpretation rather than a historical record.
+ * @param {ThenAndNowProps} props - The component props.
+ */
+export const ThenAndNow: React.FC<ThenAndNowProps> = ({ landmarkName, imageUrl, disabled = false }) => {
+  const [era, setEra] = useState<ReconstructionEra>('construction');
+  // The reconstructions of this photo by era, so switching eras does not generate the same image
+  // again. They live with the component, which is remounted for every new photo.
+  const [reconstructions, setReconstructions] = useState<Partial<Record<ReconstructionEra, string>>>({});
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [sliderPosition, setSliderPosition] = useState(50);
+  const { t } = useTranslation();
+
+  const reconstructionUrl = reconstructions[era] ?? null;
+  const eraLabel = t(RECONSTRUCTION_ERAS.find(option => option.era === era)!.labelKey);
+
+  const handleGenerate = async () => {
+    if (reconstructionUrl) return;
+    const generatingEra = era;
+    setIsGenerating(true);
+    setError(null);
+    try {
+      const blob = await (await fetch(imageUrl)).blob();
+      const photo = new File([blob], 'photo', { type: blob.type });
+      const url = await generateHistoricalReconstruction(photo, landmarkName, generatingEra);
+      setReconstructions(current => ({ ...current, [generatingEra]: url }));
+      setSliderPosition(50);
+    } catch (err) {
+      console.error("Reconstruction failed:", err);
+      setError(t('errorReconstruction'));
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleEraChange = (newEra: ReconstructionEra) => {
+    setEra(newEra);
+    setError(null);
+  };
+
+  return (
+    <div className="mt-6 pt-6 border-t border-gray-200 dark:border-gray-700">
+      <h4 className="text-lg font-semibold text-brand-dark dark:text-white mb-1">{t('thenAndNowTitle')}</h4>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">{t('thenAndNowDescription')}</p>
+
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <div role="radiogroup" aria-label={t('thenAndNowEraLabel')} className="flex flex-wrap gap-2">
+          {RECONSTRUCTION_ERAS.map(option => (
+            <button
+              key={option.era}
+              role="radio"
+              aria-checked={era === option.era}
+              onClick={() => handleEraChange(option.era)}
+              disabled={isGenerating}
+              className={`px-4 py-2 text-sm font-semibold rounded-full transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed ${era === option.era
+                ? 'bg-brand-blue text-white shadow-md'
+                : 'bg-white dark:bg-gray-700 text-gray-600 dark:text-gray-300 border border-gray-200 dark:border-gray-600 hover:bg-brand-lightblue/50 dark:hover:bg-gray-600/50'
+              }`}
+            >
+              {t(option.labelKey)}
+            </button>
+          ))}
+        </div>
+        {!reconstructionUrl && (
+          <button
+            onClick={handleGenerate}
+            disabled={disabled || isGenerating}
+            className="inline-flex items-center px-4 py-2 text-sm font-medium rounded-full shadow-sm text-white bg-brand-blue hover:bg-brand-dark disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+          >
+            {isGenerating ? <LoaderIcon className="w-5 h-5 mr-2 animate-spin" /> : <SparklesIcon className="w-5 h-5 mr-2" />}
+            {isGenerating ? t('thenAndNowGenerating') : t('thenAndNowButton')}
+          </button>
+        )}
+      </div>
+
+      {error && <p className="mb-4 text-red-600 bg-red-100 dark:bg-red-900/50 dark:text-red-300 p-3 rounded-lg">{error}</p>}
+
+      {reconstructionUrl && (
+        <div className="animate-fade-in">
+          <div className="relative w-full h-[350px] rounded-lg overflow-hidden select-none">
+            <img src={imageUrl} alt={t('altUserImage', { landmarkName })} className="absolute inset-0 w-full h-full object-cover" />
+            <img
+              src={reconstructionUrl}
+              alt={t('altReconstruction', { landmarkName, era: eraLabel })}
+              className="absolute inset-0 w-full h-full object-cover"
+              style={{ clipPath: `inset(0 ${100 - sliderPosition}% 0 0)` }}
+            />
+            <div className="absolute inset-y-0 w-0.5 bg-white shadow pointer-events-none" style={{ left: `${sliderPosition}%` }} />
+            <span className="absolute top-3 left-3 px-3 py-1 bg-amber-500 text-white text-xs font-bold rounded-full flex items-center gap-1">
+              <SparklesIcon className="w-4 h-4" />
+              {t('thenAndNowAiLabel', { era: eraLabel })}
+            </span>
+            <span className="absolute top-3 right-3 px-3 py-1 bg-black/50 text-white text-xs font-bold rounded-full">
+              {t('thenAndNowTodayLabel')}
+            </span>
+            <input
+              type="range"
+              min={0}
+              max={100}
+              value={sliderPosition}
+              onChange={(e) => setSliderPosition(Number(e.target.value))}
+              aria-label={t('thenAndNowSliderLabel')}
+              className="absolute inset-0 w-full h-full opacity-0 cursor-ew-resize"
+            />
+          </div>
+          <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">{t('thenAndNowDisclaimer')}</p>
+        </div>
+      )}
+    </div>
+  );
+};
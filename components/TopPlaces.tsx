@@ -1,15 +1,18 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { getCountries, getCities, getTopPlaces } from '../services/firestoreService';
-import { generateAudioForText, translatePlaceDetails } from '../services/geminiService';
+import { translatePlaceDetails } from '../services/geminiService';
 import { useTranslation } from '../contexts/LanguageContext';
-import { audioPlayer } from '../utils/audio';
+import { useVoice } from '../contexts/VoiceContext';
+import { createPlaceAudioLoader, playPlaceAudio, stopAudioUnlessTouring } from '../utils/walkingTour';
+import { useFavorites, toggleFavorite } from '../utils/favorites';
 import { StarIcon, HeartIcon, SearchIcon, LoaderIcon } from './Icons';
 import { PlaceCard, SkeletonCard } from './PlaceCard';
+import { PlayAllButton } from './WalkingTourPlayer';
 import { SearchableDropdown } from './SearchableDropdown';
 import type { NearbyPlace } from '../types';
 import { SUPPORTED_LANGUAGES } from '../utils/translations';
+import { findRouteOption } from '../utils/router';
 
-const FAVORITES_KEY = 'scout-ai-favorites';
 const FILTER_KEYS = ['All', 'Favorites', 'Museum', 'Park', 'Restaurant', 'HistoricSite', 'Cafe', 'Shopping', 'Landmark'];
 
 /**
@@ -34,8 +37,19 @@ const getCategoryKeyFromRawType = (rawType: string): string => {
     return 'Landmark'; // Broad fallback
 };
 
+/**
+ * Props for the TopPlaces component.
+ */
+interface TopPlacesProps {
+    /** A country to select once the countries are loaded, e.g. from a link. */
+    initialCountry?: string;
+    /** A city of the initial country to select and search right away. */
+    initialCity?: string;
+    /** Called when a search starts, so the selection can be linked to. */
+    onSearch?: (country: string, city: string) => void;
+}
 
-export const TopPlaces: React.FC = () => {
+export const TopPlaces: React.FC<TopPlacesProps> = ({ initialCountry, initialCity, onSearch }) => {
     const [loadingState, setLoadingState] = useState<'loadingCountries' | 'loadingCities' | 'loadingPlaces' | 'idle'>('loadingCountries');
     const [countries, setCountries] = useState<string[]>([]);
     const [cities, setCities] = useState<string[]>([]);
@@ -43,23 +57,15 @@ export const TopPlaces: React.FC = () => {
     const [selectedCity, setSelectedCity] = useState('');
     const [places, setPlaces] = useState<NearbyPlace[] | null>(null);
     const [error, setError] = useState<string | null>(null);
-    const [favorites, setFavorites] = useState<Set<string>>(new Set());
-    const [playingPlace, setPlayingPlace] = useState<string | null>(null);
+    const favorites = useFavorites();
     const [loadingAudioFor, setLoadingAudioFor] = useState<string | null>(null);
     const [activeFilterKey, setActiveFilterKey] = useState('All');
     const { t, language } = useTranslation();
-
-    // Load favorites from local storage on mount
-    useEffect(() => {
-        try {
-            const storedFavorites = window.localStorage.getItem(FAVORITES_KEY);
-            if (storedFavorites) {
-                setFavorites(new Set(JSON.parse(storedFavorites)));
-            }
-        } catch (error) {
-            console.error("Failed to load favorites from local storage", error);
-        }
-    }, []);
+    const { voice } = useVoice();
+    // The linked selection still to apply once its options have loaded
+    const pendingCountryRef = useRef(initialCountry);
+    const pendingCityRef = useRef(initialCity);
+    const shouldSearchRef = useRef(false);
 
     // Fetch countries on mount
     useEffect(() => {
@@ -70,6 +76,9 @@ export const TopPlaces: React.FC = () => {
                 const countryList = await getCountries();
                 console.log(countryList)
                 setCountries(countryList.sort());
+                const linkedCountry = findRouteOption(countryList, pendingCountryRef.current);
+                pendingCountryRef.current = undefined;
+                if (linkedCountry) setSelectedCountry(linkedCountry);
             } catch (err) {
                 setError(t('errorTopPlaces'));
                 console.error("Firestore error fetching countries:", err);
@@ -96,6 +105,12 @@ export const TopPlaces: React.FC = () => {
             try {
                 const cityList = await getCities(selectedCountry);
                 setCities(cityList.sort());
+                const linkedCity = findRouteOption(cityList, pendingCityRef.current);
+                pendingCityRef.current = undefined;
+                if (linkedCity) {
+                    shouldSearchRef.current = true;
+                    setSelectedCity(linkedCity);
+                }
             } catch (err) {
                 setError(t('errorTopPlaces'));
                  console.error("Firestore error fetching cities:", err);
@@ -106,10 +121,10 @@ export const TopPlaces: React.FC = () => {
         fetchCities();
     }, [selectedCountry, t]);
     
-    // Stop audio when changing selections
+    // Stop audio when changing selections, unless a walking tour is playing
     useEffect(() => {
         return () => {
-            audioPlayer.stop();
+            stopAudioUnlessTouring();
         }
     }, [selectedCity, selectedCountry, language]);
 
@@ -118,6 +133,7 @@ export const TopPlaces: React.FC = () => {
             setPlaces(null);
             return;
         }
+        onSearch?.(selectedCountry, selectedCity);
         
         setLoadingState('loadingPlaces');
         setError(null);
@@ -157,60 +173,29 @@ export const TopPlaces: React.FC = () => {
         }
     };
 
-    const handleToggleFavorite = (placeName: string) => {
-        const newFavorites = new Set(favorites);
-        if (newFavorites.has(placeName)) {
-            newFavorites.delete(placeName);
-        } else {
-            newFavorites.add(placeName);
-        }
-        setFavorites(newFavorites);
-        try {
-            window.localStorage.setItem(FAVORITES_KEY, JSON.stringify(Array.from(newFavorites)));
-        } catch (error) {
-            console.error("Failed to save favorites to local storage", error);
-        }
-    };
-
-    const handlePlayPause = async (placeToPlay: NearbyPlace) => {
-        if (loadingAudioFor) return;
+    // Search a linked city as soon as it is selected
+    useEffect(() => {
+        if (!shouldSearchRef.current || !selectedCity) return;
+        shouldSearchRef.current = false;
+        handleSearch();
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [selectedCity]);
 
-        if (playingPlace === placeToPlay.name) {
-            audioPlayer.stop();
-            setPlayingPlace(null);
-            return;
-        }
 
-        audioPlayer.stop();
+    const loadPlaceAudio = createPlaceAudioLoader(voice, language, (placeName, changes) => {
+        setPlaces(currentPlaces => currentPlaces
+            ? currentPlaces.map(p => p.name === placeName ? { ...p, ...changes } : p)
+            : null);
+    });
 
-        if (placeToPlay.audioData) {
-            await audioPlayer.play(placeToPlay.audioData, () => setPlayingPlace(null));
-            setPlayingPlace(placeToPlay.name);
-            return;
-        }
+    const handlePlayPause = async (placeToPlay: NearbyPlace) => {
+        if (loadingAudioFor) return;
 
-        // Generate audio on demand
         try {
-            setLoadingAudioFor(placeToPlay.name);
-            setPlayingPlace(null);
-
-            const audioData = await generateAudioForText(placeToPlay.description, language);
-
-            setPlaces(currentPlaces => {
-                if (!currentPlaces) return null;
-                return currentPlaces.map(p => 
-                    p.name === placeToPlay.name ? { ...p, audioData } : p
-                );
-            });
-
-            await audioPlayer.play(audioData, () => setPlayingPlace(null));
-            setPlayingPlace(placeToPlay.name);
-
+            await playPlaceAudio(placeToPlay, voice, loadPlaceAudio, setLoadingAudioFor);
         } catch (e) {
             console.error(`Audio generation failed for ${placeToPlay.name}:`, e);
             setError(`Audio generation failed for ${placeToPlay.name}.`);
-        } finally {
-            setLoadingAudioFor(null);
         }
     };
 
@@ -258,6 +243,15 @@ export const TopPlaces: React.FC = () => {
                             </button>
                         ))}
                     </div>
+                    {filteredPlaces.length > 0 && (
+                        <div className="flex justify-center mb-6">
+                            <PlayAllButton
+                                places={filteredPlaces}
+                                title={selectedCity.charAt(0).toUpperCase() + selectedCity.slice(1)}
+                                loadAudio={loadPlaceAudio}
+                            />
+                        </div>
+                    )}
                     {filteredPlaces.length > 0 ? (
                         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
                             {filteredPlaces.map((place) => {
@@ -273,8 +267,7 @@ export const TopPlaces: React.FC = () => {
                                         key={place.name} 
                                         place={displayPlace} 
                                         isFavorite={favorites.has(place.name)}
-                                        onToggleFavorite={handleToggleFavorite}
-                                        isPlaying={playingPlace === place.name}
+                                        onToggleFavorite={toggleFavorite}
                                         isGeneratingAudio={loadingAudioFor === place.name}
                                         onPlayPause={() => handlePlayPause(place)}
                                     />
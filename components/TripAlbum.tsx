@@ -0,0 +1,157 @@
+import React, { useMemo } from 'react';
+import type { AlbumPhoto, AlbumGroup } from '../types';
+import { CheckCircleIcon, LoaderIcon, CircleIcon, XIcon, ArrowPathIcon, CameraIcon } from './Icons';
+import { useTranslation } from '../contexts/LanguageContext';
+import { getLandmarkKey } from '../utils/landmarkKey';
+
+/**
+ * Groups identified photos by landmark, keeping the order in which each landmark first appeared.
+ * @param {AlbumPhoto[]} photos - All photos in the album.
+ * @returns {AlbumGroup[]} One group per distinct landmark.
+ */
+export const groupAlbumPhotos = (photos: AlbumPhoto[]): AlbumGroup[] => {
+  const groups = new Map<string, AlbumGroup>();
+  photos.forEach(photo => {
+    if (photo.status !== 'identified' || !photo.landmark) return;
+    const key = getLandmarkKey(photo.landmark.name);
+    const group = groups.get(key);
+    if (group) {
+      group.photos.push(photo);
+    } else {
+      groups.set(key, { key, landmarkName: photo.landmark.name, photos: [photo] });
+    }
+  });
+  return Array.from(groups.values());
+};
+
+/**
+ * Shows the processing status of a single photo as an overlay icon.
+ */
+const PhotoStatusBadge: React.FC<{ photo: AlbumPhoto }> = ({ photo }) => {
+  switch (photo.status) {
+    case 'identified':
+      return <CheckCircleIcon className="w-6 h-6 text-green-400" />;
+    case 'identifying':
+      return <LoaderIcon className="w-6 h-6 text-white animate-spin" />;
+    case 'failed':
+      return <XIcon className="w-6 h-6 text-red-400" />;
+    case 'queued':
+    default:
+      return <CircleIcon className="w-6 h-6 text-white/70" />;
+  }
+};
+
+/**
+ * Props for the TripAlbum component.
+ */
+interface TripAlbumProps {
+  photos: AlbumPhoto[];
+  error: string | null;
+  /** Opens the audio guide for every photo of a landmark. */
+  onOpenGroup: (group: AlbumGroup) => void;
+  /** Queues a failed photo for identification again. */
+  onRetry: (photoId: string) => void;
+  /** Discards the album and returns to the upload screen. */
+  onReset: () => void;
+}
+
+/**
+ * Displays a batch of photos being identified, with per-photo progress, the
+ * resulting landmarks grouped into an album, and retry buttons for failed photos.
+ * @param {TripAlbumProps} props - The component props.
+ */
+export const TripAlbum: React.FC<TripAlbumProps> = ({ photos, error, onOpenGroup, onRetry, onReset }) => {
+  const { t } = useTranslation();
+  const groups = useMemo(() => groupAlbumPhotos(photos), [photos]);
+  const failedPhotos = photos.filter(photo => photo.status === 'failed');
+  const finishedCount = photos.filter(photo => photo.status === 'identified' || photo.status === 'failed').length;
+
+  return (
+    <div className="w-full max-w-4xl text-left animate-fade-in">
+      <div className="bg-white/90 dark:bg-gray-800/90 backdrop-blur-md rounded-2xl shadow-2xl p-4 sm:p-8 mb-8">
+        <h1 className="text-3xl font-bold text-brand-dark dark:text-white mb-2 text-center">{t('albumTitle')}</h1>
+        <p className="text-center text-gray-600 dark:text-gray-300 mb-4">
+          {t('albumProgress', { done: finishedCount, total: photos.length })}
+        </p>
+        <div className="h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden mb-6">
+          <div
+            className="h-full bg-brand-blue transition-all duration-300"
+            style={{ width: `${photos.length ? (finishedCount / photos.length) * 100 : 0}%` }}
+          />
+        </div>
+        <div className="grid grid-cols-4 sm:grid-cols-6 md:grid-cols-8 gap-2">
+          {photos.map(photo => (
+            <div key={photo.id} className="relative aspect-square rounded-lg overflow-hidden bg-gray-200 dark:bg-gray-700" title={photo.landmark?.name || photo.error || ''}>
+              <img src={photo.userImageUrl} alt="" className="w-full h-full object-cover" />
+              <div className={`absolute inset-0 flex items-center justify-center ${photo.status === 'identified' ? 'bg-black/20' : 'bg-black/50'}`}>
+                <PhotoStatusBadge photo={photo} />
+              </div>
+            </div>
+          ))}
+        </div>
+        {error && <p className="mt-4 text-red-600 bg-red-100 dark:bg-red-900/50 dark:text-red-300 p-3 rounded-lg">{error}</p>}
+      </div>
+
+      {groups.length > 0 && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6 mb-8">
+          {groups.map(group => (
+            <button
+              key={group.key}
+              onClick={() => onOpenGroup(group)}
+              className="bg-white dark:bg-gray-800 rounded-lg shadow-md overflow-hidden flex flex-col text-left transition-transform duration-300 hover:scale-105"
+              aria-label={t('albumOpenGroupAriaLabel', { landmarkName: group.landmarkName })}
+            >
+              <div className="relative w-full h-40">
+                <img src={group.photos[0].userImageUrl} alt={t('altUserImage', { landmarkName: group.landmarkName })} className="w-full h-full object-cover" />
+                {group.photos.length > 1 && (
+                  <div className="absolute bottom-2 right-2 flex -space-x-3">
+                    {group.photos.slice(1, 4).map(photo => (
+                      <img key={photo.id} src={photo.userImageUrl} alt="" className="w-10 h-10 rounded-md object-cover border-2 border-white" />
+                    ))}
+                  </div>
+                )}
+              </div>
+              <div className="p-4">
+                <h3 className="font-bold text-lg text-brand-dark dark:text-white">{group.landmarkName}</h3>
+                <p className="text-sm text-gray-600 dark:text-gray-300">
+                  {group.photos.length === 1 ? t('albumSinglePhoto') : t('albumPhotoCount', { count: group.photos.length })}
+                </p>
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {failedPhotos.length > 0 && (
+        <div className="bg-white/90 dark:bg-gray-800/90 backdrop-blur-md rounded-2xl shadow-2xl p-4 sm:p-6 mb-8">
+          <h2 className="text-xl font-bold text-brand-dark dark:text-white mb-4">{t('albumFailedTitle')}</h2>
+          <ul className="space-y-3">
+            {failedPhotos.map(photo => (
+              <li key={photo.id} className="flex items-center gap-4">
+                <img src={photo.userImageUrl} alt="" className="w-16 h-16 rounded-lg object-cover flex-shrink-0" />
+                <p className="flex-grow text-sm text-gray-600 dark:text-gray-300">{photo.error}</p>
+                <button
+                  onClick={() => onRetry(photo.id)}
+                  className="flex items-center px-4 py-2 bg-brand-blue text-white text-sm font-bold rounded-full hover:bg-brand-dark transition-colors"
+                >
+                  <ArrowPathIcon className="w-4 h-4 mr-2" />
+                  {t('retryButton')}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="text-center">
+        <button
+          onClick={onReset}
+          className="inline-flex items-center justify-center px-8 py-3 bg-brand-blue text-white font-bold text-base rounded-full shadow-lg hover:bg-brand-dark transition-colors"
+        >
+          <CameraIcon className="w-5 h-5 mr-2" />
+          {t('albumNewButton')}
+        </button>
+      </div>
+    </div>
+  );
+};
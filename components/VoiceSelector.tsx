@@ -0,0 +1,127 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useVoice, TTS_VOICES, getDefaultVoice } from '../contexts/VoiceContext';
+import { useTranslation } from '../contexts/LanguageContext';
+import { generateAudioForText, isAbortError } from '../services/geminiService';
+import { audioPlayer, useAudioPlayerState } from '../utils/audio';
+import { PlayIcon, PauseIcon, LoaderIcon } from './Icons';
+import type { TtsVoice } from '../types';
+
+// Previews per (language, voice), kept for the session so replaying a voice is instant
+const previewCache = new Map<string, string>();
+
+const getPreviewTrackId = (voice: TtsVoice) => `voicePreview:${voice}`;
+
+const PILL_CLASS = 'px-3 py-1.5 text-sm font-semibold rounded-full transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed';
+const ACTIVE_PILL_CLASS = 'bg-brand-blue text-white shadow-md';
+const INACTIVE_PILL_CLASS = 'bg-white dark:bg-gray-700 text-gray-600 dark:text-gray-300 border border-gray-200 dark:border-gray-600 hover:bg-brand-lightblue/50 dark:hover:bg-gray-600/50';
+
+/**
+ * Pill buttons for choosing the voice every narration is read in, each with a preview button
+ * that reads a short sample in the UI language. The first pill follows the default voice of
+ * the UI language. The choice is stored per user by the VoiceProvider.
+ * @param {object} props - Component props.
+ * @param {boolean} [props.disabled] - If true, the voice cannot be changed.
+ */
+export const VoiceSelector: React.FC<{ disabled?: boolean }> = ({ disabled = false }) => {
+  const { voice, isDefaultVoice, changeVoice } = useVoice();
+  const { t, language } = useTranslation();
+  const [loadingPreview, setLoadingPreview] = useState<TtsVoice | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const playerState = useAudioPlayerState();
+  const defaultVoice = getDefaultVoice(language);
+
+  useEffect(() => {
+    return () => {
+      abortRef.current?.abort();
+      if (audioPlayer.getState().trackId?.startsWith('voicePreview:')) audioPlayer.stop();
+    };
+  }, []);
+
+  const handlePreview = async (previewVoice: TtsVoice) => {
+    const trackId = getPreviewTrackId(previewVoice);
+    if (audioPlayer.toggle(trackId)) return;
+
+    abortRef.current?.abort();
+    audioPlayer.stop();
+    setError(null);
+
+    const cacheKey = `${language}::${previewVoice}`;
+    let audioData = previewCache.get(cacheKey);
+    if (!audioData) {
+      const controller = new AbortController();
+      abortRef.current = controller;
+      setLoadingPreview(previewVoice);
+      try {
+        audioData = await generateAudioForText(t('voicePreviewSample', { voice: previewVoice }), previewVoice, language, controller.signal);
+        previewCache.set(cacheKey, audioData);
+      } catch (err) {
+        if (isAbortError(err)) return;
+        console.error(`Voice preview failed for ${previewVoice}:`, err);
+        setError(t('errorVoicePreview'));
+        return;
+      } finally {
+        if (!controller.signal.aborted) setLoadingPreview(null);
+      }
+    }
+    try {
+      await audioPlayer.play(audioData, undefined, trackId);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error(`Voice preview playback failed for ${previewVoice}:`, err);
+      setError(t('errorVoicePreview'));
+    }
+  };
+
+  const renderPreviewButton = (previewVoice: TtsVoice) => {
+    const isPlaying = playerState.status === 'playing' && playerState.trackId === getPreviewTrackId(previewVoice);
+    return (
+      <button
+        onClick={() => handlePreview(previewVoice)}
+        disabled={loadingPreview !== null && loadingPreview !== previewVoice}
+        className="p-1.5 rounded-full text-brand-blue dark:text-brand-lightblue hover:bg-brand-lightblue/50 dark:hover:bg-gray-600/50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        aria-label={t('voicePreviewAriaLabel', { voice: previewVoice })}
+        title={t('voicePreviewAriaLabel', { voice: previewVoice })}
+      >
+        {loadingPreview === previewVoice
+          ? <LoaderIcon className="w-4 h-4 animate-spin" />
+          : isPlaying ? <PauseIcon className="w-4 h-4" /> : <PlayIcon className="w-4 h-4" />}
+      </button>
+    );
+  };
+
+  return (
+    <div>
+      <div role="radiogroup" aria-label={t('voiceLabel')} className="flex flex-wrap items-center justify-center gap-2">
+        <button
+          role="radio"
+          aria-checked={isDefaultVoice}
+          onClick={() => changeVoice(null)}
+          disabled={disabled}
+          className={`${PILL_CLASS} ${isDefaultVoice ? ACTIVE_PILL_CLASS : INACTIVE_PILL_CLASS}`}
+        >
+          {t('voiceAutomatic', { voice: defaultVoice })}
+        </button>
+        {TTS_VOICES.map(option => {
+          const isActive = !isDefaultVoice && voice === option.voice;
+          return (
+            <span key={option.voice} className="inline-flex items-center">
+              <button
+                role="radio"
+                aria-checked={isActive}
+                onClick={() => changeVoice(option.voice)}
+                disabled={disabled}
+                className={`${PILL_CLASS} ${isActive ? ACTIVE_PILL_CLASS : INACTIVE_PILL_CLASS}`}
+              >
+                {option.voice}
+                <span className={`ml-1 font-normal ${isActive ? 'text-white/80' : 'text-gray-400 dark:text-gray-400'}`}>· {t(option.styleKey)}</span>
+              </button>
+              {renderPreviewButton(option.voice)}
+            </span>
+          );
+        })}
+      </div>
+      {error && <p role="alert" className="mt-2 text-sm text-red-600 bg-red-100 dark:bg-red-900/50 dark:text-red-300 p-2 rounded-lg text-center">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,110 @@
+import React from 'react';
+import { walkingTour, useWalkingTourState, getPlaceTrackId } from '../utils/walkingTour';
+import type { PlaceAudioLoader } from '../utils/walkingTour';
+import { useAudioPlayerState } from '../utils/audio';
+import { AudioScrubber } from './AudioScrubber';
+import { PlayIcon, PauseIcon, LoaderIcon, ForwardIcon, BackwardIcon, XIcon } from './Icons';
+import { useTranslation } from '../contexts/LanguageContext';
+import type { NearbyPlace } from '../types';
+
+/**
+ * Props for the PlayAllButton component.
+ */
+interface PlayAllButtonProps {
+  /** The visible places, in the order they are shown. */
+  places: NearbyPlace[];
+  /** What is being toured, shown in the mini-player. */
+  title: string;
+  loadAudio: PlaceAudioLoader;
+}
+
+/**
+ * Starts a walking tour through the given places, or stops it while it is touring them.
+ * @param {PlayAllButtonProps} props - The component props.
+ */
+export const PlayAllButton: React.FC<PlayAllButtonProps> = ({ places, title, loadAudio }) => {
+  const tour = useWalkingTourState();
+  const { t } = useTranslation();
+  // The places are compared by name, since generated audio replaces the place objects
+  const isTouringThese = tour.places.length === places.length && tour.places.every((place, index) => place.name === places[index].name);
+
+  return (
+    <button
+      onClick={() => isTouringThese ? walkingTour.stop() : walkingTour.start(places, title, loadAudio)}
+      className="inline-flex items-center px-4 py-2 text-sm font-medium rounded-full shadow-sm text-white bg-brand-blue hover:bg-brand-dark transition-colors"
+    >
+      {isTouringThese ? <XIcon className="w-5 h-5 mr-2" /> : <PlayIcon className="w-5 h-5 mr-2" />}
+      {isTouringThese ? t('walkingTourStop') : t('walkingTourPlayAll', { count: places.length })}
+    </button>
+  );
+};
+
+/**
+ * The mini-player of the walking tour: the current place, its position in the tour, previous,
+ * play/pause, next and stop controls, and a scrubber. It is rendered by App outside the tab
+ * views, so it stays visible while the user switches tabs, and disappears when the tour ends.
+ */
+export const WalkingTourPlayer: React.FC = () => {
+  const tour = useWalkingTourState();
+  const playerState = useAudioPlayerState();
+  const { t } = useTranslation();
+
+  if (tour.places.length === 0) return null;
+
+  const place = tour.places[tour.index];
+  const trackId = getPlaceTrackId(place.name);
+  const isPlaying = playerState.trackId === trackId && playerState.status === 'playing';
+  const controlClass = 'p-2 rounded-full text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors';
+
+  return (
+    <div role="region" aria-label={t('walkingTourLabel')} className="fixed bottom-20 left-0 w-full px-4 z-20 animate-fade-in">
+      <div className="max-w-lg mx-auto p-3 bg-white dark:bg-gray-800 rounded-2xl shadow-2xl border border-gray-200 dark:border-gray-700">
+        <div className="flex items-center gap-2">
+          <div className="flex-grow min-w-0">
+            <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+              {t('walkingTourProgress', { title: tour.title, current: tour.index + 1, total: tour.places.length })}
+            </p>
+            <p className="font-semibold text-brand-dark dark:text-white truncate">{place.name}</p>
+          </div>
+          <button
+            onClick={() => walkingTour.previous()}
+            className={controlClass}
+            aria-label={t('walkingTourPrevious')}
+            title={t('walkingTourPrevious')}
+          >
+            <BackwardIcon className="w-5 h-5" />
+          </button>
+          <button
+            onClick={() => walkingTour.togglePause()}
+            disabled={tour.isLoading}
+            className="p-3 rounded-full bg-brand-blue text-white hover:bg-brand-dark disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+            aria-label={isPlaying ? t('pauseNearbyAudioAriaLabel', { placeName: place.name }) : t('playNearbyAudioAriaLabel', { placeName: place.name })}
+          >
+            {tour.isLoading
+              ? <LoaderIcon className="w-5 h-5 animate-spin" />
+              : isPlaying ? <PauseIcon className="w-5 h-5" /> : <PlayIcon className="w-5 h-5" />}
+          </button>
+          <button
+            onClick={() => walkingTour.next()}
+            className={controlClass}
+            aria-label={t('walkingTourNext')}
+            title={t('walkingTourNext')}
+          >
+            <ForwardIcon className="w-5 h-5" />
+          </button>
+          <button
+            onClick={() => walkingTour.stop()}
+            className={controlClass}
+            aria-label={t('walkingTourStop')}
+            title={t('walkingTourStop')}
+          >
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+        <div className="mt-2">
+          <AudioScrubber trackId={trackId} compact />
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,71 @@
+import React, { createContext, useState, useContext, useEffect, useCallback } from 'react';
+import type { NarrationPreset } from '../types';
+
+export const NARRATION_PRESETS: NarrationPreset[] = ['summary', 'standard', 'inDepth', 'kids', 'expert'];
+
+interface NarrationPresetContextValue {
+    preset: NarrationPreset;
+    changePreset: (preset: NarrationPreset) => void;
+}
+
+const NarrationPresetContext = createContext<NarrationPresetContextValue | undefined>(undefined);
+
+/**
+ * Determines the initial narration preset from local storage.
+ * Defaults to 'standard' if no valid preference is found or an error occurs.
+ * @returns {NarrationPreset} The initial preset.
+ */
+const getInitialPreset = (): NarrationPreset => {
+    try {
+        const storedPreset = window.localStorage.getItem('scout-ai-narration-preset');
+        if (NARRATION_PRESETS.includes(storedPreset as NarrationPreset)) {
+            return storedPreset as NarrationPreset;
+        }
+    } catch (error) {
+        console.error("Could not access local storage for the narration preset.", error);
+    }
+    return 'standard';
+};
+
+/**
+ * Provides the user's preferred narration depth and audience preset to its children
+ * and remembers it in local storage.
+ * @param {object} props - The component props.
+ * @param {React.ReactNode} props.children - The child components to be wrapped by the provider.
+ */
+export const NarrationPresetProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+    const [preset, setPreset] = useState<NarrationPreset>(getInitialPreset);
+
+    useEffect(() => {
+        try {
+            window.localStorage.setItem('scout-ai-narration-preset', preset);
+        } catch (error) {
+            console.error(`Failed to save narration preset '${preset}' to local storage.`, error);
+        }
+    }, [preset]);
+
+    const changePreset = useCallback((newPreset: NarrationPreset) => {
+        setPreset(newPreset);
+    }, []);
+
+    const value = { preset, changePreset };
+
+    return (
+        <NarrationPresetContext.Provider value={value}>
+            {children}
+        </NarrationPresetContext.Provider>
+    );
+};
+
+/**
+ * Custom hook to easily access the narration preset context value.
+ * Throws an error if used outside of a NarrationPresetProvider.
+ * @returns {NarrationPresetContextValue} The current narration preset context object.
+ */
+export const useNarrationPreset = (): NarrationPresetContextValue => {
+    const context = useContext(NarrationPresetContext);
+    if (context === undefined) {
+        throw new Error('useNarrationPreset must be used within a NarrationPresetProvider');
+    }
+    return context;
+};
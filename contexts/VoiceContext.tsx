@@ -0,0 +1,115 @@
+import React, { createContext, useState, useContext, useEffect, useCallback } from 'react';
+import { useTranslation } from './LanguageContext';
+import type { TtsVoice } from '../types';
+
+/**
+ * The voices offered to the user, each with the translation key of its speaking style.
+ */
+export const TTS_VOICES: { voice: TtsVoice; styleKey: string }[] = [
+    { voice: 'Kore', styleKey: 'voiceStyleFirm' },
+    { voice: 'Puck', styleKey: 'voiceStyleUpbeat' },
+    { voice: 'Charon', styleKey: 'voiceStyleInformative' },
+    { voice: 'Zephyr', styleKey: 'voiceStyleBright' },
+    { voice: 'Aoede', styleKey: 'voiceStyleBreezy' },
+    { voice: 'Leda', styleKey: 'voiceStyleYouthful' },
+    { voice: 'Sulafat', styleKey: 'voiceStyleWarm' },
+    { voice: 'Gacrux', styleKey: 'voiceStyleMature' },
+];
+
+/**
+ * The voice used for each UI language until the user picks one.
+ */
+const DEFAULT_VOICES: Record<string, TtsVoice> = {
+    en: 'Kore',
+    es: 'Aoede',
+    fr: 'Charon',
+    de: 'Gacrux',
+    it: 'Puck',
+    pt: 'Sulafat',
+    ja: 'Leda',
+    hi: 'Zephyr',
+    zh: 'Kore',
+};
+
+/**
+ * Returns the default narration voice of a UI language.
+ * @param {string} languageCode - The UI language code, e.g. 'es'.
+ * @returns {TtsVoice} The voice for that language, or Kore for unknown languages.
+ */
+export const getDefaultVoice = (languageCode: string): TtsVoice => DEFAULT_VOICES[languageCode] || 'Kore';
+
+interface VoiceContextValue {
+    /** The voice every narration is read in: the user's choice, or the default of the UI language. */
+    voice: TtsVoice;
+    /** True while no voice has been picked and the voice follows the UI language. */
+    isDefaultVoice: boolean;
+    /** Picks a voice, or goes back to the language default when given null. */
+    changeVoice: (voice: TtsVoice | null) => void;
+}
+
+const VoiceContext = createContext<VoiceContextValue | undefined>(undefined);
+
+/**
+ * Determines the user's chosen voice from local storage.
+ * Returns null if no valid choice is found or an error occurs, so the language default applies.
+ * @returns {TtsVoice | null} The stored voice, if any.
+ */
+const getInitialVoice = (): TtsVoice | null => {
+    try {
+        const storedVoice = window.localStorage.getItem('scout-ai-voice');
+        if (TTS_VOICES.some(option => option.voice === storedVoice)) {
+            return storedVoice as TtsVoice;
+        }
+    } catch (error) {
+        console.error("Could not access local storage for the narration voice.", error);
+    }
+    return null;
+};
+
+/**
+ * Provides the narration voice to its children and remembers the user's choice in local storage.
+ * Must be rendered inside a LanguageProvider, whose language picks the default voice.
+ * @param {object} props - The component props.
+ * @param {React.ReactNode} props.children - The child components to be wrapped by the provider.
+ */
+export const VoiceProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+    const [chosenVoice, setChosenVoice] = useState<TtsVoice | null>(getInitialVoice);
+    const { language } = useTranslation();
+
+    useEffect(() => {
+        try {
+            if (chosenVoice) {
+                window.localStorage.setItem('scout-ai-voice', chosenVoice);
+            } else {
+                window.localStorage.removeItem('scout-ai-voice');
+            }
+        } catch (error) {
+            console.error(`Failed to save narration voice '${chosenVoice}' to local storage.`, error);
+        }
+    }, [chosenVoice]);
+
+    const changeVoice = useCallback((newVoice: TtsVoice | null) => {
+        setChosenVoice(newVoice);
+    }, []);
+
+    const value = { voice: chosenVoice || getDefaultVoice(language), isDefaultVoice: !chosenVoice, changeVoice };
+
+    return (
+        <VoiceContext.Provider value={value}>
+            {children}
+        </VoiceContext.Provider>
+    );
+};
+
+/**
+ * Custom hook to easily access the narration voice context value.
+ * Throws an error if used outside of a VoiceProvider.
+ * @returns {VoiceContextValue} The current voice context object.
+ */
+export const useVoice = (): VoiceContextValue => {
+    const context = useContext(VoiceContext);
+    if (context === undefined) {
+        throw new Error('useVoice must be used within a VoiceProvider');
+    }
+    return context;
+};
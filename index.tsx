@@ -1,6 +1,6 @@
 /**
  * Main entry point of the React application.
- * Renders the root component (App) wrapped in necessary context providers (LanguageProvider, ThemeProvider).
+ * Renders the root component (App) wrapped in necessary context providers (LanguageProvider, ThemeProvider, NarrationPresetProvider, VoiceProvider).
  */
 
 import React from 'react';
@@ -8,6 +8,8 @@ import ReactDOM from 'react-dom/client';
 import App from './App';
 import { LanguageProvider } from './contexts/LanguageContext';
 import { ThemeProvider } from './contexts/ThemeContext';
+import { NarrationPresetProvider } from './contexts/NarrationPresetContext';
+import { VoiceProvider } from './contexts/VoiceContext';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -19,7 +21,11 @@ root.render(
   <React.StrictMode>
     <LanguageProvider>
       <ThemeProvider>
-        <App />
+        <NarrationPresetProvider>
+          <VoiceProvider>
+            <App />
+          </VoiceProvider>
+        </NarrationPresetProvider>
       </ThemeProvider>
     </LanguageProvider>
   </React.StrictMode>
@@ -1,5 +1,10 @@
-import { GoogleGenAI, Chat, Type, Modality, GenerateContentResponse } from "@google/genai";
-import type { TourPlan, NearbyPlace } from '../types';
+import { GoogleGenAI, Chat, Type, Modality, GenerateContentResponse, GroundingMetadata } from "@google/genai";
+import type { TourPlan, NearbyPlace, LandmarkCandidate, LandmarkFacts, GroundedText, NarrationPreset, NarrationSubject, ScanMode, PhotoLocation, TextRegion, ReconstructionEra, QuizQuestion, RelatedLandmark, TtsVoice, NarrationAudio } from '../types';
+import { preprocessImage } from '../utils/imagePreprocessing';
+import type { ImagePreprocessOptions } from '../utils/imagePreprocessing';
+import { extractGroundedText } from '../utils/grounding';
+import { joinAudioClips } from '../utils/audio';
+import { createTaskQueue } from '../utils/taskQueue';
 
 const API_KEY = process.env.API_KEY;
 
@@ -11,17 +16,43 @@ if (!API_KEY) {
 
 const ai = new GoogleGenAI({ apiKey: API_KEY });
 
-const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
+// Resolves after the delay, or rejects as soon as the signal is aborted.
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+    }
+    const onAbort = () => {
+        clearTimeout(timeout);
+        reject(signal!.reason);
+    };
+    const timeout = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Returns true for the error thrown when a request is cancelled through its AbortSignal.
+ * Callers use it to tell a cancellation apart from a failure that should be reported.
+ */
+export const isAbortError = (error: unknown): boolean =>
+    error instanceof Error && error.name === 'AbortError';
+
+// An aborted signal stops the retries immediately, including during the backoff delay.
 const callGeminiWithRetry = async <T>(
     apiCall: () => Promise<T>,
+    signal?: AbortSignal,
     maxRetries = 3
 ): Promise<T> => {
     let attempt = 0;
     while (attempt < maxRetries) {
+        signal?.throwIfAborted();
         try {
             return await apiCall();
         } catch (error) {
+            if (signal?.aborted) throw signal.reason;
             attempt++;
             const errorMessage = error instanceof Error ? error.message : String(error);
             
@@ -36,7 +67,7 @@ const callGeminiWithRetry = async <T>(
             if (isTransientError && attempt < maxRetries) {
                 const delay = Math.pow(2, attempt) * 1000 + Math.random() * 1000; // Exponential backoff with jitter
                 console.warn(`Transient API error detected. Retrying in ${Math.round(delay / 1000)}s... (Attempt ${attempt}/${maxRetries})`);
-                await sleep(delay);
+                await sleep(delay, signal);
             } else {
                 console.error(`API call failed after ${attempt} attempts.`, error);
                 throw error; // Re-throw the error if it's not transient or retries are exhausted
@@ -48,7 +79,17 @@ const callGeminiWithRetry = async <T>(
 };
 
 
-const fileToGenerativePart = async (file: File) => {
+// Photos are shrunk, rotated upright and stripped of metadata before upload.
+// A photo that cannot be re-encoded is never sent as-is, since its EXIF holds GPS and device data.
+const fileToGenerativePart = async (file: File, options?: ImagePreprocessOptions, signal?: AbortSignal) => {
+    let uploadFile: File;
+    try {
+        uploadFile = await preprocessImage(file, options);
+    } catch (error) {
+        console.error("Image preprocessing failed; the photo is not uploaded with its metadata.", error);
+        throw new Error('The photo could not be read. Please try another photo or a JPEG or PNG image.', { cause: error });
+    }
+
     const base64EncodedDataPromise = new Promise<string>((resolve) => {
         const reader = new FileReader();
         reader.onloadend = () => {
@@ -58,88 +99,525 @@ const fileToGenerativePart = async (file: File) => {
                 resolve('');
             }
         };
-        reader.readAsDataURL(file);
+        reader.readAsDataURL(uploadFile);
     });
 
+    const data = await base64EncodedDataPromise;
+    signal?.throwIfAborted();
     return {
-        inlineData: { data: await base64EncodedDataPromise, mimeType: file.type },
+        inlineData: { data, mimeType: uploadFile.type },
     };
 };
 
+const MAX_LANDMARK_CANDIDATES = 3;
+
+// Each scan mode has its own way of naming what is in the photo and of explaining it.
+// Modes with usesLocation ground the identification on the photo's GPS coordinates, and
+// modes with usesSearch ground the explanation on Google Search; a sign only needs translating.
+// The fun fact is what the result view offers on demand, and signs have none.
+interface ScanModePrompts {
+    identification: string;
+    naming: string;
+    notFound: string;
+    explanation: (subject: NarrationSubject, language: string) => string;
+    funFact?: (name: string) => string;
+    expertFocus: string;
+    usesLocation: boolean;
+    usesSearch: boolean;
+}
+
+const SCAN_MODE_PROMPTS: Record<ScanMode, ScanModePrompts> = {
+    landmark: {
+        identification: 'Identify the landmark in this image.',
+        naming: 'its name and location (e.g., "Eiffel Tower, Paris, France")',
+        notFound: "it's not a famous landmark",
+        explanation: ({ name }, language) => `Provide an engaging history of ${name} in ${language}, based on reliable sources found with Google Search.`,
+        funFact: name => `Find one surprising or little-known fun fact about ${name}.`,
+        expertFocus: 'Focus on the architectural style, the architect or builders, materials, structural techniques, notable details and influences.',
+        usesLocation: true,
+        usesSearch: true,
+    },
+    artwork: {
+        identification: 'Identify the artwork (painting, sculpture, mural, etc.) in this image.',
+        naming: 'its title, artist and, if known, where it is displayed (e.g., "The Starry Night by Vincent van Gogh, MoMA, New York")',
+        notFound: 'it is not a recognizable artwork',
+        explanation: ({ name }, language) => `Explain the artwork ${name} in ${language} for a museum visitor, based on reliable sources found with Google Search: who made it and when, what it depicts, its symbolism, and why it matters.`,
+        funFact: name => `Find one detail of ${name} that visitors often miss, and say where in the work to look for it.`,
+        expertFocus: 'Focus on technique, composition, materials, the art-historical context and its influences.',
+        usesLocation: true,
+        usesSearch: true,
+    },
+    food: {
+        identification: 'Identify the dish or food in this image.',
+        naming: 'the name of the dish and its region of origin (e.g., "Pad Thai, Thailand")',
+        notFound: 'there is no recognizable dish or food',
+        explanation: ({ name }, language) => `Describe the dish ${name} in ${language} for a traveler, based on reliable sources found with Google Search: its origins and history, its main ingredients and how it is prepared, and how and when it is traditionally eaten. Mention common allergens.`,
+        funFact: name => `Find how locals traditionally eat or order ${name}, as one practical tip for a traveler.`,
+        expertFocus: 'Focus on culinary technique, regional variations and the history of its ingredients.',
+        usesLocation: false,
+        usesSearch: true,
+    },
+    plant: {
+        identification: 'Identify the plant, flower, tree or fungus in this image.',
+        naming: 'its common name followed by its scientific name (e.g., "Swiss cheese plant (Monstera deliciosa)")',
+        notFound: 'there is no recognizable plant, flower, tree or fungus',
+        explanation: ({ name }, language) => `Describe ${name} in ${language} for a curious traveler, based on reliable sources found with Google Search: where it grows natively, how to recognize it, interesting facts about its ecology, and its uses or cultural significance. Clearly mention if it is toxic or protected.`,
+        funFact: name => `Find out whether ${name} is safe to touch or eat, and whether it is protected.`,
+        expertFocus: 'Focus on taxonomy, botanical characteristics, habitat and ecology.',
+        usesLocation: false,
+        usesSearch: true,
+    },
+    sign: {
+        identification: 'Read the sign, menu, label or other text in this image. Return a single candidate, and include a "transcript" key with the full text exactly as written, preserving its line breaks.',
+        naming: 'a short description of what it is (e.g., "Restaurant menu" or "Museum opening hours")',
+        notFound: 'there is no readable text',
+        explanation: ({ name, transcript }, language) => `The following text was photographed on a ${name}. Translate it into ${language} and explain it for a traveler, including any cultural context, abbreviations or unfamiliar items.\n\nText:\n"""${transcript || ''}"""`,
+        expertFocus: 'Focus on the precise meaning of each term, including idioms and regional usage.',
+        usesLocation: false,
+        usesSearch: false,
+    },
+};
+
+const IDENTIFICATION_FAILED_MESSAGES: Record<ScanMode, string> = {
+    landmark: "I couldn't identify a landmark in this photo. Please try another one.",
+    artwork: "I couldn't identify an artwork in this photo. Please try another one.",
+    food: "I couldn't identify a dish in this photo. Please try another one.",
+    plant: "I couldn't identify a plant in this photo. Please try another one.",
+    sign: "I couldn't read any text in this photo. Please try a sharper one.",
+};
+
+// Similar-looking landmarks are easily confused, so identification returns ranked
+// candidates and the caller decides whether the user should pick or confirm one.
+// When the photo carries GPS coordinates they ground the identification via Google Maps.
 export const identifyLandmark = async (
     imageFile: File,
     language: string,
-    onProgress: (message: string) => void
-) => {
+    onProgress: (message: string) => void,
+    photoLocation?: PhotoLocation,
+    mode: ScanMode = 'landmark',
+    signal?: AbortSignal
+): Promise<LandmarkCandidate[]> => {
+    const modePrompts = SCAN_MODE_PROMPTS[mode];
+    const groundingLocation = modePrompts.usesLocation ? photoLocation : undefined;
+
     onProgress('Preparing analysis...');
-    const imagePart = await fileToGenerativePart(imageFile);
+    const imagePart = await fileToGenerativePart(imageFile, undefined, signal);
 
     onProgress('Identifying landmark...');
     const identificationModel = 'gemini-2.5-flash';
-    const identificationPrompt = `Identify the landmark in this image. Respond with only the name of the landmark and its location (e.g., "Eiffel Tower, Paris, France"). If it's not a famous landmark, respond with the single phrase "Unknown Landmark".`;
-    
+    const locationPrompt = groundingLocation
+        ? ` The photo was taken at latitude ${groundingLocation.latitude}, longitude ${groundingLocation.longitude}. Strongly prefer answers at or visible from that location.`
+        : '';
+    const transcriptKey = mode === 'sign' ? ', "reason" and "transcript"' : ', and "reason"';
+    const identificationPrompt = `${modePrompts.identification}${locationPrompt} Return up to ${MAX_LANDMARK_CANDIDATES} candidates ranked from most to least likely. For each candidate, give ${modePrompts.naming}, a confidence score between 0 and 1, and a one-sentence reason in ${language} explaining which details support it. Only include alternatives that genuinely resemble the photo. If ${modePrompts.notFound}, return an empty array. Respond ONLY with a valid JSON array of objects with "name", "confidence"${transcriptKey} keys. Do not add any conversational text or markdown formatting.`;
+
+    // A response schema cannot be combined with tools, so the grounded call relies on the prompt for its format.
+    const identificationConfig = groundingLocation
+        ? {
+            tools: [{ googleMaps: {} }],
+            toolConfig: {
+                retrievalConfig: {
+                    latLng: {
+                        latitude: groundingLocation.latitude,
+                        longitude: groundingLocation.longitude,
+                    },
+                },
+            },
+        }
+        : {
+            responseMimeType: "application/json",
+            responseSchema: {
+                type: Type.ARRAY,
+                items: {
+                    type: Type.OBJECT,
+                    properties: {
+                        name: { type: Type.STRING },
+                        confidence: { type: Type.NUMBER },
+                        reason: { type: Type.STRING },
+                        ...(mode === 'sign' ? { transcript: { type: Type.STRING } } : {})
+                    },
+                    required: mode === 'sign' ? ["name", "confidence", "reason", "transcript"] : ["name", "confidence", "reason"]
+                }
+            }
+        };
+
     const identificationResponse = await callGeminiWithRetry(() => ai.models.generateContent({
         model: identificationModel,
         contents: { parts: [imagePart, { text: identificationPrompt }] },
-    }));
+        config: { ...identificationConfig, abortSignal: signal },
+    }), signal);
+
+    const jsonText = identificationResponse.text.trim().replace(/^```(json)?\s*/, '').replace(/```$/, '').trim();
+    let candidates: LandmarkCandidate[];
+    try {
+        candidates = JSON.parse(jsonText);
+    } catch (e) {
+        console.error("Failed to parse JSON response for landmark candidates:", jsonText);
+        throw new Error("The model returned an invalid identification format.");
+    }
+
+    const rankedCandidates = (Array.isArray(candidates) ? candidates : [])
+        .filter(candidate => candidate.name && !candidate.name.toLowerCase().includes('unknown landmark'))
+        .filter(candidate => mode !== 'sign' || candidate.transcript?.trim())
+        .map(candidate => ({
+            ...candidate,
+            name: candidate.name.trim(),
+            confidence: Math.min(Math.max(Number(candidate.confidence) || 0, 0), 1),
+        }))
+        .sort((a, b) => b.confidence - a.confidence)
+        .slice(0, MAX_LANDMARK_CANDIDATES);
+
+    if (rankedCandidates.length === 0) {
+        throw new Error(IDENTIFICATION_FAILED_MESSAGES[mode]);
+    }
+
+    return rankedCandidates;
+};
+
+// Gemini returns bounding boxes as [ymin, xmin, ymax, xmax] scaled to 0-1000. They refer to the
+// preprocessed image, which is rotated upright just like the browser displays the original photo.
+const BOX_SCALE = 1000;
+
+export const translatePhotoText = async (imageFile: File, language: string, signal?: AbortSignal): Promise<TextRegion[]> => {
+    const model = 'gemini-2.5-flash';
+    const imagePart = await fileToGenerativePart(imageFile, undefined, signal);
+    const prompt = `Find every distinct block of readable text in this image, such as a menu item, a line of a sign or a paragraph of a plaque. For each block, return the text exactly as written, its translation into ${language}, and its bounding box as [ymin, xmin, ymax, xmax] scaled to 0-${BOX_SCALE}. Keep each block short enough that its translation fits near its box. If the text is already in ${language}, repeat it as the translation. If there is no readable text, return an empty array.`;
+
+    const response = await callGeminiWithRetry(() => ai.models.generateContent({
+        model,
+        contents: { parts: [imagePart, { text: prompt }] },
+        config: {
+            abortSignal: signal,
+            responseMimeType: "application/json",
+            responseSchema: {
+                type: Type.ARRAY,
+                items: {
+                    type: Type.OBJECT,
+                    properties: {
+                        original: { type: Type.STRING },
+                        translation: { type: Type.STRING },
+                        box_2d: { type: Type.ARRAY, items: { type: Type.INTEGER } }
+                    },
+                    required: ["original", "translation", "box_2d"]
+                }
+            }
+        }
+    }), signal);
 
-    const landmarkName = identificationResponse.text.trim();
+    const jsonText = response.text.trim();
+    let blocks: { original: string; translation: string; box_2d: number[] }[];
+    try {
+        blocks = JSON.parse(jsonText);
+    } catch (e) {
+        console.error("Failed to parse JSON response for photo translation:", jsonText);
+        throw new Error("The model returned an invalid translation format.");
+    }
 
-    if (landmarkName.toLowerCase().includes('unknown landmark')) {
-        throw new Error("I couldn't identify a landmark in this photo. Please try another one.");
+    const clamp = (value: number) => Math.min(Math.max(value / BOX_SCALE, 0), 1);
+    const regions = (Array.isArray(blocks) ? blocks : [])
+        .filter(block => block.original?.trim() && Array.isArray(block.box_2d) && block.box_2d.length === 4)
+        .map(({ original, translation, box_2d: [ymin, xmin, ymax, xmax] }) => ({
+            original: original.trim(),
+            translation: (translation || original).trim(),
+            box: {
+                top: clamp(Math.min(ymin, ymax)),
+                left: clamp(Math.min(xmin, xmax)),
+                height: clamp(Math.abs(ymax - ymin)),
+                width: clamp(Math.abs(xmax - xmin)),
+            },
+        }));
+
+    if (regions.length === 0) {
+        throw new Error("I couldn't find any text to translate in this photo. Please try a sharper one.");
     }
+    return regions;
+};
 
+// Each preset sets the audience, length and structure of the explanation, and the pacing of its narration.
+// The TTS model follows a short spoken-style instruction placed before the text (e.g. "Say slowly: ...");
+// the standard preset keeps the bare text, which is the most reliable input.
+const NARRATION_PRESET_PROMPTS: Record<NarrationPreset, { history: string; ttsInstruction: string }> = {
+    summary: {
+        history: 'The text should be about 70-80 words long (roughly 30 seconds when read aloud), covering only the most essential facts. Format it as a single short paragraph.',
+        ttsInstruction: 'Read this briskly and clearly',
+    },
+    standard: {
+        history: 'The text should be about 150-200 words long, suitable for a tourist audio guide. Format it into 2-3 short paragraphs.',
+        ttsInstruction: '',
+    },
+    inDepth: {
+        history: 'The text should be about 650-750 words long (roughly 5 minutes when read aloud), suitable for an in-depth audio guide. Cover its origins, the key events, notable people and stories around it, and its significance today. Format it into 5-7 paragraphs.',
+        ttsInstruction: 'Read this at a calm, unhurried storytelling pace',
+    },
+    kids: {
+        history: 'The text should be about 120-150 words long and written for children aged 6 to 12: simple words, short sentences, a playful tone and one fun comparison they can picture. Format it into 2-3 short paragraphs.',
+        ttsInstruction: 'Read this slowly, warmly and cheerfully, like a friendly guide talking to children',
+    },
+    expert: {
+        history: 'The text should be about 300-400 words long and written for enthusiasts, using correct terminology. Format it into 3-4 paragraphs.',
+        ttsInstruction: 'Read this at a measured, authoritative pace',
+    },
+};
+
+export const streamLandmarkHistory = async (
+    subject: NarrationSubject,
+    language: string,
+    onProgress: (message: string) => void,
+    onText: (textSoFar: string) => void,
+    preset: NarrationPreset = 'standard',
+    signal?: AbortSignal
+): Promise<GroundedText> => {
+    const modePrompts = SCAN_MODE_PROMPTS[subject.mode || 'landmark'];
     onProgress('Researching history...');
     const textModel = 'gemini-2.5-pro';
-    const historyPrompt = `Provide a concise and engaging history of ${landmarkName} in ${language}. The history should be about 150-200 words long, suitable for a tourist audio guide. Format it into 2-3 short paragraphs.`;
+    const expertFocus = preset === 'expert' ? ` ${modePrompts.expertFocus}` : '';
+    const historyPrompt = `${modePrompts.explanation(subject, language)} ${NARRATION_PRESET_PROMPTS[preset].history}${expertFocus} Write plain prose without markdown, headings or inline citations.`;
 
-    const historyResponse = await callGeminiWithRetry(() => ai.models.generateContent({
+    // Grounding with Google Search makes the explanation verifiable: each claim is linked to the pages it came from.
+    const stream = await callGeminiWithRetry(() => ai.models.generateContentStream({
         model: textModel,
-        contents: historyPrompt
-    }));
-    const historyText = historyResponse.text.trim();
+        contents: historyPrompt,
+        config: {
+            abortSignal: signal,
+            ...(modePrompts.usesSearch ? { tools: [{ googleSearch: {} }] } : {}),
+        },
+    }), signal);
+
+    let text = '';
+    let groundingMetadata: GroundingMetadata | undefined;
+    for await (const chunk of stream) {
+        signal?.throwIfAborted();
+        const candidate = chunk.candidates?.[0];
+        // The grounding metadata of the final chunks covers the whole answer.
+        if (candidate?.groundingMetadata?.groundingSupports?.length) {
+            groundingMetadata = candidate.groundingMetadata;
+        }
+        const chunkText = chunk.text;
+        if (chunkText) {
+            text += chunkText;
+            onText(text.trimStart());
+        }
+    }
+
+    const history = extractGroundedText({ candidates: [{ content: { parts: [{ text }] }, groundingMetadata }] });
+    if (!history.text) {
+        throw new Error('Failed to generate the landmark history.');
+    }
+    return history;
+};
 
-    onProgress('Creating audio guide...');
+// Every narration, guide or place, goes through this one TTS call.
+// The language code is optional: without it the model infers the language from the text.
+const synthesizeSpeech = async (text: string, voice: TtsVoice, languageCode?: string, instruction = '', signal?: AbortSignal): Promise<string> => {
     const audioModel = 'gemini-2.5-flash-preview-tts';
-    // The TTS model works best with just the text to be spoken.
-    // Instructions about voice style are better handled by config or are implicit.
-    const ttsPrompt = historyText;
+    const ttsPrompt = instruction ? `${instruction}: ${text}` : text;
 
     const audioResponse = await callGeminiWithRetry(() => ai.models.generateContent({
         model: audioModel,
         contents: [{ parts: [{ text: ttsPrompt }] }],
         config: {
+            abortSignal: signal,
             responseModalities: [Modality.AUDIO],
             speechConfig: {
+                languageCode,
                 voiceConfig: {
-                    prebuiltVoiceConfig: { voiceName: 'Kore' },
+                    prebuiltVoiceConfig: { voiceName: voice },
                 },
             },
         },
-    }));
+    }), signal);
 
     const audioData = audioResponse.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
     if (!audioData) {
+        // Log the full response to help debug issues with safety settings or other API-side problems.
+        console.error("Audio generation failed. Full API response:", JSON.stringify(audioResponse, null, 2));
         throw new Error('Failed to generate audio data.');
     }
+    return audioData;
+};
 
-    return {
-        name: landmarkName,
-        history: historyText,
-        audioData: audioData,
-    };
+// Paragraphs are read separately, a few at a time, so the transcript can follow the audio.
+const narrationSpeechQueue = createTaskQueue(3);
+
+export const generateNarrationAudio = async (text: string, voice: TtsVoice, languageCode: string, preset: NarrationPreset = 'standard', signal?: AbortSignal): Promise<NarrationAudio> => {
+    const { ttsInstruction } = NARRATION_PRESET_PROMPTS[preset];
+    // Blank lines get no audio, so they start where the next paragraph does.
+    const clips = await Promise.all(text.split('\n').map(paragraph => paragraph.trim()
+        ? narrationSpeechQueue(() => synthesizeSpeech(paragraph, voice, languageCode, ttsInstruction, signal))
+        : Promise.resolve('')));
+    const { audioData, clipStarts } = joinAudioClips(clips);
+    return { audioData, audioParagraphStarts: clipStarts };
 };
 
-export const fetchFunFact = async (landmarkName: string, language: string): Promise<string> => {
+export const fetchLandmarkFacts = async (landmarkName: string, language: string, signal?: AbortSignal): Promise<LandmarkFacts> => {
     const model = 'gemini-2.5-flash';
-    const prompt = `Tell me one surprising or little-known fun fact about ${landmarkName}. The fact should be in ${language}.`;
+    const prompt = `Create a fact sheet for the landmark "${landmarkName}" for a tourist planning a visit. Provide: its construction dates (start and completion, or the era), the architect or builder, the architectural style, its main dimensions (height, length or area), its UNESCO World Heritage status (including the inscription year, or state that it is not listed), typical visiting hours, ticket information (whether entry is free and approximate prices), and accessibility notes for visitors with reduced mobility. Keep each value short, one or two sentences at most. If a value is unknown or does not apply, return an empty string for it instead of guessing. All values should be in ${language}.`;
+
+    const response = await callGeminiWithRetry(() => ai.models.generateContent({
+        model,
+        contents: prompt,
+        config: {
+            abortSignal: signal,
+            responseMimeType: "application/json",
+            responseSchema: {
+                type: Type.OBJECT,
+                properties: {
+                    constructionDates: { type: Type.STRING },
+                    architect: { type: Type.STRING },
+                    architecturalStyle: { type: Type.STRING },
+                    dimensions: { type: Type.STRING },
+                    unescoStatus: { type: Type.STRING },
+                    visitingHours: { type: Type.STRING },
+                    ticketInfo: { type: Type.STRING },
+                    accessibility: { type: Type.STRING }
+                },
+                required: ["constructionDates", "architect", "architecturalStyle", "dimensions", "unescoStatus", "visitingHours", "ticketInfo", "accessibility"]
+            }
+        }
+    }), signal);
+
+    const jsonText = response.text.trim();
+    try {
+        return JSON.parse(jsonText) as LandmarkFacts;
+    } catch (e) {
+        console.error("Failed to parse JSON response for landmark facts:", jsonText);
+        throw new Error("The model returned an invalid fact sheet format.");
+    }
+};
+
+export const fetchFunFact = async (landmarkName: string, language: string, mode: ScanMode = 'landmark', signal?: AbortSignal): Promise<GroundedText> => {
+    const model = 'gemini-2.5-flash';
+    const { funFact } = SCAN_MODE_PROMPTS[mode];
+    if (!funFact) throw new Error(`The ${mode} scan mode has no fun fact.`);
+    const prompt = `Use Google Search. ${funFact(landmarkName)} Reply with just the answer, in one or two sentences of plain text. The answer should be in ${language}.`;
     
     const response = await callGeminiWithRetry(() => ai.models.generateContent({
         model,
-        contents: prompt
-    }));
+        contents: prompt,
+        config: {
+            abortSignal: signal,
+            tools: [{ googleSearch: {} }],
+        },
+    }), signal);
 
-    return response.text.trim();
+    return extractGroundedText(response);
+};
+
+const QUIZ_LENGTH = 5;
+const QUIZ_OPTION_COUNT = 4;
+
+// The quiz is built from the history the user just heard, so every answer can be checked against it.
+// Questions from earlier rounds are listed so a retry asks about something new.
+export const generateLandmarkQuiz = async (
+    landmarkName: string,
+    history: string,
+    language: string,
+    previousQuestions: string[] = [],
+    signal?: AbortSignal
+): Promise<QuizQuestion[]> => {
+    const model = 'gemini-2.5-flash';
+    const avoidPrompt = previousQuestions.length > 0
+        ? ` Do not repeat or rephrase any of these earlier questions:\n${previousQuestions.map(question => `- ${question}`).join('\n')}`
+        : '';
+    const prompt = `Write a fun multiple-choice quiz of ${QUIZ_LENGTH} questions about ${landmarkName} for families and school groups. Base every question and answer strictly on the text below; do not use outside facts. Each question has ${QUIZ_OPTION_COUNT} short, plausible answer options with exactly one correct answer, given by its zero-based index, and a one or two sentence explanation of the correct answer that refers to the text. Vary the position of the correct answer. Write everything in ${language}.${avoidPrompt}\n\nText:\n"""${history}"""`;
+
+    const response = await callGeminiWithRetry(() => ai.models.generateContent({
+        model,
+        contents: prompt,
+        config: {
+            abortSignal: signal,
+            responseMimeType: "application/json",
+            responseSchema: {
+                type: Type.ARRAY,
+                items: {
+                    type: Type.OBJECT,
+                    properties: {
+                        question: { type: Type.STRING },
+                        options: { type: Type.ARRAY, items: { type: Type.STRING } },
+                        correctIndex: { type: Type.INTEGER },
+                        explanation: { type: Type.STRING }
+                    },
+                    required: ["question", "options", "correctIndex", "explanation"]
+                }
+            }
+        }
+    }), signal);
+
+    const jsonText = response.text.trim();
+    let questions: QuizQuestion[];
+    try {
+        questions = JSON.parse(jsonText);
+    } catch (e) {
+        console.error("Failed to parse JSON response for the quiz:", jsonText);
+        throw new Error("The model returned an invalid quiz format.");
+    }
+
+    // Drop malformed questions rather than showing one that cannot be answered.
+    const validQuestions = (Array.isArray(questions) ? questions : [])
+        .filter(question => question.question?.trim()
+            && Array.isArray(question.options)
+            && question.options.length >= 2
+            && Number.isInteger(question.correctIndex)
+            && question.correctIndex >= 0
+            && question.correctIndex < question.options.length)
+        .slice(0, QUIZ_LENGTH);
+
+    if (validQuestions.length === 0) {
+        throw new Error('Failed to generate the quiz.');
+    }
+    return validQuestions;
+};
+
+const MAX_RELATED_LANDMARKS = 5;
+
+// Mixes sites close to the landmark with ones linked by theme (same architect, era, style or story),
+// so the guide always has somewhere to go next. The photo's location, when known, anchors "nearby".
+export const suggestRelatedLandmarks = async (
+    landmarkName: string,
+    language: string,
+    photoLocation?: PhotoLocation,
+    signal?: AbortSignal
+): Promise<RelatedLandmark[]> => {
+    const model = 'gemini-2.5-flash';
+    const locationPrompt = photoLocation
+        ? ` The visitor is currently at latitude ${photoLocation.latitude}, longitude ${photoLocation.longitude}.`
+        : '';
+    const prompt = `A visitor has just explored ${landmarkName}.${locationPrompt} Suggest 3 to ${MAX_RELATED_LANDMARKS} other real, visitable landmarks they would enjoy next. Include some that are close by (relation "nearby") and some that are linked by theme, such as the same architect, era, style or historical story, wherever they are (relation "thematic"). For each, give its commonly used name, its city and country, the relation, and one short sentence explaining the link. Do not suggest ${landmarkName} itself. Write the explanations in ${language}.`;
+
+    const response = await callGeminiWithRetry(() => ai.models.generateContent({
+        model,
+        contents: prompt,
+        config: {
+            abortSignal: signal,
+            responseMimeType: "application/json",
+            responseSchema: {
+                type: Type.ARRAY,
+                items: {
+                    type: Type.OBJECT,
+                    properties: {
+                        name: { type: Type.STRING },
+                        location: { type: Type.STRING },
+                        relation: { type: Type.STRING, enum: ['nearby', 'thematic'] },
+                        reason: { type: Type.STRING }
+                    },
+                    required: ["name", "location", "relation", "reason"]
+                }
+            }
+        }
+    }), signal);
+
+    const jsonText = response.text.trim();
+    let suggestions: RelatedLandmark[];
+    try {
+        suggestions = JSON.parse(jsonText);
+    } catch (e) {
+        console.error("Failed to parse JSON response for related landmarks:", jsonText);
+        throw new Error("The model returned an invalid format for related landmarks.");
+    }
+
+    return (Array.isArray(suggestions) ? suggestions : [])
+        .filter(suggestion => suggestion.name?.trim() && suggestion.name.toLowerCase() !== landmarkName.toLowerCase())
+        .slice(0, MAX_RELATED_LANDMARKS);
 };
 
 export const createChatSession = (systemInstruction: string): Chat => {
@@ -153,11 +631,11 @@ export const createChatSession = (systemInstruction: string): Chat => {
     return chat;
 };
 
-export const sendChatMessage = async (chat: Chat, message: string): Promise<GenerateContentResponse> => {
-    return callGeminiWithRetry(() => chat.sendMessage({ message }));
+export const sendChatMessage = async (chat: Chat, message: string, signal?: AbortSignal): Promise<GenerateContentResponse> => {
+    return callGeminiWithRetry(() => chat.sendMessage({ message, config: { abortSignal: signal } }), signal);
 };
 
-export const generateTourPlan = async (location: string, language: string): Promise<TourPlan> => {
+export const generateTourPlan = async (location: string, language: string, signal?: AbortSignal): Promise<TourPlan> => {
     const model = 'gemini-2.5-pro';
     const prompt = `Create a one-day tour plan for a tourist visiting ${location}. The plan should be exciting and cover a good mix of activities. Provide a title for the plan. For morning, afternoon, and evening, provide an activity and a short, enticing description. For lunch and dinner, suggest a type of cuisine or a specific restaurant and a short description. The entire plan should be in ${language}.`;
 
@@ -165,6 +643,7 @@ export const generateTourPlan = async (location: string, language: string): Prom
         model,
         contents: prompt,
         config: {
+            abortSignal: signal,
             responseMimeType: "application/json",
             responseSchema: {
                 type: Type.OBJECT,
@@ -215,7 +694,7 @@ export const generateTourPlan = async (location: string, language: string): Prom
                 required: ["title", "location", "morning", "lunch", "afternoon", "evening", "dinner"]
             }
         }
-    }));
+    }), signal);
 
     const jsonText = response.text.trim();
     try {
@@ -231,7 +710,8 @@ export const findNearbyPlaces = async (
     latitude: number, 
     longitude: number, 
     language: string,
-    existingPlaceNames: string[] = []
+    existingPlaceNames: string[] = [],
+    signal?: AbortSignal
 ): Promise<Omit<NearbyPlace, 'imageUrl' | 'audioData'>[]> => {
     const model = 'gemini-2.5-pro';
     
@@ -246,6 +726,7 @@ export const findNearbyPlaces = async (
         model,
         contents: prompt,
         config: {
+            abortSignal: signal,
             tools: [{ googleMaps: {} }],
             toolConfig: {
                 retrievalConfig: {
@@ -256,7 +737,7 @@ export const findNearbyPlaces = async (
                 },
             },
         },
-    }));
+    }), signal);
 
     const rawText = response.text.trim();
     const cleanedText = rawText.replace(/^```(json)?\s*/, '').replace(/```$/, '').trim();
@@ -293,50 +774,29 @@ export const findNearbyPlaces = async (
     });
 };
 
-export const generateAudioForText = async (text: string, language: string): Promise<string> => {
-    const audioModel = 'gemini-2.5-flash-preview-tts';
-    // The TTS model works best with just the text to be spoken.
-    // The `language` parameter is not used in the config, and the model infers it from the text.
-    // Adding instructions to the text can sometimes lead to failures.
-    const ttsPrompt = text;
-
-    const audioResponse = await callGeminiWithRetry(() => ai.models.generateContent({
-        model: audioModel,
-        contents: [{ parts: [{ text: ttsPrompt }] }],
-        config: {
-            responseModalities: [Modality.AUDIO],
-            speechConfig: {
-                voiceConfig: {
-                    prebuiltVoiceConfig: { voiceName: 'Kore' },
-                },
-            },
-        },
-    }));
-
-    const audioData = audioResponse.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-    if (!audioData) {
-        // Log the full response to help debug issues with safety settings or other API-side problems.
-        console.error("Audio generation failed. Full API response:", JSON.stringify(audioResponse, null, 2));
-        throw new Error('Failed to generate audio data.');
-    }
-    return audioData;
+// The TTS model works best with just the text to be spoken, so no style instruction is added.
+// Pass no language for text that is not in the UI language, such as a sign being pronounced.
+export const generateAudioForText = async (text: string, voice: TtsVoice, languageCode?: string, signal?: AbortSignal): Promise<string> => {
+    return synthesizeSpeech(text, voice, languageCode, '', signal);
 };
 
-export const generateDescriptionForPlace = async (placeName: string, location: string, language: string): Promise<string> => {
+export const generateDescriptionForPlace = async (placeName: string, location: string, language: string, signal?: AbortSignal): Promise<string> => {
     const model = 'gemini-2.5-flash';
     const prompt = `Provide a concise and engaging one-sentence description for "${placeName}" in ${location}, suitable for a tourist app. Respond in ${language} with only the description sentence.`;
     
     const response = await callGeminiWithRetry(() => ai.models.generateContent({
         model,
-        contents: prompt
-    }));
+        contents: prompt,
+        config: { abortSignal: signal },
+    }), signal);
 
     return response.text.trim();
 };
 
 export const translatePlaceDetails = async (
     places: { name: string, description: string }[], 
-    languageName: string
+    languageName: string,
+    signal?: AbortSignal
 ): Promise<{ name: string, description: string }[]> => {
     // If the target language is English, no translation is needed as the source is English.
     if (languageName.toLowerCase() === 'english') {
@@ -354,6 +814,7 @@ export const translatePlaceDetails = async (
         model,
         contents: prompt,
         config: {
+            abortSignal: signal,
             responseMimeType: "application/json",
             responseSchema: {
                 type: Type.ARRAY,
@@ -367,7 +828,7 @@ export const translatePlaceDetails = async (
                 }
             }
         }
-    }));
+    }), signal);
 
     const jsonText = response.text.trim();
     try {
@@ -386,7 +847,7 @@ export const translatePlaceDetails = async (
     }
 };
 
-export const generateImageForPlace = async (placeName: string, location: string): Promise<string> => {
+export const generateImageForPlace = async (placeName: string, location: string, signal?: AbortSignal): Promise<string> => {
     const model = 'gemini-2.5-flash-image';
     const prompt = `A beautiful, photorealistic, high-quality photograph of "${placeName}", a tourist-friendly view of this ${location}. Sunny day.`;
 
@@ -396,9 +857,10 @@ export const generateImageForPlace = async (placeName: string, location: string)
             parts: [{ text: prompt }],
         },
         config: {
+            abortSignal: signal,
             responseModalities: [Modality.IMAGE],
         },
-    }));
+    }), signal);
 
     for (const part of response.candidates?.[0]?.content?.parts || []) {
         if (part.inlineData) {
@@ -407,3 +869,35 @@ export const generateImageForPlace = async (placeName: string, location: string)
     }
     throw new Error(`No image data in response for ${placeName}`);
 };
+
+const RECONSTRUCTION_ERA_PROMPTS: Record<ReconstructionEra, string> = {
+    construction: 'as it looked when its construction was first completed',
+    centuryAgo: 'as it looked about 100 years ago',
+    fiftyYearsAgo: 'as it looked about 50 years ago',
+};
+
+// Edits the user's own photo rather than generating a new view, so the reconstruction keeps
+// the same viewpoint and framing and can be compared with the original side by side.
+export const generateHistoricalReconstruction = async (imageFile: File, landmarkName: string, era: ReconstructionEra, signal?: AbortSignal): Promise<string> => {
+    const model = 'gemini-2.5-flash-image';
+    const imagePart = await fileToGenerativePart(imageFile, undefined, signal);
+    const prompt = `Edit this photo of ${landmarkName} to show the landmark ${RECONSTRUCTION_ERA_PROMPTS[era]}. Keep exactly the same viewpoint, framing and composition. Restore or remove parts of the landmark according to the historical record, and replace modern people, vehicles, signs and surrounding buildings with period-appropriate ones. Match the photographic look of the era, for example black and white for the early 20th century. Do not add any text or captions.`;
+
+    const response = await callGeminiWithRetry(() => ai.models.generateContent({
+        model,
+        contents: {
+            parts: [imagePart, { text: prompt }],
+        },
+        config: {
+            abortSignal: signal,
+            responseModalities: [Modality.IMAGE],
+        },
+    }), signal);
+
+    for (const part of response.candidates?.[0]?.content?.parts || []) {
+        if (part.inlineData?.data) {
+            return `data:${part.inlineData.mimeType || 'image/png'};base64,${part.inlineData.data}`;
+        }
+    }
+    throw new Error(`No image data in response for the reconstruction of ${landmarkName}`);
+};
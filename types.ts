@@ -2,7 +2,100 @@ export interface LandmarkData {
   name: string;
   history: string;
   userImageUrl: string;
-  audioData: string; // base64 encoded
+  isImageGenerated?: boolean; // the image is an AI-generated view of the subject, not a photo by the user
+  audioData?: string; // base64 encoded; absent while the audio guide is still being synthesized
+  photoLocation?: PhotoLocation; // where the photo was taken, from EXIF GPS
+  capturedAt?: string; // ISO 8601 local time from EXIF, without time zone
+  mode?: ScanMode; // what kind of subject was scanned; absent means 'landmark'
+  transcript?: string; // sign mode: the text exactly as written in the photo
+  facts?: LandmarkFacts; // structured fact sheet, absent if it could not be generated
+  sources?: GroundingSource[]; // web pages the history was grounded on, numbered from 1 in the UI
+  citations?: Citation[]; // where in the history each source is cited
+  audioParagraphStarts?: number[]; // where each paragraph of history.split('\n') starts in the audio, in seconds
+}
+
+export type LandmarkNarration = Pick<LandmarkData, 'name' | 'history' | 'audioData' | 'audioParagraphStarts' | 'facts' | 'sources' | 'citations'>;
+
+export type NarrationAudio = Required<Pick<LandmarkData, 'audioData' | 'audioParagraphStarts'>>;
+
+export type NarrationSubject = Pick<LandmarkData, 'name' | 'mode' | 'transcript'>;
+
+export type ScanMode = 'landmark' | 'artwork' | 'food' | 'plant' | 'sign';
+
+// The moment in a landmark's past that a "then and now" reconstruction shows.
+export type ReconstructionEra = 'construction' | 'centuryAgo' | 'fiftyYearsAgo';
+
+// What the camera on the Guide tab is used for: a narrated scan, or translating the text in a photo in place.
+export type CaptureMode = ScanMode | 'translate';
+
+// Position of a text region as fractions (0-1) of the upright photo's width and height.
+export interface TextRegionBox {
+  top: number;
+  left: number;
+  width: number;
+  height: number;
+}
+
+export interface TextRegion {
+  original: string; // the text exactly as written in the photo
+  translation: string; // in the user's language
+  box: TextRegionBox;
+}
+
+export interface GroundingSource {
+  uri: string;
+  title: string;
+}
+
+export interface Citation {
+  endIndex: number; // string index in the text right after the cited sentence
+  sourceIndices: number[]; // indices into the sources array
+}
+
+export interface GroundedText {
+  text: string;
+  sources: GroundingSource[];
+  citations: Citation[];
+}
+
+// Every field is free text in the user's language; an empty string means the model did not know it.
+export interface LandmarkFacts {
+  constructionDates: string;
+  architect: string;
+  architecturalStyle: string;
+  dimensions: string;
+  unescoStatus: string;
+  visitingHours: string;
+  ticketInfo: string;
+  accessibility: string;
+}
+
+export interface PhotoLocation {
+  latitude: number;
+  longitude: number;
+}
+
+export interface PhotoMetadata {
+  location?: PhotoLocation;
+  capturedAt?: string;
+  orientation?: number; // EXIF orientation, 1-8
+}
+
+export interface QuizQuestion {
+  question: string;
+  options: string[]; // four answers, exactly one of them correct
+  correctIndex: number; // index into options
+  explanation: string; // why the correct answer is right, based on the history
+}
+
+// How a suggested site relates to the one the user just identified.
+export type RelatedLandmarkRelation = 'nearby' | 'thematic';
+
+export interface RelatedLandmark {
+  name: string;
+  location: string; // city and country, used to seed the tour planner
+  relation: RelatedLandmarkRelation;
+  reason: string; // one sentence in the user's language, e.g. "Also designed by Gaudí"
 }
 
 export interface ChatMessage {
@@ -35,6 +128,14 @@ export interface TourPlan {
   };
 }
 
+// A generated tour plan kept on the device, so a link to it shows the plan again without the model.
+export interface SavedTourPlan {
+  id: string;
+  plan: TourPlan;
+  language: string; // UI language code the plan was generated in
+  savedAt: number; // epoch milliseconds
+}
+
 export interface NearbyPlace {
     name: string;
     description: string;
@@ -42,10 +143,50 @@ export interface NearbyPlace {
     mapUri: string;
     imageUrl?: string;
     audioData?: string;
+    /** The voice audioData was synthesized with, so it is regenerated after the voice changes. */
+    audioVoice?: TtsVoice;
     formatted_address?: string;
 }
 
 export interface SupportedLanguage {
   code: string;
   name: string;
-}
\ No newline at end of file
+}
+export interface LandmarkCandidate {
+  name: string;
+  confidence: number; // 0 to 1
+  reason: string;
+  transcript?: string; // sign mode only
+}
+
+export type AlbumPhotoStatus = 'queued' | 'identifying' | 'identified' | 'failed';
+
+export interface AlbumPhoto {
+  id: string;
+  file: File;
+  userImageUrl: string;
+  status: AlbumPhotoStatus;
+  metadata?: PhotoMetadata;
+  landmark?: LandmarkCandidate; // best candidate once identified
+  error?: string;
+}
+
+export interface AlbumGroup {
+  key: string;
+  landmarkName: string;
+  photos: AlbumPhoto[];
+}
+
+export type NarrationPreset = 'summary' | 'standard' | 'inDepth' | 'kids' | 'expert';
+
+/**
+ * The prebuilt voices of the TTS model that narrations can be read in.
+ */
+export type TtsVoice = 'Kore' | 'Puck' | 'Charon' | 'Zephyr' | 'Aoede' | 'Leda' | 'Sulafat' | 'Gacrux';
+
+export interface DiscoveryEntry extends Omit<LandmarkData, 'userImageUrl'> {
+  id: string;
+  imageBlob: Blob; // the user's photo, shown again through a fresh object URL
+  language: string; // UI language code the history and audio were generated in
+  savedAt: number; // epoch milliseconds
+}
@@ -1,3 +1,6 @@
+import { useSyncExternalStore } from 'react';
+import { getFileNameSlug } from './fileNames';
+
 /**
  * Decodes a base64 string into a Uint8Array.
  * This is a necessary step to process the raw audio data from the API.
@@ -14,6 +17,21 @@ function decode(base64: string): Uint8Array {
   return bytes;
 }
 
+/**
+ * Encodes bytes as a base64 string, the format the API returns audio in.
+ * @param bytes The data to encode.
+ * @returns The base64 encoded string.
+ */
+function encode(bytes: Uint8Array): string {
+  // String.fromCharCode takes its arguments on the stack, so large buffers go in chunks
+  const chunkSize = 0x8000;
+  let binaryString = '';
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binaryString += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binaryString);
+}
+
 /**
  * Decodes raw PCM audio data into an AudioBuffer that the Web Audio API can play.
  * @param data The raw audio data as a Uint8Array.
@@ -44,77 +62,525 @@ async function decodeAudioData(
 }
 
 
+// The TTS model returns 16-bit mono PCM at this rate
+const TTS_SAMPLE_RATE = 24000;
+
+/**
+ * Wraps raw 16-bit mono PCM from the TTS model in a WAV container that any player can open.
+ * @param base64Audio The raw PCM audio data, base64 encoded.
+ * @returns A WAV file as a Blob.
+ */
+export const encodeWav = (base64Audio: string): Blob => {
+  const pcm = decode(base64Audio);
+  const numChannels = 1;
+  const bytesPerSample = 2;
+  const header = new DataView(new ArrayBuffer(44));
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) {
+      header.setUint8(offset + i, value.charCodeAt(i));
+    }
+  };
+
+  // RIFF chunk descriptor
+  writeString(0, 'RIFF');
+  header.setUint32(4, 36 + pcm.byteLength, true);
+  writeString(8, 'WAVE');
+  // "fmt " sub-chunk: uncompressed PCM
+  writeString(12, 'fmt ');
+  header.setUint32(16, 16, true);
+  header.setUint16(20, 1, true);
+  header.setUint16(22, numChannels, true);
+  header.setUint32(24, TTS_SAMPLE_RATE, true);
+  header.setUint32(28, TTS_SAMPLE_RATE * numChannels * bytesPerSample, true);
+  header.setUint16(32, numChannels * bytesPerSample, true);
+  header.setUint16(34, bytesPerSample * 8, true);
+  // "data" sub-chunk
+  writeString(36, 'data');
+  header.setUint32(40, pcm.byteLength, true);
+
+  return new Blob([header.buffer, pcm], { type: 'audio/wav' });
+};
+
+/**
+ * Returns the length of raw 16-bit mono PCM from the TTS model without decoding it.
+ * @param base64Audio The raw PCM audio data, base64 encoded.
+ * @returns The duration in seconds.
+ */
+export const getAudioDuration = (base64Audio: string): number => {
+  const padding = base64Audio.endsWith('==') ? 2 : base64Audio.endsWith('=') ? 1 : 0;
+  const byteLength = (base64Audio.length * 3) / 4 - padding;
+  return byteLength / 2 / TTS_SAMPLE_RATE;
+};
+
+/**
+ * Joins clips of raw PCM from the TTS model into a single track.
+ * @param clips The clips, base64 encoded, in playing order. Empty strings add no audio.
+ * @returns The joined audio, base64 encoded, and the position in seconds where each clip starts.
+ */
+export const joinAudioClips = (clips: string[]): { audioData: string; clipStarts: number[] } => {
+  const decodedClips = clips.map(clip => decode(clip));
+  const joined = new Uint8Array(decodedClips.reduce((total, clip) => total + clip.length, 0));
+  const clipStarts: number[] = [];
+  let byteOffset = 0;
+  decodedClips.forEach(clip => {
+    clipStarts.push(byteOffset / 2 / TTS_SAMPLE_RATE);
+    joined.set(clip, byteOffset);
+    byteOffset += clip.length;
+  });
+  return { audioData: encode(joined), clipStarts };
+};
+
+// Compressed formats in order of preference, as MediaRecorder MIME types
+const COMPRESSED_AUDIO_FORMATS = [
+  { mimeType: 'audio/webm;codecs=opus', extension: 'webm' },
+  { mimeType: 'audio/ogg;codecs=opus', extension: 'ogg' },
+  { mimeType: 'audio/mp4', extension: 'm4a' },
+];
+
+// WebCodecs encodes Opus much faster than real time; the packets are stored in an Ogg file
+const OGG_OPUS_FORMAT = { mimeType: 'audio/ogg;codecs=opus', extension: 'ogg' };
+const OPUS_BITRATE = 32000;
+// Opus always counts samples at 48 kHz, and libopus starts with this many samples of encoder delay
+const OPUS_GRANULE_RATE = 48000;
+const OPUS_PRE_SKIP = 312;
+const OGG_SERIAL_NUMBER = 0x53434f55;
+
+// Real-time recording ends on its own after the narration; this is how much longer it may take
+const RECORDING_TIMEOUT_MARGIN_MS = 10000;
+
+const canEncodeWithWebCodecs = (): boolean => typeof AudioEncoder !== 'undefined' && typeof AudioData !== 'undefined';
+
+const getRecorderFormat = (): { mimeType: string; extension: string } | null => {
+  if (typeof MediaRecorder === 'undefined') return null;
+  return COMPRESSED_AUDIO_FORMATS.find(format => MediaRecorder.isTypeSupported(format.mimeType)) || null;
+};
+
+/**
+ * Returns the compressed format this browser can produce: Ogg Opus through WebCodecs, or
+ * what MediaRecorder can record. Returns null if it can encode none of them.
+ */
+export const getCompressedAudioFormat = (): { mimeType: string; extension: string } | null =>
+  canEncodeWithWebCodecs() ? OGG_OPUS_FORMAT : getRecorderFormat();
+
+// Ogg pages are checksummed with CRC-32 over the polynomial 0x04c11db7, without bit reflection
+const OGG_CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let crc = i << 24;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1;
+    }
+    table[i] = crc >>> 0;
+  }
+  return table;
+})();
+
+const getOggCrc = (bytes: Uint8Array): number => {
+  let crc = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = ((crc << 8) ^ OGG_CRC_TABLE[((crc >>> 24) ^ bytes[i]) & 0xff]) >>> 0;
+  }
+  return crc;
+};
+
+/**
+ * Returns how many lacing values a packet takes in an Ogg page: one per 255 bytes, ending
+ * with a value below 255.
+ */
+const getOggSegmentCount = (packet: Uint8Array): number => Math.floor(packet.length / 255) + 1;
+
+/**
+ * Builds an Ogg page holding whole packets.
+ * @param packets The packets, whose lacing values must fit in one page.
+ * @param granulePosition The position at the end of the last packet, in 48 kHz samples.
+ * @param sequence The number of the page in the stream.
+ * @param headerType 0x02 for the first page, 0x04 for the last one, 0 otherwise.
+ */
+const buildOggPage = (packets: Uint8Array[], granulePosition: number, sequence: number, headerType: number): Uint8Array => {
+  const lacingValues: number[] = [];
+  packets.forEach(packet => {
+    for (let i = 1; i < getOggSegmentCount(packet); i++) lacingValues.push(255);
+    lacingValues.push(packet.length % 255);
+  });
+  const headerLength = 27 + lacingValues.length;
+  const page = new Uint8Array(headerLength + packets.reduce((total, packet) => total + packet.length, 0));
+  const view = new DataView(page.buffer);
+  page.set([0x4f, 0x67, 0x67, 0x53]); // "OggS", then stream structure version 0
+  view.setUint8(5, headerType);
+  view.setBigUint64(6, BigInt(granulePosition), true);
+  view.setUint32(14, OGG_SERIAL_NUMBER, true);
+  view.setUint32(18, sequence, true);
+  view.setUint8(26, lacingValues.length);
+  page.set(lacingValues, 27);
+  let offset = headerLength;
+  packets.forEach(packet => {
+    page.set(packet, offset);
+    offset += packet.length;
+  });
+  // The checksum is computed with its own field still zeroed
+  view.setUint32(22, getOggCrc(page), true);
+  return page;
+};
+
+/**
+ * Stores Opus packets in an Ogg file, with the identification and comment headers of RFC 7845.
+ * @param packets The encoded packets in order, with their length in 48 kHz samples.
+ * @param sampleCount The length of the original audio in 48 kHz samples, used to trim the padding of the last packet.
+ */
+const buildOggOpusFile = (packets: { data: Uint8Array; duration: number }[], sampleCount: number): Blob => {
+  const textEncoder = new TextEncoder();
+  const idHeader = new Uint8Array(19);
+  const idView = new DataView(idHeader.buffer);
+  idHeader.set(textEncoder.encode('OpusHead'));
+  idHeader[8] = 1; // version
+  idHeader[9] = 1; // mono
+  idView.setUint16(10, OPUS_PRE_SKIP, true);
+  idView.setUint32(12, TTS_SAMPLE_RATE, true);
+  // Output gain 0 and channel mapping family 0 are left as zeros
+
+  const vendor = textEncoder.encode('Scout AI');
+  const commentHeader = new Uint8Array(8 + 4 + vendor.length + 4);
+  commentHeader.set(textEncoder.encode('OpusTags'));
+  new DataView(commentHeader.buffer).setUint32(8, vendor.length, true);
+  commentHeader.set(vendor, 12);
+  // No user comments: the trailing count stays zero
+
+  const pages = [buildOggPage([idHeader], 0, 0, 0x02), buildOggPage([commentHeader], 0, 1, 0)];
+  let pagePackets: Uint8Array[] = [];
+  let pageSegments = 0;
+  let granulePosition = 0;
+  const addPage = (isLast: boolean) => {
+    const position = isLast ? Math.min(granulePosition, OPUS_PRE_SKIP + sampleCount) : granulePosition;
+    pages.push(buildOggPage(pagePackets, position, pages.length, isLast ? 0x04 : 0));
+    pagePackets = [];
+    pageSegments = 0;
+  };
+  packets.forEach(({ data, duration }) => {
+    const segments = getOggSegmentCount(data);
+    if (pageSegments + segments > 255) addPage(false);
+    pagePackets.push(data);
+    pageSegments += segments;
+    granulePosition += duration;
+  });
+  addPage(true);
+  return new Blob(pages, { type: OGG_OPUS_FORMAT.mimeType });
+};
+
+/**
+ * Encodes raw PCM from the TTS model to Opus with WebCodecs, much faster than real time.
+ * @returns The Ogg Opus file, or null if this browser's encoder does not support Opus.
+ */
+const encodeOggOpus = async (pcm: Uint8Array, signal?: AbortSignal): Promise<Blob | null> => {
+  const config: AudioEncoderConfig = { codec: 'opus', sampleRate: TTS_SAMPLE_RATE, numberOfChannels: 1, bitrate: OPUS_BITRATE };
+  const { supported } = await AudioEncoder.isConfigSupported(config);
+  if (!supported) return null;
+  signal?.throwIfAborted();
+
+  const packets: { data: Uint8Array; duration: number }[] = [];
+  const encoder = new AudioEncoder({
+    output: chunk => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      packets.push({ data, duration: Math.round(((chunk.duration ?? 20000) * OPUS_GRANULE_RATE) / 1e6) });
+    },
+    // The error also rejects flush(), which reports it
+    error: error => console.error("Opus encoding failed:", error),
+  });
+  const samples = new Int16Array(pcm.buffer, pcm.byteOffset, pcm.byteLength / 2);
+  try {
+    encoder.configure(config);
+    const audioData = new AudioData({ format: 's16', sampleRate: TTS_SAMPLE_RATE, numberOfChannels: 1, numberOfFrames: samples.length, timestamp: 0, data: samples });
+    encoder.encode(audioData);
+    audioData.close();
+    await encoder.flush();
+  } finally {
+    if (encoder.state !== 'closed') encoder.close();
+  }
+  signal?.throwIfAborted();
+  return buildOggOpusFile(packets, Math.round((samples.length * OPUS_GRANULE_RATE) / TTS_SAMPLE_RATE));
+};
+
+/**
+ * Encodes raw PCM from the TTS model with MediaRecorder. The audio is played silently into the
+ * recorder, so encoding takes as long as the narration itself; it fails if the recording does
+ * not finish in that time plus a margin, e.g. because the browser keeps the audio suspended.
+ */
+const recordCompressedAudio = async (pcm: Uint8Array, format: { mimeType: string }, signal?: AbortSignal): Promise<Blob> => {
+  const ctx = new AudioContext({ sampleRate: TTS_SAMPLE_RATE });
+  try {
+    // A context created outside a user gesture starts suspended and would never play into the recorder
+    await ctx.resume();
+    const audioBuffer = await decodeAudioData(pcm, ctx, TTS_SAMPLE_RATE, 1);
+    const destination = ctx.createMediaStreamDestination();
+    const source = ctx.createBufferSource();
+    source.buffer = audioBuffer;
+    source.connect(destination);
+
+    const recorder = new MediaRecorder(destination.stream, { mimeType: format.mimeType });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+
+    return await new Promise<Blob>((resolve, reject) => {
+      let timeout: ReturnType<typeof setTimeout> | undefined;
+      const fail = (reason: unknown) => {
+        clearTimeout(timeout);
+        signal?.removeEventListener('abort', handleAbort);
+        recorder.onstop = null;
+        source.onended = null;
+        if (recorder.state !== 'inactive') recorder.stop();
+        reject(reason);
+      };
+      const handleAbort = () => fail(signal?.reason);
+      signal?.addEventListener('abort', handleAbort, { once: true });
+      timeout = setTimeout(() => fail(new Error('Audio recording timed out.')), audioBuffer.duration * 1000 + RECORDING_TIMEOUT_MARGIN_MS);
+      recorder.onstop = () => {
+        clearTimeout(timeout);
+        signal?.removeEventListener('abort', handleAbort);
+        resolve(new Blob(chunks, { type: format.mimeType }));
+      };
+      recorder.onerror = () => fail(new Error('Audio recording failed.'));
+      source.onended = () => recorder.stop();
+      recorder.start();
+      source.start();
+    });
+  } finally {
+    ctx.close();
+  }
+};
+
+/**
+ * Encodes raw PCM from the TTS model into a compressed file: Ogg Opus through WebCodecs where
+ * the browser supports it, or otherwise a real-time MediaRecorder recording.
+ * @param base64Audio The raw PCM audio data, base64 encoded.
+ * @param signal Cancels the encoding.
+ * @returns A promise that resolves with the compressed audio and its file extension.
+ */
+export const encodeCompressedAudio = async (base64Audio: string, signal?: AbortSignal): Promise<{ blob: Blob; extension: string }> => {
+  signal?.throwIfAborted();
+  const pcm = decode(base64Audio);
+  if (canEncodeWithWebCodecs()) {
+    const blob = await encodeOggOpus(pcm, signal);
+    if (blob) return { blob, extension: OGG_OPUS_FORMAT.extension };
+  }
+
+  const format = getRecorderFormat();
+  if (!format) {
+    throw new Error('Compressed audio encoding is not supported in this browser.');
+  }
+  return { blob: await recordCompressedAudio(pcm, format, signal), extension: format.extension };
+};
+
+/**
+ * Builds a download file name for a narration, e.g. "eiffel-tower-audio-guide.wav".
+ * @param title The landmark or place name.
+ * @param extension The file extension, without the dot.
+ */
+export const getAudioFileName = (title: string, extension: string): string =>
+  `${getFileNameSlug(title, 'narration')}-audio-guide.${extension}`;
+
+export type AudioPlaybackStatus = 'idle' | 'playing' | 'paused';
+
+/**
+ * A snapshot of the player, replaced on every change so it can be compared by reference.
+ */
+export interface AudioPlayerState {
+    /** 'idle' when nothing is loaded; a finished track stays loaded, paused at the start. */
+    status: AudioPlaybackStatus;
+    /** Identifies what is loaded, so each component can tell whether the player is playing its audio. */
+    trackId: string | null;
+    /** Position in seconds. */
+    currentTime: number;
+    /** Length of the loaded track in seconds, 0 when idle. */
+    duration: number;
+    playbackRate: number;
+}
+
+export const MIN_PLAYBACK_RATE = 0.75;
+export const MAX_PLAYBACK_RATE = 2;
+
+// How often listeners hear about the position while audio is playing
+const PROGRESS_INTERVAL_MS = 250;
+
 /**
- * A robust audio player for handling raw PCM audio streams from the Gemini API.
- * It encapsulates the Web Audio API for clean, stateful playback control.
+ * Returns true for the rejection of a play() that a later pause or source change interrupted.
+ */
+const isInterruptedPlay = (error: unknown): boolean => error instanceof DOMException && error.name === 'AbortError';
+
+/**
+ * A stateful player for the raw PCM audio from the Gemini API, shared by the whole app.
+ * Each track is wrapped in a WAV file and played by a single audio element, which keeps the
+ * pitch of the voice when the speed changes and keeps the track while paused, so playback
+ * can resume and seek without preparing it again. Reusing one element also keeps a walking
+ * tour allowed to move on to the next place without a tap.
+ * Components read the player's state through subscribe() and getState(), or useAudioPlayerState().
  */
 class AudioPlayer {
-    private audioContext: AudioContext | null = null;
-    private sourceNode: AudioBufferSourceNode | null = null;
-    private _isPlaying: boolean = false;
+    private audio: HTMLAudioElement | null = null;
+    // The WAV file of the loaded track, revoked when it is unloaded
+    private trackUrl: string | null = null;
     private onPlaybackEnd: (() => void) | null = null;
+    // Incremented by every play() and stop(), so a play() still starting can tell it was replaced
+    private playCount = 0;
+    private progressTimer: ReturnType<typeof setInterval> | null = null;
+    private listeners = new Set<() => void>();
+    private state: AudioPlayerState = { status: 'idle', trackId: null, currentTime: 0, duration: 0, playbackRate: 1 };
+
+    private getAudio(): HTMLAudioElement {
+        if (!this.audio) {
+            this.audio = new Audio();
+            this.audio.preservesPitch = true;
+            this.audio.addEventListener('ended', () => this.handleEnded());
+        }
+        return this.audio;
+    }
+
+    private setState(changes: Partial<AudioPlayerState>) {
+        this.state = { ...this.state, ...changes };
+        this.listeners.forEach(listener => listener());
+    }
+
+    private startProgressUpdates() {
+        this.stopProgressUpdates();
+        this.progressTimer = setInterval(() => {
+            if (this.audio) this.setState({ currentTime: this.audio.currentTime });
+        }, PROGRESS_INTERVAL_MS);
+    }
 
-    private getContext(): AudioContext {
-        if (!this.audioContext || this.audioContext.state === 'closed') {
-            this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+    private stopProgressUpdates() {
+        if (this.progressTimer !== null) {
+            clearInterval(this.progressTimer);
+            this.progressTimer = null;
         }
-        return this.audioContext;
+    }
+
+    private handleEnded() {
+        this.stopProgressUpdates();
+        if (this.audio) this.audio.currentTime = 0;
+        this.setState({ status: 'paused', currentTime: 0 });
+        this.onPlaybackEnd?.();
     }
 
     /**
-     * Plays audio from a base64 encoded string.
+     * Plays audio from a base64 encoded string, replacing whatever is loaded.
      * @param base64Audio The raw PCM audio data, base64 encoded.
      * @param onEnd A callback function to execute when playback finishes.
+     * @param trackId Identifies the audio in the player's state, e.g. the landmark or place name.
+     * @param startAt The position in seconds to start playing from.
      */
-    async play(base64Audio: string, onEnd?: () => void) {
-        if (this._isPlaying) {
-            this.stop();
+    async play(base64Audio: string, onEnd?: () => void, trackId: string | null = null, startAt = 0) {
+        this.stop();
+        const playId = this.playCount;
+
+        const audio = this.getAudio();
+        const duration = getAudioDuration(base64Audio);
+        const position = Math.min(Math.max(0, startAt), duration);
+        this.trackUrl = URL.createObjectURL(encodeWav(base64Audio));
+        audio.src = this.trackUrl;
+        // Loading a source resets the speed to the default one
+        audio.defaultPlaybackRate = this.state.playbackRate;
+        audio.playbackRate = this.state.playbackRate;
+        audio.currentTime = position;
+        this.onPlaybackEnd = onEnd || null;
+
+        try {
+            await audio.play();
+        } catch (error) {
+            if (playId !== this.playCount && isInterruptedPlay(error)) return;
+            throw error;
         }
+        if (playId !== this.playCount) return;
+
+        this.setState({ status: 'playing', trackId, currentTime: position, duration });
+        this.startProgressUpdates();
+    }
+
+    /**
+     * Pauses playback, keeping the track and the position.
+     */
+    pause() {
+        if (this.state.status !== 'playing' || !this.audio) return;
+        this.audio.pause();
+        this.stopProgressUpdates();
+        this.setState({ status: 'paused', currentTime: this.audio.currentTime });
+    }
 
-        const ctx = this.getContext();
-        if (ctx.state === 'suspended') {
-            await ctx.resume();
+    /**
+     * Resumes a paused track from its position.
+     */
+    async resume() {
+        if (this.state.status !== 'paused' || !this.audio) return;
+        const playId = this.playCount;
+        try {
+            await this.audio.play();
+        } catch (error) {
+            if (isInterruptedPlay(error)) return;
+            throw error;
         }
+        if (playId !== this.playCount) return;
+        this.setState({ status: 'playing', currentTime: this.audio.currentTime });
+        this.startProgressUpdates();
+    }
 
-        const decodedBytes = decode(base64Audio);
-        const audioBuffer = await decodeAudioData(decodedBytes, ctx, 24000, 1);
+    /**
+     * Pauses the track if it is playing, or resumes it if it is paused.
+     * @param trackId The track the user's play/pause button belongs to.
+     * @returns False if that track is not the one loaded, in which case nothing changes.
+     */
+    toggle(trackId: string): boolean {
+        if (this.state.trackId !== trackId || this.state.status === 'idle') return false;
+        if (this.state.status === 'playing') {
+            this.pause();
+        } else {
+            this.resume().catch(error => console.error("Failed to resume audio:", error));
+        }
+        return true;
+    }
 
-        this.sourceNode = ctx.createBufferSource();
-        this.sourceNode.buffer = audioBuffer;
-        this.sourceNode.connect(ctx.destination);
-        
-        this.onPlaybackEnd = onEnd || null;
-        
-        this.sourceNode.onended = () => {
-            // This event fires on both natural end and manual `stop()`.
-            // We only want to trigger the callback on natural end.
-            if (this._isPlaying) {
-              this._isPlaying = false;
-              if (this.onPlaybackEnd) {
-                  this.onPlaybackEnd();
-              }
-            }
-        };
+    /**
+     * Moves to a position in the loaded track, continuing to play if it was playing.
+     * @param time The position in seconds; clamped to the track.
+     */
+    seek(time: number) {
+        if (this.state.status === 'idle' || !this.audio) return;
+        const position = Math.min(Math.max(0, time), this.state.duration);
+        this.audio.currentTime = position;
+        this.setState({ currentTime: position });
+    }
 
-        this.sourceNode.start();
-        this._isPlaying = true;
+    /**
+     * Changes the playback speed, including for the track that is playing. The pitch of the
+     * voice stays the same at every speed.
+     * @param rate The speed, clamped between MIN_PLAYBACK_RATE and MAX_PLAYBACK_RATE.
+     */
+    setPlaybackRate(rate: number) {
+        const playbackRate = Math.min(Math.max(rate, MIN_PLAYBACK_RATE), MAX_PLAYBACK_RATE);
+        if (this.audio) {
+            this.audio.defaultPlaybackRate = playbackRate;
+            this.audio.playbackRate = playbackRate;
+        }
+        this.setState({ playbackRate });
     }
 
     /**
-     * Stops the currently playing audio.
+     * Stops the currently playing audio and unloads it. The end callback is not called.
      */
     stop() {
-        if (this.sourceNode) {
-            this._isPlaying = false; // Set state before stopping to prevent onended callback logic
-            this.sourceNode.onended = null; // Detach listener
-            try {
-                this.sourceNode.stop();
-            } catch (e) {
-                // The AudioBufferSourceNode can only be stopped once.
-                console.warn("Audio source could not be stopped:", e);
-            } finally {
-                this.sourceNode = null;
-            }
+        this.playCount++;
+        this.stopProgressUpdates();
+        this.onPlaybackEnd = null;
+        if (this.audio) {
+            this.audio.pause();
+            this.audio.removeAttribute('src');
+            this.audio.load();
+        }
+        if (this.trackUrl) {
+            URL.revokeObjectURL(this.trackUrl);
+            this.trackUrl = null;
+        }
+        if (this.state.status !== 'idle') {
+            this.setState({ status: 'idle', trackId: null, currentTime: 0, duration: 0 });
         }
     }
     
@@ -122,20 +588,40 @@ class AudioPlayer {
      * Returns the current playback state.
      */
     get isPlaying(): boolean {
-        return this._isPlaying;
+        return this.state.status === 'playing';
     }
 
     /**
-     * Closes the audio context to release resources. Call this when the player is no longer needed.
+     * Registers a listener called on every state change.
+     * @returns A function that removes the listener.
+     */
+    subscribe = (listener: () => void): (() => void) => {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    };
+
+    /**
+     * Returns the current state snapshot.
+     */
+    getState = (): AudioPlayerState => this.state;
+
+    /**
+     * Unloads the track and releases the audio element. Call this when the player is no longer needed.
      */
     destroy() {
         this.stop();
-        if (this.audioContext && this.audioContext.state !== 'closed') {
-            this.audioContext.close();
-            this.audioContext = null;
-        }
+        this.audio = null;
     }
 }
 
 // Export a singleton instance of the AudioPlayer for the app to use.
-export const audioPlayer = new AudioPlayer();
\ No newline at end of file
+export const audioPlayer = new AudioPlayer();
+
+/**
+ * Subscribes a component to the shared player's state and re-renders it on every change.
+ * @returns The current state of the player.
+ */
+export const useAudioPlayerState = (): AudioPlayerState =>
+    useSyncExternalStore(audioPlayer.subscribe, audioPlayer.getState);
@@ -0,0 +1,86 @@
+import type { DiscoveryEntry } from '../types';
+
+const DB_NAME = 'scout-ai';
+const DB_VERSION = 1;
+const STORE_NAME = 'discoveries';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Wraps an IndexedDB request in a promise.
+ */
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+/**
+ * Opens the journal database once per session, creating the object store on first use.
+ * A failed open is not cached, so the next call tries again.
+ */
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error('IndexedDB is not available in this browser.'));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(STORE_NAME)) {
+                    db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+            request.onblocked = () => reject(new Error('The discovery journal is open in another tab with an older version.'));
+        }).catch(error => {
+            dbPromise = null;
+            throw error;
+        });
+    }
+    return dbPromise;
+};
+
+/**
+ * Runs a single request against the discoveries store and resolves when it completes.
+ */
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(STORE_NAME, mode);
+    return promisifyRequest(run(transaction.objectStore(STORE_NAME)));
+};
+
+/**
+ * Saves a discovery, replacing any entry with the same id.
+ * @param entry The discovery to store, including its image blob and audio.
+ */
+export const saveDiscovery = async (entry: DiscoveryEntry): Promise<void> => {
+    await withStore('readwrite', store => store.put(entry));
+};
+
+/**
+ * Returns every saved discovery, newest first.
+ */
+export const getDiscoveries = async (): Promise<DiscoveryEntry[]> => {
+    const entries = await withStore<DiscoveryEntry[]>('readonly', store => store.getAll());
+    return entries.sort((a, b) => b.savedAt - a.savedAt);
+};
+
+/**
+ * Returns a single discovery, or undefined if there is no entry with that id.
+ * @param id The id of the entry to read.
+ */
+export const getDiscovery = async (id: string): Promise<DiscoveryEntry | undefined> => {
+    return withStore<DiscoveryEntry | undefined>('readonly', store => store.get(id));
+};
+
+/**
+ * Permanently removes a discovery from the journal.
+ * @param id The id of the entry to delete.
+ */
+export const deleteDiscovery = async (id: string): Promise<void> => {
+    await withStore('readwrite', store => store.delete(id));
+};
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { readPhotoMetadata } from './exif';
+
+const bytes = (...values: number[]): Uint8Array => new Uint8Array(values);
+const ascii = (text: string): Uint8Array => new Uint8Array([...text].map(char => char.charCodeAt(0)));
+const uint16 = (value: number, littleEndian = false): Uint8Array => {
+    const array = new Uint8Array(2);
+    new DataView(array.buffer).setUint16(0, value, littleEndian);
+    return array;
+};
+const uint32 = (value: number, littleEndian = false): Uint8Array => {
+    const array = new Uint8Array(4);
+    new DataView(array.buffer).setUint32(0, value, littleEndian);
+    return array;
+};
+const concat = (...parts: Uint8Array[]): Uint8Array => {
+    const result = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        result.set(part, offset);
+        offset += part.length;
+    }
+    return result;
+};
+
+const entry = (tag: number, type: number, count: number, value: Uint8Array) =>
+    concat(uint16(tag, true), uint16(type, true), uint32(count, true), value);
+const rational = (numerator: number, denominator: number) => concat(uint32(numerator, true), uint32(denominator, true));
+
+/**
+ * A little-endian TIFF block with the orientation, the capture time and the GPS position
+ * of the Eiffel Tower, laid out by hand.
+ */
+const tiff = concat(
+    ascii('II'), uint16(42, true), uint32(8, true),
+    // IFD0 at 8: orientation, date-time at 50 and the GPS IFD at 70
+    uint16(3, true),
+    entry(0x0112, 3, 1, concat(uint16(6, true), uint16(0))),
+    entry(0x0132, 2, 20, uint32(50, true)),
+    entry(0x8825, 4, 1, uint32(70, true)),
+    uint32(0),
+    ascii('2024:05:01 14:30:00\0'),
+    // GPS IFD at 70: latitude at 124 and longitude at 148
+    uint16(4, true),
+    entry(0x0001, 2, 2, ascii('N\0\0\0')),
+    entry(0x0002, 5, 3, uint32(124, true)),
+    entry(0x0003, 2, 2, ascii('E\0\0\0')),
+    entry(0x0004, 5, 3, uint32(148, true)),
+    uint32(0),
+    rational(48, 1), rational(51, 1), rational(2976, 100),
+    rational(2, 1), rational(17, 1), rational(4020, 100),
+);
+
+const box = (type: string, ...content: Uint8Array[]): Uint8Array => {
+    const body = concat(...content);
+    return concat(uint32(8 + body.length), ascii(type), body);
+};
+
+/**
+ * A HEIC file with an image item and an EXIF item stored in `mdat`, as iPhones write them.
+ */
+const buildHeic = (): Uint8Array => {
+    const ftyp = box('ftyp', ascii('heic'), uint32(0), ascii('mif1heic'));
+    const iinf = box('iinf', uint32(0), uint16(2),
+        box('infe', bytes(2, 0, 0, 0), uint16(1), uint16(0), ascii('hvc1'), bytes(0)),
+        box('infe', bytes(2, 0, 0, 0), uint16(2), uint16(0), ascii('Exif'), bytes(0)),
+    );
+    const exifItem = concat(uint32(6), ascii('Exif\0\0'), tiff);
+    const buildIloc = (exifOffset: number) => box('iloc', uint32(0), uint16(0x4400), uint16(2),
+        uint16(1), uint16(0), uint16(1), uint32(0), uint32(0),
+        uint16(2), uint16(0), uint16(1), uint32(exifOffset), uint32(exifItem.length),
+    );
+    const buildMeta = (exifOffset: number) => box('meta', uint32(0), box('hdlr', uint32(0), uint32(0), ascii('pict'), new Uint8Array(13)), iinf, buildIloc(exifOffset));
+    // The EXIF item follows the `mdat` header, which follows `ftyp` and `meta`
+    const exifOffset = ftyp.length + buildMeta(0).length + 8;
+    return concat(ftyp, buildMeta(exifOffset), box('mdat', exifItem));
+};
+
+const expectedMetadata = {
+    orientation: 6,
+    capturedAt: '2024-05-01T14:30:00',
+    location: { latitude: expect.closeTo(48.858267, 5), longitude: expect.closeTo(2.2945, 5) },
+};
+
+describe('readPhotoMetadata', () => {
+    it('reads the EXIF block of a JPEG', async () => {
+        const app1 = concat(ascii('Exif\0\0'), tiff);
+        const jpeg = concat(bytes(0xff, 0xd8, 0xff, 0xe1), uint16(2 + app1.length), app1, bytes(0xff, 0xda));
+        expect(await readPhotoMetadata(new Blob([jpeg]))).toEqual(expectedMetadata);
+    });
+
+    it('reads the EXIF item of a HEIC photo', async () => {
+        expect(await readPhotoMetadata(new Blob([buildHeic()]))).toEqual(expectedMetadata);
+    });
+
+    it('resolves to no metadata for files without EXIF', async () => {
+        expect(await readPhotoMetadata(new Blob([ascii('\x89PNG\r\n\x1a\n')]))).toEqual({});
+        expect(await readPhotoMetadata(new Blob([box('ftyp', ascii('heic'), uint32(0))]))).toEqual({});
+    });
+});
@@ -0,0 +1,316 @@
+import type { PhotoMetadata } from '../types';
+
+// Only the start of the file is read; the EXIF block sits in the first APP1 segment of a JPEG,
+// and the box that locates it in the first few kilobytes of a HEIC file.
+const EXIF_SCAN_BYTES = 256 * 1024;
+// Larger EXIF items are not metadata this parser can use.
+const MAX_HEIC_EXIF_BYTES = 1024 * 1024;
+
+const TAG_ORIENTATION = 0x0112;
+const TAG_DATE_TIME = 0x0132;
+const TAG_EXIF_IFD_POINTER = 0x8769;
+const TAG_GPS_IFD_POINTER = 0x8825;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_GPS_LATITUDE_REF = 0x0001;
+const TAG_GPS_LATITUDE = 0x0002;
+const TAG_GPS_LONGITUDE_REF = 0x0003;
+const TAG_GPS_LONGITUDE = 0x0004;
+
+/**
+ * A minimal reader for the TIFF structure embedded in a JPEG APP1 segment or a HEIC EXIF item.
+ * Offsets stored in the entries are relative to the start of the TIFF header.
+ */
+class TiffReader {
+    constructor(
+        private view: DataView,
+        private tiffStart: number,
+        private littleEndian: boolean,
+    ) {}
+
+    uint16(offset: number): number {
+        return this.view.getUint16(offset, this.littleEndian);
+    }
+
+    uint32(offset: number): number {
+        return this.view.getUint32(offset, this.littleEndian);
+    }
+
+    /**
+     * Reads an image file directory and maps each tag to the offset of its 12-byte entry.
+     * @param ifdOffset The IFD offset relative to the TIFF header.
+     */
+    readIfd(ifdOffset: number): Map<number, number> {
+        const entries = new Map<number, number>();
+        const start = this.tiffStart + ifdOffset;
+        const count = this.uint16(start);
+        for (let i = 0; i < count; i++) {
+            const entryOffset = start + 2 + i * 12;
+            entries.set(this.uint16(entryOffset), entryOffset);
+        }
+        return entries;
+    }
+
+    /**
+     * Returns where an entry's value lives: inline when it fits in 4 bytes, otherwise at the stored offset.
+     */
+    private valueOffset(entryOffset: number, byteLength: number): number {
+        return byteLength <= 4 ? entryOffset + 8 : this.tiffStart + this.uint32(entryOffset + 8);
+    }
+
+    ascii(entryOffset: number): string {
+        const count = this.uint32(entryOffset + 4);
+        const start = this.valueOffset(entryOffset, count);
+        let text = '';
+        for (let i = 0; i < count; i++) {
+            const code = this.view.getUint8(start + i);
+            if (code === 0) break;
+            text += String.fromCharCode(code);
+        }
+        return text;
+    }
+
+    short(entryOffset: number): number {
+        return this.uint16(entryOffset + 8);
+    }
+
+    long(entryOffset: number): number {
+        return this.uint32(entryOffset + 8);
+    }
+
+    rationals(entryOffset: number): number[] {
+        const count = this.uint32(entryOffset + 4);
+        const start = this.valueOffset(entryOffset, count * 8);
+        const values: number[] = [];
+        for (let i = 0; i < count; i++) {
+            const numerator = this.uint32(start + i * 8);
+            const denominator = this.uint32(start + i * 8 + 4);
+            values.push(denominator ? numerator / denominator : 0);
+        }
+        return values;
+    }
+}
+
+/**
+ * Converts an EXIF "YYYY:MM:DD HH:MM:SS" timestamp into an ISO 8601 local date-time string.
+ * EXIF stores the camera's local time without a time zone, so none is added.
+ * @param value The raw EXIF timestamp.
+ * @returns The ISO string, or undefined if the value is malformed.
+ */
+const parseExifDate = (value: string): string | undefined => {
+    const match = value.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+    if (!match) return undefined;
+    const [, year, month, day, hour, minute, second] = match;
+    if (year === '0000') return undefined;
+    return `${year}-${month}-${day}T${hour}:${minute}:${second}`;
+};
+
+/**
+ * Converts degrees/minutes/seconds and a hemisphere reference into signed decimal degrees.
+ */
+const toDecimalDegrees = ([degrees = 0, minutes = 0, seconds = 0]: number[], ref: string): number => {
+    const value = degrees + minutes / 60 + seconds / 3600;
+    return ref === 'S' || ref === 'W' ? -value : value;
+};
+
+/**
+ * Extracts the metadata Scout AI cares about from a TIFF block.
+ */
+const readTiffMetadata = (view: DataView, tiffStart: number): PhotoMetadata => {
+    const byteOrder = view.getUint16(tiffStart);
+    if (byteOrder !== 0x4949 && byteOrder !== 0x4d4d) return {};
+
+    const reader = new TiffReader(view, tiffStart, byteOrder === 0x4949);
+    const ifd0 = reader.readIfd(reader.uint32(tiffStart + 4));
+    const metadata: PhotoMetadata = {};
+
+    const orientationEntry = ifd0.get(TAG_ORIENTATION);
+    if (orientationEntry !== undefined) {
+        const orientation = reader.short(orientationEntry);
+        if (orientation >= 1 && orientation <= 8) metadata.orientation = orientation;
+    }
+
+    // Prefer the moment the shutter fired over the file's last modification time.
+    const exifPointer = ifd0.get(TAG_EXIF_IFD_POINTER);
+    const exifIfd = exifPointer !== undefined ? reader.readIfd(reader.long(exifPointer)) : null;
+    const dateEntry = exifIfd?.get(TAG_DATE_TIME_ORIGINAL) ?? ifd0.get(TAG_DATE_TIME);
+    if (dateEntry !== undefined) {
+        metadata.capturedAt = parseExifDate(reader.ascii(dateEntry));
+    }
+
+    const gpsPointer = ifd0.get(TAG_GPS_IFD_POINTER);
+    if (gpsPointer !== undefined) {
+        const gpsIfd = reader.readIfd(reader.long(gpsPointer));
+        const latitudeEntry = gpsIfd.get(TAG_GPS_LATITUDE);
+        const longitudeEntry = gpsIfd.get(TAG_GPS_LONGITUDE);
+        const latitudeRefEntry = gpsIfd.get(TAG_GPS_LATITUDE_REF);
+        const longitudeRefEntry = gpsIfd.get(TAG_GPS_LONGITUDE_REF);
+        if (latitudeEntry !== undefined && longitudeEntry !== undefined) {
+            const latitude = toDecimalDegrees(reader.rationals(latitudeEntry), latitudeRefEntry !== undefined ? reader.ascii(latitudeRefEntry) : 'N');
+            const longitude = toDecimalDegrees(reader.rationals(longitudeEntry), longitudeRefEntry !== undefined ? reader.ascii(longitudeRefEntry) : 'E');
+            // Cameras without a fix often write 0/0, which would place the photo off the coast of Africa.
+            const isValid = Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180 && (latitude !== 0 || longitude !== 0);
+            if (isValid) metadata.location = { latitude, longitude };
+        }
+    }
+
+    return metadata;
+};
+
+/**
+ * An ISOBMFF box: its four-character type and where its content starts and ends.
+ */
+interface Box {
+    type: string;
+    start: number;
+    end: number;
+}
+
+const fourCC = (view: DataView, offset: number): string =>
+    String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+
+/**
+ * Reads an unsigned big-endian integer of 0, 4 or 8 bytes, as the variable-size fields of `iloc` are stored.
+ */
+const readUint = (view: DataView, offset: number, size: number): number => {
+    if (size === 0) return 0;
+    if (size === 4) return view.getUint32(offset);
+    if (size === 8) return view.getUint32(offset) * 2 ** 32 + view.getUint32(offset + 4);
+    throw new Error(`Unsupported field size ${size}`);
+};
+
+/**
+ * Lists the boxes between two offsets. A box running past the end is cut short,
+ * since only the start of the file is read.
+ */
+const readBoxes = (view: DataView, start: number, end: number): Box[] => {
+    const boxes: Box[] = [];
+    let offset = start;
+    while (offset + 8 <= end) {
+        let size = view.getUint32(offset);
+        let headerSize = 8;
+        if (size === 1) {
+            size = readUint(view, offset + 8, 8);
+            headerSize = 16;
+        } else if (size === 0) {
+            size = end - offset;
+        }
+        if (size < headerSize) break;
+        boxes.push({ type: fourCC(view, offset + 4), start: offset + headerSize, end: Math.min(offset + size, end) });
+        offset += size;
+    }
+    return boxes;
+};
+
+/**
+ * Finds the item id of the EXIF block in an `iinf` box.
+ */
+const findExifItemId = (view: DataView, iinf: Box): number | undefined => {
+    const version = view.getUint8(iinf.start);
+    const entriesStart = iinf.start + 4 + (version === 0 ? 2 : 4);
+    for (const infe of readBoxes(view, entriesStart, iinf.end)) {
+        if (infe.type !== 'infe') continue;
+        // Item types were only added in version 2 of the item info entry.
+        const infeVersion = view.getUint8(infe.start);
+        if (infeVersion < 2) continue;
+        const idSize = infeVersion === 2 ? 2 : 4;
+        const itemId = idSize === 2 ? view.getUint16(infe.start + 4) : view.getUint32(infe.start + 4);
+        if (fourCC(view, infe.start + 4 + idSize + 2) === 'Exif') return itemId;
+    }
+    return undefined;
+};
+
+/**
+ * Finds where an item's data lies in the file from an `iloc` box. Only items stored as
+ * a single extent of the file itself are supported, which is how phones write the EXIF block.
+ */
+const findItemLocation = (view: DataView, iloc: Box, itemId: number): { offset: number; length: number } | undefined => {
+    const version = view.getUint8(iloc.start);
+    const sizes = view.getUint16(iloc.start + 4);
+    const offsetSize = sizes >> 12;
+    const lengthSize = (sizes >> 8) & 0xf;
+    const baseOffsetSize = (sizes >> 4) & 0xf;
+    const indexSize = version === 0 ? 0 : sizes & 0xf;
+    const idSize = version < 2 ? 2 : 4;
+
+    let offset = iloc.start + 6;
+    const itemCount = version < 2 ? view.getUint16(offset) : view.getUint32(offset);
+    offset += version < 2 ? 2 : 4;
+    for (let i = 0; i < itemCount; i++) {
+        const currentId = idSize === 2 ? view.getUint16(offset) : view.getUint32(offset);
+        offset += idSize;
+        let constructionMethod = 0;
+        if (version > 0) {
+            constructionMethod = view.getUint16(offset) & 0xf;
+            offset += 2;
+        }
+        offset += 2; // Data reference index
+        const baseOffset = readUint(view, offset, baseOffsetSize);
+        offset += baseOffsetSize;
+        const extentCount = view.getUint16(offset);
+        offset += 2;
+        if (currentId === itemId) {
+            if (constructionMethod !== 0 || extentCount !== 1) return undefined;
+            offset += indexSize;
+            return { offset: baseOffset + readUint(view, offset, offsetSize), length: readUint(view, offset + offsetSize, lengthSize) };
+        }
+        offset += extentCount * (indexSize + offsetSize + lengthSize);
+    }
+    return undefined;
+};
+
+/**
+ * Reads the metadata of a HEIC/HEIF photo, whose EXIF block is an item of the `meta` box
+ * stored wherever `iloc` says, often after the scanned start of the file.
+ * @param file The photo.
+ * @param view The start of the file, beginning with its `ftyp` box.
+ */
+const readHeicMetadata = async (file: Blob, view: DataView): Promise<PhotoMetadata> => {
+    const meta = readBoxes(view, 0, view.byteLength).find(box => box.type === 'meta');
+    if (!meta) return {};
+    // `meta` is a full box: its children follow the version and flags.
+    const children = readBoxes(view, meta.start + 4, meta.end);
+    const iinf = children.find(box => box.type === 'iinf');
+    const iloc = children.find(box => box.type === 'iloc');
+    if (!iinf || !iloc) return {};
+
+    const itemId = findExifItemId(view, iinf);
+    if (itemId === undefined) return {};
+    const location = findItemLocation(view, iloc, itemId);
+    if (!location || location.length < 8 || location.length > MAX_HEIC_EXIF_BYTES) return {};
+
+    const exif = new DataView(await file.slice(location.offset, location.offset + location.length).arrayBuffer());
+    // The item starts with the offset of the TIFF header, which follows an "Exif\0\0" prefix.
+    return readTiffMetadata(exif, 4 + exif.getUint32(0));
+};
+
+/**
+ * Reads GPS coordinates, capture time and orientation from a photo's EXIF data.
+ * JPEG and HEIC/HEIF files are understood; anything else, or a file without EXIF,
+ * resolves to an empty object. It never throws.
+ * @param file The photo selected or captured by the user.
+ * @returns A promise that resolves with whatever metadata could be found.
+ */
+export const readPhotoMetadata = async (file: Blob): Promise<PhotoMetadata> => {
+    try {
+        const buffer = await file.slice(0, EXIF_SCAN_BYTES).arrayBuffer();
+        const view = new DataView(buffer);
+        if (view.byteLength >= 8 && fourCC(view, 4) === 'ftyp') return await readHeicMetadata(file, view);
+        if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return {};
+
+        let offset = 2;
+        while (offset + 4 <= view.byteLength) {
+            const marker = view.getUint16(offset);
+            if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) break; // Start of scan: no more metadata segments.
+
+            const segmentLength = view.getUint16(offset + 2);
+            const isExifSegment = marker === 0xffe1 && view.getUint32(offset + 4) === 0x45786966; // "Exif"
+            if (isExifSegment) {
+                return readTiffMetadata(view, offset + 10);
+            }
+            offset += 2 + segmentLength;
+        }
+    } catch (error) {
+        console.warn("Could not read EXIF metadata from photo:", error);
+    }
+    return {};
+};
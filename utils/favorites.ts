@@ -0,0 +1,57 @@
+import { useSyncExternalStore } from 'react';
+
+const FAVORITES_KEY = 'scout-ai-favorites';
+
+/**
+ * Reads the names of the favorite places from local storage.
+ * Returns an empty set if none are stored or an error occurs.
+ */
+const readFavorites = (): Set<string> => {
+    try {
+        const storedFavorites = window.localStorage.getItem(FAVORITES_KEY);
+        if (storedFavorites) return new Set(JSON.parse(storedFavorites));
+    } catch (error) {
+        console.error("Failed to load favorites from local storage", error);
+    }
+    return new Set();
+};
+
+// The favorites are shared by every view that lists places, so a place saved in one
+// shows up as a favorite in the others and in the journal.
+let favorites = readFavorites();
+const listeners = new Set<() => void>();
+
+const subscribe = (listener: () => void): (() => void) => {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
+
+const getFavorites = (): Set<string> => favorites;
+
+/**
+ * Adds a place to the favorites, or removes it if it is one already, and saves the favorites.
+ * @param placeName The name of the place.
+ */
+export const toggleFavorite = (placeName: string) => {
+    const newFavorites = new Set(favorites);
+    if (newFavorites.has(placeName)) {
+        newFavorites.delete(placeName);
+    } else {
+        newFavorites.add(placeName);
+    }
+    favorites = newFavorites;
+    listeners.forEach(listener => listener());
+    try {
+        window.localStorage.setItem(FAVORITES_KEY, JSON.stringify(Array.from(newFavorites)));
+    } catch (error) {
+        console.error("Failed to save favorites to local storage", error);
+    }
+};
+
+/**
+ * Subscribes a component to the favorite places and re-renders it when they change.
+ * @returns The names of the favorite places, in the order they were saved.
+ */
+export const useFavorites = (): Set<string> => useSyncExternalStore(subscribe, getFavorites);
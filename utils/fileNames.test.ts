@@ -0,0 +1,18 @@
+import { describe, it, expect } from 'vitest';
+import { getFileNameSlug } from './fileNames';
+
+describe('getFileNameSlug', () => {
+    it('joins words with hyphens and lowercases them', () => {
+        expect(getFileNameSlug('Eiffel Tower, Paris', 'discovery')).toBe('eiffel-tower-paris');
+    });
+
+    it('keeps letters from any script, including combining marks', () => {
+        expect(getFileNameSlug('東京タワー', 'discovery')).toBe('東京タワー');
+        expect(getFileNameSlug('ताज महल', 'discovery')).toBe('ताज-महल');
+        expect(getFileNameSlug('Sagrada Família', 'discovery')).toBe('sagrada-família');
+    });
+
+    it('falls back when nothing of the name can be kept', () => {
+        expect(getFileNameSlug(' --- ', 'discovery')).toBe('discovery');
+    });
+});
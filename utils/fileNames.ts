@@ -0,0 +1,9 @@
+/**
+ * Turns a landmark or place name into the base of a download file name, e.g. "eiffel-tower".
+ * Letters from any script are kept with their combining marks, so names in Japanese, Hindi or
+ * with accents stay readable; everything else becomes a single hyphen.
+ * @param name The landmark or place name.
+ * @param fallback The base name used when nothing of the name can be kept.
+ */
+export const getFileNameSlug = (name: string, fallback: string): string =>
+    name.normalize('NFC').toLowerCase().replace(/[^\p{L}\p{M}\p{N}]+/gu, '-').replace(/^-|-$/g, '') || fallback;
@@ -0,0 +1,39 @@
+import { readFileSync } from 'node:fs';
+import { describe, it, expect } from 'vitest';
+import { extractGroundedText } from './grounding';
+
+// A Google Search grounded response in the shape the API returns it, in Japanese so that
+// the UTF-8 byte offsets of the segments differ from the JavaScript string indices.
+const recordedResponse = JSON.parse(readFileSync(new URL('./__fixtures__/groundedResponse.ja.json', import.meta.url), 'utf-8'));
+
+describe('extractGroundedText', () => {
+    it('returns the trimmed text', () => {
+        const { text } = extractGroundedText(recordedResponse);
+        expect(text.startsWith('東京タワー')).toBe(true);
+        expect(text.endsWith('着想を得ています。')).toBe(true);
+    });
+
+    it('numbers each web page once, in order of first citation', () => {
+        const { sources } = extractGroundedText(recordedResponse);
+        expect(sources).toEqual([
+            { uri: 'https://vertexaisearch.cloud.google.com/grounding-api-redirect/tokyotower-history', title: 'tokyotower.co.jp' },
+            { uri: 'https://vertexaisearch.cloud.google.com/grounding-api-redirect/wikipedia-tokyo-tower', title: 'ja.wikipedia.org' },
+        ]);
+    });
+
+    it('places each citation at the end of its sentence despite multi-byte characters', () => {
+        const { text, citations } = extractGroundedText(recordedResponse);
+        expect(citations).toEqual([
+            { endIndex: 19, sourceIndices: [0, 1] },
+            { endIndex: 48, sourceIndices: [0] },
+            { endIndex: 70, sourceIndices: [1] },
+        ]);
+        expect(text.slice(0, citations[0].endIndex).endsWith('完成しました。')).toBe(true);
+        expect(text.slice(0, citations[1].endIndex).endsWith('鉄塔でした。')).toBe(true);
+    });
+
+    it('returns the plain text without sources when there is no grounding metadata', () => {
+        const result = extractGroundedText({ candidates: [{ content: { parts: [{ text: ' Plain answer. ' }] } }] });
+        expect(result).toEqual({ text: 'Plain answer.', sources: [], citations: [] });
+    });
+});
@@ -0,0 +1,101 @@
+import type { GenerateContentResponse } from "@google/genai";
+import type { GroundedText, GroundingSource, Citation } from '../types';
+
+/**
+ * Returns the number of bytes a code point takes in UTF-8.
+ */
+const utf8Length = (codePoint: number): number => {
+    if (codePoint < 0x80) return 1;
+    if (codePoint < 0x800) return 2;
+    if (codePoint < 0x10000) return 3;
+    return 4;
+};
+
+/**
+ * Converts a UTF-8 byte offset, as used by grounding segments, into a JavaScript string index.
+ * The two only agree for ASCII text, so without this conversion citations in languages
+ * such as Japanese or Hindi would land in the middle of the wrong sentence.
+ * @param text The text the offset refers to.
+ * @param byteOffset The offset in bytes.
+ * @returns The matching UTF-16 index, clamped to the length of the text.
+ */
+const byteOffsetToIndex = (text: string, byteOffset: number): number => {
+    let bytes = 0;
+    let index = 0;
+    for (const char of text) {
+        if (bytes >= byteOffset) break;
+        bytes += utf8Length(char.codePointAt(0)!);
+        index += char.length;
+    }
+    return index;
+};
+
+/**
+ * Extracts the answer text, its web sources and the citations that map each grounded
+ * sentence to those sources from a response generated with the Google Search tool.
+ * It only reads `candidates`, so a recorded JSON response can be passed in as-is.
+ * Responses without grounding metadata yield the plain text with no sources.
+ * @param response The model response, or a recorded copy of one.
+ * @returns The trimmed text with sources numbered in order of first appearance.
+ */
+export const extractGroundedText = (response: Pick<GenerateContentResponse, 'candidates'>): GroundedText => {
+    const candidate = response.candidates?.[0];
+    const parts = candidate?.content?.parts || [];
+    const partTexts = parts.map(part => (part.thought ? '' : part.text || ''));
+    const rawText = partTexts.join('');
+
+    // Segment offsets are relative to their own part, so remember where each part starts.
+    const partStarts: number[] = [];
+    partTexts.reduce((start, partText) => {
+        partStarts.push(start);
+        return start + partText.length;
+    }, 0);
+
+    const chunks = candidate?.groundingMetadata?.groundingChunks || [];
+    const sources: GroundingSource[] = [];
+    const sourceIndexByChunk = new Map<number, number>();
+    const getSourceIndex = (chunkIndex: number): number | undefined => {
+        if (sourceIndexByChunk.has(chunkIndex)) return sourceIndexByChunk.get(chunkIndex);
+        const web = chunks[chunkIndex]?.web;
+        if (!web?.uri) return undefined;
+        // The same page can be returned as several chunks; cite it under a single number.
+        let sourceIndex = sources.findIndex(source => source.uri === web.uri);
+        if (sourceIndex === -1) {
+            sourceIndex = sources.push({ uri: web.uri, title: web.title || web.domain || web.uri }) - 1;
+        }
+        sourceIndexByChunk.set(chunkIndex, sourceIndex);
+        return sourceIndex;
+    };
+
+    const leadingWhitespace = rawText.length - rawText.trimStart().length;
+    const text = rawText.trim();
+    const citationsByEnd = new Map<number, Set<number>>();
+
+    const supports = candidate?.groundingMetadata?.groundingSupports || [];
+    supports.forEach(support => {
+        const segment = support.segment;
+        if (segment?.endIndex === undefined) return;
+        const partIndex = segment.partIndex || 0;
+        const partText = partTexts[partIndex];
+        if (partText === undefined) return;
+
+        const endIndex = partStarts[partIndex] + byteOffsetToIndex(partText, segment.endIndex) - leadingWhitespace;
+        if (endIndex <= 0) return;
+        const sourceIndices = (support.groundingChunkIndices || [])
+            .map(getSourceIndex)
+            .filter((index): index is number => index !== undefined);
+        if (sourceIndices.length === 0) return;
+
+        // Cite the end of the sentence, not the whitespace that may follow it.
+        const citedEnd = text.slice(0, Math.min(text.length, endIndex)).trimEnd().length;
+        const existing = citationsByEnd.get(citedEnd) || new Set<number>();
+        sourceIndices.forEach(index => existing.add(index));
+        citationsByEnd.set(citedEnd, existing);
+    });
+
+    const citations: Citation[] = Array.from(citationsByEnd.entries())
+        .map(([endIndex, indices]) => ({ endIndex, sourceIndices: Array.from(indices).sort((a, b) => a - b) }))
+        .sort((a, b) => a.endIndex - b.endIndex);
+
+    return { text, sources, citations };
+};
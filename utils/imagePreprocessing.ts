@@ -0,0 +1,106 @@
+/**
+ * Controls how photos are shrunk and re-encoded before they are sent to Gemini.
+ */
+export interface ImagePreprocessOptions {
+    /** The longest side of the output image, in pixels. Smaller images are never upscaled. */
+    maxDimension: number;
+    /** The output encoding. WebP falls back to JPEG where the browser cannot encode it. */
+    format: 'image/jpeg' | 'image/webp';
+    /** Encoder quality between 0 and 1. */
+    quality: number;
+}
+
+export const DEFAULT_PREPROCESS_OPTIONS: ImagePreprocessOptions = {
+    maxDimension: 1536,
+    format: 'image/jpeg',
+    quality: 0.85,
+};
+
+/**
+ * Returns true for HEIC/HEIF photos, which many phones produce and most browsers cannot decode.
+ * Some browsers report an empty MIME type for them, so the extension is checked as well.
+ * @param file The photo to check.
+ */
+export const isHeicFile = (file: File): boolean =>
+    /^image\/hei[cf]/.test(file.type) || /\.hei[cf]$/i.test(file.name);
+
+/**
+ * Decodes a photo into an ImageBitmap with its EXIF orientation applied, so the pixels are upright.
+ * HEIC/HEIF files are converted with heic2any when the browser cannot decode them natively.
+ * @param file The original photo.
+ * @returns A promise that resolves with the decoded, upright bitmap.
+ */
+const decodeImage = async (file: File): Promise<ImageBitmap> => {
+    const options: ImageBitmapOptions = { imageOrientation: 'from-image' };
+    try {
+        return await createImageBitmap(file, options);
+    } catch (error) {
+        if (!isHeicFile(file)) throw error;
+        // Only Safari decodes HEIC natively; load the converter on demand for everyone else.
+        const { default: heic2any } = await import('heic2any');
+        const converted = await heic2any({ blob: file, toType: 'image/jpeg', quality: 0.95 });
+        return createImageBitmap(Array.isArray(converted) ? converted[0] : converted, options);
+    }
+};
+
+/**
+ * Draws the bitmap downscaled onto a new canvas.
+ * @param bitmap The decoded, upright image.
+ * @param maxDimension The longest allowed side of the output.
+ */
+const drawScaled = (bitmap: ImageBitmap, maxDimension: number): HTMLCanvasElement => {
+    const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Canvas 2D context is not available.');
+    }
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    return canvas;
+};
+
+/**
+ * Encodes a canvas into a Blob. Browsers that cannot encode the requested type return PNG,
+ * which is larger than the original, so that case falls back to JPEG.
+ */
+const encodeCanvas = async (canvas: HTMLCanvasElement, format: string, quality: number): Promise<Blob> => {
+    const toBlob = (type: string) => new Promise<Blob | null>(resolve => canvas.toBlob(resolve, type, quality));
+    let blob = await toBlob(format);
+    if (blob && blob.type !== format && format !== 'image/jpeg') {
+        blob = await toBlob('image/jpeg');
+    }
+    if (!blob) {
+        throw new Error('Failed to encode the processed image.');
+    }
+    return blob;
+};
+
+/**
+ * Prepares a photo for upload: decodes HEIC/HEIF, applies the EXIF orientation,
+ * downscales it and re-encodes it. Re-encoding through a canvas drops every piece of
+ * metadata (GPS, camera serial numbers, timestamps), so nothing private leaves the device.
+ * The original file is left untouched for local display.
+ * @param file The original photo.
+ * @param options Size and encoding settings; defaults to DEFAULT_PREPROCESS_OPTIONS.
+ * @returns A promise that resolves with the processed image as a new File.
+ */
+export const preprocessImage = async (
+    file: File,
+    options: ImagePreprocessOptions = DEFAULT_PREPROCESS_OPTIONS
+): Promise<File> => {
+    const bitmap = await decodeImage(file);
+    try {
+        const canvas = drawScaled(bitmap, options.maxDimension);
+        const blob = await encodeCanvas(canvas, options.format, options.quality);
+        const extension = blob.type === 'image/webp' ? 'webp' : 'jpg';
+        const baseName = file.name.replace(/\.[^.]+$/, '') || 'photo';
+        return new File([blob], `${baseName}.${extension}`, { type: blob.type });
+    } finally {
+        bitmap.close();
+    }
+};
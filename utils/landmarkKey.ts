@@ -0,0 +1,14 @@
+/**
+ * Normalizes a landmark name so that the same place named slightly differently
+ * ("Notre-Dame de Paris" vs "Notre Dame de Paris") is recognized as one, e.g. to group
+ * album photos or to keep quiz scores per landmark.
+ * @param name The landmark name returned by the model.
+ * @returns A case-, accent- and punctuation-insensitive key.
+ */
+export const getLandmarkKey = (name: string): string =>
+    name
+        .toLowerCase()
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/[^\p{L}\p{N}]+/gu, ' ')
+        .trim();
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { parseRoute, buildPath, findRouteOption } from './router';
+import type { Route } from './router';
+
+/**
+ * Parses a path as the browser would hand it over, with its query string split off.
+ */
+const parsePath = (path: string): Route => {
+    const url = new URL(path, 'https://scout.example');
+    return parseRoute(url.pathname, url.search);
+};
+
+describe('parseRoute and buildPath', () => {
+    const routes: Route[] = [
+        { view: 'guide' },
+        { view: 'discovery', id: '1718000000000' },
+        { view: 'discovery', id: 'album/42 ü' },
+        { view: 'planner' },
+        { view: 'planner', location: 'São Paulo & Rio?' },
+        { view: 'planner', planId: '1718000000000' },
+        { view: 'nearby' },
+        { view: 'nearby', origin: { lat: 48.8584, lon: -2.2945 } },
+        { view: 'nearby', origin: { lat: 0, lon: 0 } },
+        { view: 'topPlaces' },
+        { view: 'topPlaces', country: 'france' },
+        { view: 'topPlaces', country: 'united states', city: 'new york' },
+        { view: 'topPlaces', country: '日本', city: '東京' },
+        { view: 'journal' },
+    ];
+
+    it.each(routes.map(route => [buildPath(route), route]))('round-trips %s', (path, route) => {
+        expect(parsePath(path)).toEqual(route);
+    });
+
+    it('falls back to the guide for unknown paths', () => {
+        expect(parsePath('/')).toEqual({ view: 'guide' });
+        expect(parsePath('/settings/voice')).toEqual({ view: 'guide' });
+    });
+
+    it('ignores trailing slashes', () => {
+        expect(parsePath('/planner/')).toEqual({ view: 'planner' });
+        expect(parsePath('/journal/')).toEqual({ view: 'journal' });
+        expect(parsePath('/top/france/')).toEqual({ view: 'topPlaces', country: 'france' });
+    });
+
+    it('drops an origin that is missing, empty or not a number', () => {
+        expect(parsePath('/nearby?lat=abc&lon=2')).toEqual({ view: 'nearby' });
+        expect(parsePath('/nearby?lat=&lon=')).toEqual({ view: 'nearby' });
+        expect(parsePath('/nearby?lat=1')).toEqual({ view: 'nearby' });
+        expect(parsePath('/nearby?lat=Infinity&lon=2')).toEqual({ view: 'nearby' });
+    });
+
+    it('does not read a city without a country as the country', () => {
+        expect(parsePath('/top//paris')).toEqual({ view: 'topPlaces' });
+    });
+
+    it('drops a blank planner location', () => {
+        expect(parsePath('/planner?location=%20%20')).toEqual({ view: 'planner' });
+    });
+
+    it('keeps a segment with broken percent-encoding as it is', () => {
+        expect(parseRoute('/top/%E0%A4/paris', '')).toEqual({ view: 'topPlaces', country: '%E0%A4', city: 'paris' });
+    });
+});
+
+describe('findRouteOption', () => {
+    const countries = ['France', 'United States', 'Japan'];
+
+    it('matches an option regardless of case', () => {
+        expect(findRouteOption(countries, 'united states')).toBe('United States');
+        expect(findRouteOption(countries, 'FRANCE')).toBe('France');
+    });
+
+    it('returns undefined when there is no match or no value', () => {
+        expect(findRouteOption(countries, 'italy')).toBeUndefined();
+        expect(findRouteOption(countries, undefined)).toBeUndefined();
+        expect(findRouteOption(countries, '')).toBeUndefined();
+    });
+});
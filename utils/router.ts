@@ -0,0 +1,114 @@
+/**
+ * The URL-addressable states of the app. Each tab has its own route; a saved discovery,
+ * a saved tour plan and a top-places search can be linked to directly, and a planner link
+ * with a location plans it anew.
+ */
+export type Route =
+    | { view: 'guide' }
+    | { view: 'discovery'; id: string }
+    | { view: 'planner'; location?: string; planId?: string }
+    | { view: 'nearby'; origin?: { lat: number; lon: number } }
+    | { view: 'topPlaces'; country?: string; city?: string }
+    | { view: 'journal' };
+
+/**
+ * Parses a coordinate from a query parameter.
+ * @returns The coordinate, or undefined if the parameter is missing, empty or not a number.
+ */
+const parseCoordinate = (value: string | null): number | undefined => {
+    if (!value?.trim()) return undefined;
+    const coordinate = Number(value);
+    return Number.isFinite(coordinate) ? coordinate : undefined;
+};
+
+/**
+ * Parses a pathname and query string into a route. Unknown paths fall back to the guide.
+ * @param pathname The URL path, e.g. "/top/france/paris" or "/planner/1718000000000".
+ * @param search The URL query string, e.g. "?location=Rome".
+ */
+export const parseRoute = (pathname: string, search: string): Route => {
+    // Empty segments are kept, so "/top//paris" does not read the city as the country
+    const segments = pathname.split('/').slice(1).map(segment => {
+        try {
+            return decodeURIComponent(segment);
+        } catch {
+            return segment;
+        }
+    });
+    const params = new URLSearchParams(search);
+
+    switch (segments[0]) {
+        case 'planner': {
+            if (segments[1]) return { view: 'planner', planId: segments[1] };
+            const location = params.get('location')?.trim();
+            return { view: 'planner', location: location || undefined };
+        }
+        case 'nearby': {
+            const lat = parseCoordinate(params.get('lat'));
+            const lon = parseCoordinate(params.get('lon'));
+            const hasOrigin = lat !== undefined && lon !== undefined;
+            return { view: 'nearby', origin: hasOrigin ? { lat, lon } : undefined };
+        }
+        case 'top':
+            return { view: 'topPlaces', country: segments[1] || undefined, city: (segments[1] && segments[2]) || undefined };
+        case 'journal':
+            return segments[1] ? { view: 'discovery', id: segments[1] } : { view: 'journal' };
+        case 'guide':
+        default:
+            return { view: 'guide' };
+    }
+};
+
+/**
+ * Builds the URL path (with its query string) for a route.
+ */
+export const buildPath = (route: Route): string => {
+    switch (route.view) {
+        case 'planner':
+            if (route.planId) return `/planner/${encodeURIComponent(route.planId)}`;
+            return route.location ? `/planner?${new URLSearchParams({ location: route.location })}` : '/planner';
+        case 'nearby':
+            return route.origin ? `/nearby?${new URLSearchParams({ lat: `${route.origin.lat}`, lon: `${route.origin.lon}` })}` : '/nearby';
+        case 'topPlaces':
+            if (route.country && route.city) return `/top/${encodeURIComponent(route.country)}/${encodeURIComponent(route.city)}`;
+            return route.country ? `/top/${encodeURIComponent(route.country)}` : '/top';
+        case 'journal':
+            return '/journal';
+        case 'discovery':
+            return `/journal/${encodeURIComponent(route.id)}`;
+        case 'guide':
+        default:
+            return '/guide';
+    }
+};
+
+/**
+ * Finds the option a route segment refers to regardless of case, since links may not match
+ * the stored capitalization.
+ * @param options The options to pick from, e.g. the countries.
+ * @param value The route segment, e.g. "france".
+ */
+export const findRouteOption = (options: string[], value?: string): string | undefined =>
+    value ? options.find(option => option.toLowerCase() === value.toLowerCase()) : undefined;
+
+/**
+ * Returns the route of the current browser URL.
+ */
+export const getCurrentRoute = (): Route => parseRoute(window.location.pathname, window.location.search);
+
+/**
+ * Points the browser URL at a route. A new history entry is added unless `replace` is set;
+ * navigating to the URL that is already shown does nothing.
+ * Popstate is not fired, so the caller is expected to have already shown the route.
+ * @param route The route now displayed.
+ * @param replace Replaces the current history entry instead of adding one.
+ */
+export const navigate = (route: Route, replace = false) => {
+    const path = buildPath(route);
+    if (path === `${window.location.pathname}${window.location.search}`) return;
+    if (replace) {
+        window.history.replaceState(null, '', path);
+    } else {
+        window.history.pushState(null, '', path);
+    }
+};
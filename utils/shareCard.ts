@@ -0,0 +1,146 @@
+import { getFileNameSlug } from './fileNames';
+
+/**
+ * The shape of a share card: square for feeds and chats, story for full-screen vertical stories.
+ */
+export type ShareCardFormat = 'square' | 'story';
+
+export const SHARE_CARD_SIZES: Record<ShareCardFormat, { width: number; height: number }> = {
+    square: { width: 1080, height: 1080 },
+    story: { width: 1080, height: 1920 },
+};
+
+/**
+ * Everything drawn on a share card. The texts are already translated.
+ */
+export interface ShareCardContent {
+    /** URL of the user's photo; object and data URLs keep the canvas exportable. */
+    imageUrl: string;
+    landmarkName: string;
+    /** The history; only its opening lines fit on the card. */
+    history: string;
+    /** The line shown under the Scout AI name. */
+    tagline: string;
+}
+
+const PADDING = 72;
+const BRAND_NAME = 'Scout AI';
+const FONT_FAMILY = 'ui-sans-serif, system-ui, -apple-system, "Segoe UI", Roboto, sans-serif';
+
+/**
+ * Loads an image URL into an element that can be drawn on a canvas.
+ */
+const loadImage = (url: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Failed to load the photo for the share card.'));
+    image.src = url;
+});
+
+/**
+ * Draws an image so that it covers the whole rectangle, cropping the overflow like object-fit: cover.
+ */
+const drawCover = (ctx: CanvasRenderingContext2D, image: HTMLImageElement, width: number, height: number) => {
+    const scale = Math.max(width / image.naturalWidth, height / image.naturalHeight);
+    const drawWidth = image.naturalWidth * scale;
+    const drawHeight = image.naturalHeight * scale;
+    ctx.drawImage(image, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+};
+
+/**
+ * Breaks text into lines that fit the given width, using the context's current font.
+ * Text that does not fit in maxLines is cut at a word and ends with an ellipsis.
+ * Scripts written without spaces, such as Japanese and Chinese, are broken between characters.
+ */
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number, maxLines: number): string[] => {
+    const hasSpaces = /\s/.test(text.trim());
+    const tokens = hasSpaces ? text.trim().split(/\s+/) : Array.from(text.trim());
+    const separator = hasSpaces ? ' ' : '';
+    const lines: string[] = [];
+    let currentLine = '';
+
+    for (let i = 0; i < tokens.length; i++) {
+        const candidate = currentLine ? `${currentLine}${separator}${tokens[i]}` : tokens[i];
+        if (ctx.measureText(candidate).width <= maxWidth || !currentLine) {
+            currentLine = candidate;
+            continue;
+        }
+        lines.push(currentLine);
+        currentLine = tokens[i];
+        if (lines.length === maxLines) {
+            // Out of room: finish the last line with an ellipsis that still fits
+            let lastLine = lines[maxLines - 1];
+            while (lastLine && ctx.measureText(`${lastLine}…`).width > maxWidth) {
+                lastLine = lastLine.slice(0, -1);
+            }
+            lines[maxLines - 1] = `${lastLine.trimEnd()}…`;
+            return lines;
+        }
+    }
+    if (currentLine) lines.push(currentLine);
+    return lines;
+};
+
+/**
+ * Renders a share card with the user's photo, the landmark name, the opening of its history
+ * and the Scout AI branding.
+ * @param content The photo and texts to draw.
+ * @param format The aspect ratio of the card.
+ * @returns A promise that resolves with the card as a PNG file.
+ */
+export const renderShareCard = async (content: ShareCardContent, format: ShareCardFormat): Promise<File> => {
+    const { width, height } = SHARE_CARD_SIZES[format];
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Canvas 2D context is not available.');
+    }
+
+    const image = await loadImage(content.imageUrl);
+    drawCover(ctx, image, width, height);
+
+    // Darken the lower part of the photo so the text stays readable on any picture
+    const gradient = ctx.createLinearGradient(0, height * 0.35, 0, height);
+    gradient.addColorStop(0, 'rgba(15, 23, 42, 0)');
+    gradient.addColorStop(0.45, 'rgba(15, 23, 42, 0.75)');
+    gradient.addColorStop(1, 'rgba(15, 23, 42, 0.95)');
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, width, height);
+
+    const textWidth = width - PADDING * 2;
+    const brandY = height - PADDING;
+    ctx.textBaseline = 'alphabetic';
+    ctx.fillStyle = '#ffffff';
+
+    // Branding along the bottom edge
+    ctx.font = `bold 40px ${FONT_FAMILY}`;
+    ctx.fillText(BRAND_NAME, PADDING, brandY);
+    const brandWidth = ctx.measureText(BRAND_NAME).width;
+    ctx.font = `28px ${FONT_FAMILY}`;
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.75)';
+    ctx.fillText(wrapText(ctx, content.tagline, textWidth - brandWidth - 24, 1)[0] || '', PADDING + brandWidth + 24, brandY);
+
+    // The excerpt and the name are laid out upwards from the branding
+    const excerptLineHeight = 46;
+    ctx.font = `34px ${FONT_FAMILY}`;
+    const excerptLines = wrapText(ctx, content.history.split(/\n+/)[0] || '', textWidth, format === 'story' ? 8 : 4);
+    let y = brandY - 72 - (excerptLines.length - 1) * excerptLineHeight;
+    const excerptTop = y;
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
+    excerptLines.forEach((line, index) => ctx.fillText(line, PADDING, excerptTop + index * excerptLineHeight));
+
+    const nameLineHeight = 80;
+    ctx.font = `800 68px ${FONT_FAMILY}`;
+    const nameLines = wrapText(ctx, content.landmarkName, textWidth, 2);
+    y = excerptTop - 64 - (nameLines.length - 1) * nameLineHeight;
+    ctx.fillStyle = '#ffffff';
+    nameLines.forEach((line, index) => ctx.fillText(line, PADDING, y + index * nameLineHeight));
+
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) {
+        throw new Error('Failed to encode the share card.');
+    }
+    return new File([blob], `scout-ai-${getFileNameSlug(content.landmarkName, 'discovery')}-${format}.png`, { type: 'image/png' });
+};
@@ -0,0 +1,37 @@
+/**
+ * A function that schedules an async task and resolves with its result once it has run.
+ */
+export type TaskQueue = <T>(task: () => Promise<T>) => Promise<T>;
+
+/**
+ * Creates a queue that runs at most `concurrency` tasks at a time, in the order they were added.
+ * Used to avoid firing dozens of Gemini calls at once (and hitting rate limits) when
+ * a whole batch of photos is identified.
+ * @param concurrency The maximum number of tasks running in parallel.
+ * @returns A function that enqueues a task and resolves or rejects with its outcome.
+ */
+export const createTaskQueue = (concurrency: number): TaskQueue => {
+    let activeCount = 0;
+    const waiting: (() => void)[] = [];
+
+    const runNext = () => {
+        if (activeCount >= concurrency) return;
+        const start = waiting.shift();
+        if (start) {
+            activeCount++;
+            start();
+        }
+    };
+
+    return <T>(task: () => Promise<T>) => new Promise<T>((resolve, reject) => {
+        waiting.push(() => {
+            task()
+                .then(resolve, reject)
+                .finally(() => {
+                    activeCount--;
+                    runNext();
+                });
+        });
+        runNext();
+    });
+};
@@ -0,0 +1,43 @@
+import type { SavedTourPlan, TourPlan } from '../types';
+
+const TOUR_PLANS_KEY = 'scout-ai-tour-plans';
+// Older plans are dropped beyond this, which keeps local storage small
+const MAX_SAVED_PLANS = 20;
+
+/**
+ * Reads the saved plans from local storage, newest first.
+ * Returns an empty list if none are stored or an error occurs.
+ */
+const readPlans = (): SavedTourPlan[] => {
+    try {
+        const storedPlans = window.localStorage.getItem(TOUR_PLANS_KEY);
+        if (storedPlans) return JSON.parse(storedPlans);
+    } catch (error) {
+        console.error("Failed to load tour plans from local storage", error);
+    }
+    return [];
+};
+
+/**
+ * Saves a generated plan so it can be linked to and shown again.
+ * @param plan The generated plan.
+ * @param language The UI language code the plan was generated in.
+ * @returns The id of the saved plan, or null if it could not be saved.
+ */
+export const saveTourPlan = (plan: TourPlan, language: string): string | null => {
+    const saved: SavedTourPlan = { id: `${Date.now()}`, plan, language, savedAt: Date.now() };
+    try {
+        const plans = [saved, ...readPlans()].slice(0, MAX_SAVED_PLANS);
+        window.localStorage.setItem(TOUR_PLANS_KEY, JSON.stringify(plans));
+        return saved.id;
+    } catch (error) {
+        console.error(`Failed to save the tour plan for ${plan.location} to local storage`, error);
+        return null;
+    }
+};
+
+/**
+ * Returns a saved plan, or undefined if there is no plan with that id.
+ * @param id The id returned when the plan was saved.
+ */
+export const getTourPlan = (id: string): SavedTourPlan | undefined => readPlans().find(saved => saved.id === id);
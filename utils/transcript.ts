@@ -0,0 +1,57 @@
+/**
+ * A sentence of a narrated text, with where it is in the text and when it is spoken.
+ */
+export interface TranscriptSegment {
+    /** Character offset of the sentence in the text. */
+    start: number;
+    /** Character offset just past the sentence, including its trailing spaces. */
+    end: number;
+    /** When the sentence starts in the audio, in seconds. */
+    startTime: number;
+    /** When the next sentence starts, in seconds. */
+    endTime: number;
+}
+
+/**
+ * Splits a paragraph into sentences with the rules of its language, returning their character ranges.
+ * Browsers without Intl.Segmenter get the whole paragraph as a single sentence.
+ */
+const splitSentences = (paragraph: string, locale: string): { start: number; end: number }[] => {
+    if (typeof Intl.Segmenter !== 'function') return [{ start: 0, end: paragraph.length }];
+    const segmenter = new Intl.Segmenter(locale, { granularity: 'sentence' });
+    return Array.from(segmenter.segment(paragraph), ({ index, segment }) => ({ start: index, end: index + segment.length }));
+};
+
+/**
+ * Times the sentences of a narration. Each paragraph was synthesized on its own, so its start
+ * in the audio is exact; the sentences within it are timed by their share of its characters.
+ * @param text The narrated text, with one paragraph per line.
+ * @param paragraphStarts Where each line starts in the audio, in seconds.
+ * @param duration The length of the audio in seconds.
+ * @param locale The language of the text, e.g. 'ja'.
+ * @returns The sentences in reading order, or an empty list if the timings do not match the text.
+ */
+export const getTranscriptSegments = (text: string, paragraphStarts: number[], duration: number, locale: string): TranscriptSegment[] => {
+    const paragraphs = text.split('\n');
+    if (paragraphs.length !== paragraphStarts.length) return [];
+
+    const segments: TranscriptSegment[] = [];
+    let paragraphOffset = 0;
+    paragraphs.forEach((paragraph, index) => {
+        const offset = paragraphOffset;
+        paragraphOffset += paragraph.length + 1; // skip the newline
+        if (!paragraph.trim()) return;
+
+        const paragraphStartTime = paragraphStarts[index];
+        const secondsPerCharacter = ((paragraphStarts[index + 1] ?? duration) - paragraphStartTime) / paragraph.length;
+        splitSentences(paragraph, locale).forEach(({ start, end }) => {
+            segments.push({
+                start: offset + start,
+                end: offset + end,
+                startTime: paragraphStartTime + start * secondsPerCharacter,
+                endTime: paragraphStartTime + end * secondsPerCharacter,
+            });
+        });
+    });
+    return segments;
+};
@@ -121,6 +121,198 @@ export const translations: { [key: string]: { [key: string]: string } } = {
         errorImageGeneration: 'Could not generate images for the places.',
         errorNoLandmark: 'I couldn\'t identify a landmark in this photo. Please try another one.',
         errorProcessing: 'Something went wrong while processing the image. Please try again.',
+        candidatePickerTitle: 'Which landmark is this?',
+        candidatePickerSubtitle: "A few places look alike. Pick the right one and I'll prepare your audio guide.",
+        candidateLowConfidenceTitle: 'Is this right?',
+        candidateLowConfidenceWarning: "I'm not very sure about this one. Please confirm the landmark before I create the audio guide.",
+        candidateConfidence: '{{percent}}% match',
+        candidateNoneButton: 'None of these, try another photo',
+        takePhotoButton: 'Take a Photo',
+        cameraStarting: 'Starting camera...',
+        cameraPreviewAlt: 'Captured photo preview',
+        cameraCloseAriaLabel: 'Close camera',
+        cameraSwitchAriaLabel: 'Switch between front and rear camera',
+        cameraTorchOnAriaLabel: 'Turn on flashlight',
+        cameraTorchOffAriaLabel: 'Turn off flashlight',
+        cameraCaptureAriaLabel: 'Capture photo',
+        cameraRetakeButton: 'Retake',
+        cameraUsePhotoButton: 'Use Photo',
+        errorCameraPermission: 'Camera access was denied. You can still upload a photo from your device.',
+        errorCameraUnavailable: 'No camera is available right now. You can still upload a photo from your device.',
+        photoTakenAt: 'Photo taken at {{coordinates}}',
+        photoTakenOn: 'Taken {{date}}',
+        exploreNearbyButton: 'Explore nearby',
+        albumUploadHint: 'Tip: select several photos at once to build a trip album.',
+        albumTitle: 'Trip Album',
+        albumProgress: 'Processed {{done}} of {{total}} photos',
+        albumSinglePhoto: '1 photo',
+        albumPhotoCount: '{{count}} photos',
+        albumOpenGroupAriaLabel: 'Open the guide for {{landmarkName}}',
+        albumFailedTitle: "Couldn't identify these photos",
+        albumNewButton: 'Start Over',
+        narrationPresetLabel: 'Narration style',
+        presetSummary: 'Quick summary',
+        presetStandard: 'Standard',
+        presetInDepth: 'In-depth',
+        presetKids: 'For kids',
+        presetExpert: 'Expert',
+        factSheetTitle: 'Fact sheet',
+        factConstructionDates: 'Built',
+        factArchitect: 'Architect / builder',
+        factArchitecturalStyle: 'Style',
+        factDimensions: 'Dimensions',
+        factUnescoStatus: 'UNESCO status',
+        factVisitingHours: 'Typical opening hours',
+        factTicketInfo: 'Tickets',
+        factAccessibility: 'Accessibility',
+        factSheetDisclaimer: 'Facts may be outdated. Check opening hours and prices with official sources before your visit.',
+        sourcesTitle: 'Sources',
+        journalTabTitle: 'Journal',
+        journalTitle: 'My Discoveries',
+        journalDescription: 'Every landmark you identify is saved on this device, with its photo, history and audio guide.',
+        journalSearchPlaceholder: 'Search by name or history...',
+        journalSortLabel: 'Sort discoveries',
+        journalSortNewest: 'Newest first',
+        journalSortOldest: 'Oldest first',
+        journalSortName: 'Name (A-Z)',
+        journalOpenAriaLabel: 'Open the guide for {{landmarkName}}',
+        journalDeleteAriaLabel: 'Delete {{landmarkName}} from the journal',
+        journalDeleteConfirm: 'Delete {{landmarkName}} from your discoveries? This cannot be undone.',
+        journalEmpty: 'No discoveries yet. Identify a landmark and it will appear here.',
+        journalNoMatches: 'No discoveries match your search.',
+        errorJournalLoad: 'Your discoveries could not be loaded. Private browsing may block local storage.',
+        errorJournalDelete: 'The discovery could not be deleted. Please try again.',
+        helpModalJournalTitle: 'My Discoveries',
+        helpModalJournalContent: 'Every landmark you identify is kept in your journal on this device. Search or sort your discoveries and reopen any guide instantly, even after reloading the page.',
+        audioGuidePreparing: 'Preparing audio...',
+        audioGuideUnavailable: 'Audio is unavailable for this guide.',
+        scanModeLabel: 'What are you scanning?',
+        scanModeLandmark: 'Landmark',
+        scanModeArtwork: 'Artwork',
+        scanModeFood: 'Dish',
+        scanModePlant: 'Plant',
+        scanModeSign: 'Sign',
+        scanModeHintArtwork: 'Photograph a painting, sculpture or museum piece to learn about the artist and its meaning.',
+        scanModeHintFood: 'Photograph a dish to learn what it is, where it comes from and how it is eaten.',
+        scanModeHintPlant: 'Photograph a plant or flower to identify the species and learn about it.',
+        scanModeHintSign: 'Photograph a sign, menu or plaque to read it in your language.',
+        guideTitleArtwork: 'About this Artwork',
+        guideTitleFood: 'About this Dish',
+        guideTitlePlant: 'About this Plant',
+        guideTitleSign: 'Translation',
+        originalTextTitle: 'Original text',
+        chatbotSystemInstructionSubject: 'You are a friendly and knowledgeable guide chatbot for Scout AI. The user photographed {{landmarkName}}. Answer questions about it concisely and engagingly. If a question is off-topic, gently steer the conversation back to it.',
+        candidatePickerTitleSubject: 'What is this?',
+        candidatePickerSubtitleSubject: "A few matches look alike. Pick the right one and I'll prepare your guide.",
+        candidateLowConfidenceWarningSubject: "I'm not very sure about this one. Please confirm it before I create the guide.",
+        scanModeTranslate: 'Translate',
+        scanModeHintTranslate: 'Photograph a menu, sign or plaque to see its text translated right on the photo.',
+        translationTitle: 'Translated Text',
+        translationShowOriginal: 'Show original',
+        translationShowTranslation: 'Show translation',
+        translationHint: 'Tap a translation to hear how the original text is pronounced.',
+        altTranslatedPhoto: 'Your photo with translated text',
+        pronounceAriaLabel: 'Hear the pronunciation of "{{text}}"',
+        errorPronunciation: 'The pronunciation could not be generated. Please try again.',
+        thenAndNowTitle: 'See it in the past',
+        thenAndNowDescription: 'Reconstruct your photo as the landmark looked in another era, then drag the slider to compare.',
+        thenAndNowEraLabel: 'Era',
+        eraConstruction: 'When it was built',
+        eraCenturyAgo: '100 years ago',
+        eraFiftyYearsAgo: '50 years ago',
+        thenAndNowButton: 'Reconstruct',
+        thenAndNowGenerating: 'Reconstructing...',
+        thenAndNowAiLabel: 'AI reconstruction · {{era}}',
+        thenAndNowTodayLabel: 'Your photo',
+        thenAndNowSliderLabel: 'Compare the reconstruction with your photo',
+        thenAndNowDisclaimer: 'This image was generated by AI. It is an artistic interpretation and may not be historically accurate.',
+        altReconstruction: 'AI reconstruction of {{landmarkName}}, {{era}}',
+        errorReconstruction: 'The reconstruction could not be generated. Please try again.',
+        cancelButton: 'Cancel',
+        errorImageTooLarge: 'This image is too large. Please choose one under {{maxSize}} MB.',
+        errorImageUrlInvalid: 'Please enter a web address starting with http:// or https://.',
+        errorImageUrlDownload: 'The image could not be downloaded. The website may not allow it; try saving the image and uploading it instead.',
+        dropZoneActive: 'Drop your photos here',
+        dropZoneHint: 'You can also drag photos here or paste an image with Ctrl+V.',
+        imageUrlPlaceholder: 'Or paste an image URL',
+        imageUrlButton: 'Identify',
+        quizTitle: 'Quiz Time',
+        quizButton: 'Quiz me',
+        quizLoading: 'Preparing your questions...',
+        quizProgress: 'Question {{current}} of {{total}}',
+        quizCorrect: 'Correct!',
+        quizIncorrect: 'Not quite.',
+        quizNextButton: 'Next question',
+        quizResultsButton: 'See my score',
+        quizScore: 'You scored {{correct}} out of {{total}}',
+        quizBestScore: 'Best score: {{correct}}/{{total}}',
+        quizNewBest: 'New best score!',
+        quizRetryButton: 'Try new questions',
+        errorQuiz: 'The quiz could not be created. Please try again.',
+        relatedTitle: 'Nearby & Related',
+        relatedDescription: 'Where to go next: sites close by, or linked by architect, era or story.',
+        relatedButton: "Suggest what's next",
+        relatedLoading: 'Finding related sites...',
+        relatedEmpty: 'No related sites were found.',
+        relatedNearbyLabel: 'Nearby',
+        relatedThematicLabel: 'Related',
+        relatedOpenGuide: 'Open guide',
+        relatedPlanTour: 'Plan a tour',
+        addToFavoritesAriaLabel: 'Add {{placeName}} to favorites',
+        removeFromFavoritesAriaLabel: 'Remove {{placeName}} from favorites',
+        loadingRelatedImage: 'Preparing a view of {{landmarkName}}...',
+        errorRelatedLandmarks: 'Could not find related sites. Please try again.',
+        shareCardButton: 'Create a share card',
+        shareCardFormatLabel: 'Card format',
+        shareCardSquare: 'Square',
+        shareCardStory: 'Story',
+        shareCardShare: 'Share image',
+        shareCardDownload: 'Download image',
+        shareCardTagline: 'Explore, plan and discover',
+        shareCardText: 'I discovered {{landmarkName}} with Scout AI!',
+        altShareCard: 'Share card for {{landmarkName}}',
+        errorShareCard: 'The share card could not be created.',
+        errorDiscoveryNotFound: 'This discovery is no longer in your journal.',
+        audioSeekLabel: 'Audio position',
+        audioPositionValue: '{{current}} of {{total}}',
+        audioSpeedLabel: 'Playback speed',
+        audioDownloadAriaLabel: 'Download the audio of {{title}}',
+        audioDownloadWav: 'WAV (best quality)',
+        audioDownloadCompressed: '{{format}} (smaller file, takes as long as the audio)',
+        audioDownloadCompressing: 'Compressing audio... Click to cancel',
+        errorAudioDownload: 'The audio file could not be created.',
+        voiceLabel: 'Voice',
+        voiceAutomatic: 'Automatic ({{voice}})',
+        voicePreviewAriaLabel: 'Preview the voice {{voice}}',
+        voicePreviewSample: "Hello! I'm {{voice}}, and I'll be your guide on today's discoveries.",
+        voiceStyleFirm: 'Firm',
+        voiceStyleUpbeat: 'Upbeat',
+        voiceStyleInformative: 'Informative',
+        voiceStyleBright: 'Bright',
+        voiceStyleBreezy: 'Breezy',
+        voiceStyleYouthful: 'Youthful',
+        voiceStyleWarm: 'Warm',
+        voiceStyleMature: 'Mature',
+        errorVoicePreview: 'The voice preview could not be played.',
+        walkingTourPlayAll: 'Play all ({{count}})',
+        walkingTourStop: 'Stop tour',
+        walkingTourLabel: 'Walking tour',
+        walkingTourProgress: '{{title}} · {{current}} of {{total}}',
+        walkingTourPrevious: 'Previous place',
+        walkingTourNext: 'Next place',
+        errorHistoryInterrupted: 'The guide stopped before it was complete.',
+        funFactButtonArtwork: 'Show Me a Hidden Detail',
+        funFactButtonFood: 'How Do Locals Eat It?',
+        funFactButtonPlant: 'Is It Safe to Touch or Eat?',
+        shareTextArtwork: "Look at this artwork I found with Scout AI: {{landmarkName}}! Here's what it's about: {{history}}",
+        shareTextFood: "Look at this dish I tried with Scout AI: {{landmarkName}}! Here's the story behind it: {{history}}",
+        shareTextPlant: "Look at this plant I found with Scout AI: {{landmarkName}}! Here's what I learned about it: {{history}}",
+        shareTextSign: 'Scout AI translated this {{landmarkName}} for me: {{history}}',
+        errorFunFactMode: "Sorry, I couldn't look that up right now. Please try again later.",
+        journalFavoritesTitle: 'Favorite places',
+        generatedImageLabel: 'AI-generated image',
+        altGeneratedImage: 'AI-generated view of {{landmarkName}}',
+        errorTourPlanNotFound: 'This tour plan is not saved on this device. Enter a location to plan a new one.',
     },
     es: {
         appTitle: 'Scout AI',
@@ -230,6 +422,198 @@ export const translations: { [key: string]: { [key: string]: string } } = {
         errorImageGeneration: 'No se pudieron generar imágenes para los lugares.',
         errorNoLandmark: 'No pude identificar un monumento en esta foto. Por favor, prueba con otra.',
         errorProcessing: 'Algo salió mal al procesar la imagen. Por favor, inténtalo de nuevo.',
+        candidatePickerTitle: '¿Qué monumento es este?',
+        candidatePickerSubtitle: 'Algunos lugares se parecen. Elige el correcto y prepararé tu audioguía.',
+        candidateLowConfidenceTitle: '¿Es correcto?',
+        candidateLowConfidenceWarning: 'No estoy muy seguro de este. Confirma el monumento antes de que cree la audioguía.',
+        candidateConfidence: '{{percent}}% de coincidencia',
+        candidateNoneButton: 'Ninguno, probar otra foto',
+        takePhotoButton: 'Tomar una foto',
+        cameraStarting: 'Iniciando cámara...',
+        cameraPreviewAlt: 'Vista previa de la foto capturada',
+        cameraCloseAriaLabel: 'Cerrar cámara',
+        cameraSwitchAriaLabel: 'Cambiar entre cámara frontal y trasera',
+        cameraTorchOnAriaLabel: 'Encender linterna',
+        cameraTorchOffAriaLabel: 'Apagar linterna',
+        cameraCaptureAriaLabel: 'Capturar foto',
+        cameraRetakeButton: 'Repetir',
+        cameraUsePhotoButton: 'Usar foto',
+        errorCameraPermission: 'Se denegó el acceso a la cámara. Aún puedes subir una foto desde tu dispositivo.',
+        errorCameraUnavailable: 'No hay ninguna cámara disponible. Aún puedes subir una foto desde tu dispositivo.',
+        photoTakenAt: 'Foto tomada en {{coordinates}}',
+        photoTakenOn: 'Tomada el {{date}}',
+        exploreNearbyButton: 'Explorar cerca',
+        albumUploadHint: 'Consejo: selecciona varias fotos a la vez para crear un álbum del viaje.',
+        albumTitle: 'Álbum del viaje',
+        albumProgress: '{{done}} de {{total}} fotos procesadas',
+        albumSinglePhoto: '1 foto',
+        albumPhotoCount: '{{count}} fotos',
+        albumOpenGroupAriaLabel: 'Abrir la guía de {{landmarkName}}',
+        albumFailedTitle: 'No se pudieron identificar estas fotos',
+        albumNewButton: 'Empezar de nuevo',
+        narrationPresetLabel: 'Estilo de narración',
+        presetSummary: 'Resumen rápido',
+        presetStandard: 'Estándar',
+        presetInDepth: 'En profundidad',
+        presetKids: 'Para niños',
+        presetExpert: 'Experto',
+        factSheetTitle: 'Ficha técnica',
+        factConstructionDates: 'Construcción',
+        factArchitect: 'Arquitecto / constructor',
+        factArchitecturalStyle: 'Estilo',
+        factDimensions: 'Dimensiones',
+        factUnescoStatus: 'Estatus UNESCO',
+        factVisitingHours: 'Horario habitual',
+        factTicketInfo: 'Entradas',
+        factAccessibility: 'Accesibilidad',
+        factSheetDisclaimer: 'Los datos pueden estar desactualizados. Consulta horarios y precios en fuentes oficiales antes de tu visita.',
+        sourcesTitle: 'Fuentes',
+        journalTabTitle: 'Diario',
+        journalTitle: 'Mis descubrimientos',
+        journalDescription: 'Cada monumento que identificas se guarda en este dispositivo, con su foto, su historia y su audioguía.',
+        journalSearchPlaceholder: 'Buscar por nombre o historia...',
+        journalSortLabel: 'Ordenar descubrimientos',
+        journalSortNewest: 'Más recientes primero',
+        journalSortOldest: 'Más antiguos primero',
+        journalSortName: 'Nombre (A-Z)',
+        journalOpenAriaLabel: 'Abrir la guía de {{landmarkName}}',
+        journalDeleteAriaLabel: 'Eliminar {{landmarkName}} del diario',
+        journalDeleteConfirm: '¿Eliminar {{landmarkName}} de tus descubrimientos? No se puede deshacer.',
+        journalEmpty: 'Aún no hay descubrimientos. Identifica un monumento y aparecerá aquí.',
+        journalNoMatches: 'Ningún descubrimiento coincide con tu búsqueda.',
+        errorJournalLoad: 'No se pudieron cargar tus descubrimientos. La navegación privada puede bloquear el almacenamiento local.',
+        errorJournalDelete: 'No se pudo eliminar el descubrimiento. Inténtalo de nuevo.',
+        helpModalJournalTitle: 'Mis descubrimientos',
+        helpModalJournalContent: 'Cada monumento que identificas se guarda en tu diario en este dispositivo. Busca u ordena tus descubrimientos y vuelve a abrir cualquier guía al instante, incluso después de recargar la página.',
+        audioGuidePreparing: 'Preparando audio...',
+        audioGuideUnavailable: 'El audio no está disponible para esta guía.',
+        scanModeLabel: '¿Qué estás escaneando?',
+        scanModeLandmark: 'Monumento',
+        scanModeArtwork: 'Obra de arte',
+        scanModeFood: 'Plato',
+        scanModePlant: 'Planta',
+        scanModeSign: 'Cartel',
+        scanModeHintArtwork: 'Fotografía una pintura, escultura o pieza de museo para conocer al artista y su significado.',
+        scanModeHintFood: 'Fotografía un plato para saber qué es, de dónde viene y cómo se come.',
+        scanModeHintPlant: 'Fotografía una planta o flor para identificar la especie y aprender sobre ella.',
+        scanModeHintSign: 'Fotografía un cartel, menú o placa para leerlo en tu idioma.',
+        guideTitleArtwork: 'Sobre esta obra',
+        guideTitleFood: 'Sobre este plato',
+        guideTitlePlant: 'Sobre esta planta',
+        guideTitleSign: 'Traducción',
+        originalTextTitle: 'Texto original',
+        chatbotSystemInstructionSubject: 'Eres un amigable y experto chatbot guía de Scout AI. El usuario fotografió {{landmarkName}}. Responde las preguntas sobre ello de forma concisa y atractiva. Si una pregunta no está relacionada, redirige suavemente la conversación hacia ello.',
+        candidatePickerTitleSubject: '¿Qué es esto?',
+        candidatePickerSubtitleSubject: 'Algunas opciones se parecen. Elige la correcta y prepararé tu guía.',
+        candidateLowConfidenceWarningSubject: 'No estoy muy seguro de esto. Confírmalo antes de que cree la guía.',
+        scanModeTranslate: 'Traducir',
+        scanModeHintTranslate: 'Fotografía un menú, cartel o placa para ver su texto traducido sobre la foto.',
+        translationTitle: 'Texto traducido',
+        translationShowOriginal: 'Ver original',
+        translationShowTranslation: 'Ver traducción',
+        translationHint: 'Toca una traducción para escuchar cómo se pronuncia el texto original.',
+        altTranslatedPhoto: 'Tu foto con el texto traducido',
+        pronounceAriaLabel: 'Escuchar la pronunciación de "{{text}}"',
+        errorPronunciation: 'No se pudo generar la pronunciación. Inténtalo de nuevo.',
+        thenAndNowTitle: 'Míralo en el pasado',
+        thenAndNowDescription: 'Reconstruye tu foto tal como se veía el monumento en otra época y arrastra el control para comparar.',
+        thenAndNowEraLabel: 'Época',
+        eraConstruction: 'Al construirse',
+        eraCenturyAgo: 'Hace 100 años',
+        eraFiftyYearsAgo: 'Hace 50 años',
+        thenAndNowButton: 'Reconstruir',
+        thenAndNowGenerating: 'Reconstruyendo...',
+        thenAndNowAiLabel: 'Reconstrucción con IA · {{era}}',
+        thenAndNowTodayLabel: 'Tu foto',
+        thenAndNowSliderLabel: 'Compara la reconstrucción con tu foto',
+        thenAndNowDisclaimer: 'Esta imagen fue generada por IA. Es una interpretación artística y puede no ser históricamente precisa.',
+        altReconstruction: 'Reconstrucción con IA de {{landmarkName}}, {{era}}',
+        errorReconstruction: 'No se pudo generar la reconstrucción. Inténtalo de nuevo.',
+        cancelButton: 'Cancelar',
+        errorImageTooLarge: 'Esta imagen es demasiado grande. Elige una de menos de {{maxSize}} MB.',
+        errorImageUrlInvalid: 'Introduce una dirección web que empiece por http:// o https://.',
+        errorImageUrlDownload: 'No se pudo descargar la imagen. Es posible que el sitio web no lo permita; prueba a guardarla y subirla.',
+        dropZoneActive: 'Suelta tus fotos aquí',
+        dropZoneHint: 'También puedes arrastrar fotos aquí o pegar una imagen con Ctrl+V.',
+        imageUrlPlaceholder: 'O pega la URL de una imagen',
+        imageUrlButton: 'Identificar',
+        quizTitle: 'Hora del quiz',
+        quizButton: 'Ponme a prueba',
+        quizLoading: 'Preparando tus preguntas...',
+        quizProgress: 'Pregunta {{current}} de {{total}}',
+        quizCorrect: '¡Correcto!',
+        quizIncorrect: 'No exactamente.',
+        quizNextButton: 'Siguiente pregunta',
+        quizResultsButton: 'Ver mi puntuación',
+        quizScore: 'Has acertado {{correct}} de {{total}}',
+        quizBestScore: 'Mejor puntuación: {{correct}}/{{total}}',
+        quizNewBest: '¡Nueva mejor puntuación!',
+        quizRetryButton: 'Probar preguntas nuevas',
+        errorQuiz: 'No se pudo crear el quiz. Inténtalo de nuevo.',
+        relatedTitle: 'Cercanos y relacionados',
+        relatedDescription: 'Adónde ir ahora: lugares cercanos o unidos por arquitecto, época o historia.',
+        relatedButton: 'Sugerir qué ver ahora',
+        relatedLoading: 'Buscando lugares relacionados...',
+        relatedEmpty: 'No se encontraron lugares relacionados.',
+        relatedNearbyLabel: 'Cercano',
+        relatedThematicLabel: 'Relacionado',
+        relatedOpenGuide: 'Abrir guía',
+        relatedPlanTour: 'Planificar un tour',
+        addToFavoritesAriaLabel: 'Añadir {{placeName}} a favoritos',
+        removeFromFavoritesAriaLabel: 'Quitar {{placeName}} de favoritos',
+        loadingRelatedImage: 'Preparando una vista de {{landmarkName}}...',
+        errorRelatedLandmarks: 'No se pudieron encontrar lugares relacionados. Inténtalo de nuevo.',
+        shareCardButton: 'Crear una tarjeta para compartir',
+        shareCardFormatLabel: 'Formato de la tarjeta',
+        shareCardSquare: 'Cuadrado',
+        shareCardStory: 'Historia',
+        shareCardShare: 'Compartir imagen',
+        shareCardDownload: 'Descargar imagen',
+        shareCardTagline: 'Explora, planifica y descubre',
+        shareCardText: '¡Descubrí {{landmarkName}} con Scout AI!',
+        altShareCard: 'Tarjeta para compartir de {{landmarkName}}',
+        errorShareCard: 'No se pudo crear la tarjeta para compartir.',
+        errorDiscoveryNotFound: 'Este descubrimiento ya no está en tu diario.',
+        audioSeekLabel: 'Posición del audio',
+        audioPositionValue: '{{current}} de {{total}}',
+        audioSpeedLabel: 'Velocidad de reproducción',
+        audioDownloadAriaLabel: 'Descargar el audio de {{title}}',
+        audioDownloadWav: 'WAV (máxima calidad)',
+        audioDownloadCompressed: '{{format}} (archivo más pequeño, tarda lo que dura el audio)',
+        audioDownloadCompressing: 'Comprimiendo el audio... Haz clic para cancelar',
+        errorAudioDownload: 'No se pudo crear el archivo de audio.',
+        voiceLabel: 'Voz',
+        voiceAutomatic: 'Automática ({{voice}})',
+        voicePreviewAriaLabel: 'Escuchar la voz {{voice}}',
+        voicePreviewSample: '¡Hola! Soy {{voice}} y seré tu guía en los descubrimientos de hoy.',
+        voiceStyleFirm: 'Firme',
+        voiceStyleUpbeat: 'Animada',
+        voiceStyleInformative: 'Informativa',
+        voiceStyleBright: 'Luminosa',
+        voiceStyleBreezy: 'Desenfadada',
+        voiceStyleYouthful: 'Juvenil',
+        voiceStyleWarm: 'Cálida',
+        voiceStyleMature: 'Madura',
+        errorVoicePreview: 'No se pudo reproducir la muestra de voz.',
+        walkingTourPlayAll: 'Reproducir todo ({{count}})',
+        walkingTourStop: 'Detener el recorrido',
+        walkingTourLabel: 'Recorrido a pie',
+        walkingTourProgress: '{{title}} · {{current}} de {{total}}',
+        walkingTourPrevious: 'Lugar anterior',
+        walkingTourNext: 'Siguiente lugar',
+        errorHistoryInterrupted: 'La guía se detuvo antes de completarse.',
+        funFactButtonArtwork: 'Muéstrame un detalle oculto',
+        funFactButtonFood: '¿Cómo lo comen los locales?',
+        funFactButtonPlant: '¿Es seguro tocarla o comerla?',
+        shareTextArtwork: '¡Mira esta obra de arte que encontré con Scout AI: {{landmarkName}}! De esto trata: {{history}}',
+        shareTextFood: '¡Mira este plato que probé con Scout AI: {{landmarkName}}! Esta es su historia: {{history}}',
+        shareTextPlant: '¡Mira esta planta que encontré con Scout AI: {{landmarkName}}! Esto es lo que aprendí: {{history}}',
+        shareTextSign: 'Scout AI me tradujo este texto ({{landmarkName}}): {{history}}',
+        errorFunFactMode: 'Lo siento, no pude averiguarlo en este momento. Por favor, inténtalo de nuevo más tarde.',
+        journalFavoritesTitle: 'Lugares favoritos',
+        generatedImageLabel: 'Imagen generada por IA',
+        altGeneratedImage: 'Vista de {{landmarkName}} generada por IA',
+        errorTourPlanNotFound: 'Este plan de visita no está guardado en este dispositivo. Introduce un lugar para planificar uno nuevo.',
     },
     fr: {
         appTitle: 'Scout AI',
@@ -339,6 +723,198 @@ export const translations: { [key: string]: { [key: string]: string } } = {
         errorImageGeneration: 'Impossible de générer des images pour les lieux.',
         errorNoLandmark: 'Je n\'ai pas pu identifier de monument sur cette photo. Veuillez en essayer une autre.',
         errorProcessing: 'Une erreur s\'est produite lors du traitement de l\'image.',
+        candidatePickerTitle: 'Quel monument est-ce ?',
+        candidatePickerSubtitle: 'Plusieurs lieux se ressemblent. Choisissez le bon et je préparerai votre guide audio.',
+        candidateLowConfidenceTitle: 'Est-ce correct ?',
+        candidateLowConfidenceWarning: 'Je ne suis pas très sûr de celui-ci. Veuillez confirmer le monument avant que je crée le guide audio.',
+        candidateConfidence: '{{percent}} % de correspondance',
+        candidateNoneButton: 'Aucun, essayer une autre photo',
+        takePhotoButton: 'Prendre une photo',
+        cameraStarting: 'Démarrage de la caméra...',
+        cameraPreviewAlt: 'Aperçu de la photo prise',
+        cameraCloseAriaLabel: 'Fermer la caméra',
+        cameraSwitchAriaLabel: 'Basculer entre la caméra avant et arrière',
+        cameraTorchOnAriaLabel: 'Allumer la lampe',
+        cameraTorchOffAriaLabel: 'Éteindre la lampe',
+        cameraCaptureAriaLabel: 'Prendre la photo',
+        cameraRetakeButton: 'Reprendre',
+        cameraUsePhotoButton: 'Utiliser la photo',
+        errorCameraPermission: "L'accès à la caméra a été refusé. Vous pouvez toujours importer une photo depuis votre appareil.",
+        errorCameraUnavailable: "Aucune caméra n'est disponible pour le moment. Vous pouvez toujours importer une photo depuis votre appareil.",
+        photoTakenAt: 'Photo prise à {{coordinates}}',
+        photoTakenOn: 'Prise le {{date}}',
+        exploreNearbyButton: 'Explorer les environs',
+        albumUploadHint: 'Astuce : sélectionnez plusieurs photos à la fois pour créer un album de voyage.',
+        albumTitle: 'Album de voyage',
+        albumProgress: '{{done}} photos traitées sur {{total}}',
+        albumSinglePhoto: '1 photo',
+        albumPhotoCount: '{{count}} photos',
+        albumOpenGroupAriaLabel: 'Ouvrir le guide de {{landmarkName}}',
+        albumFailedTitle: "Impossible d'identifier ces photos",
+        albumNewButton: 'Recommencer',
+        narrationPresetLabel: 'Style de narration',
+        presetSummary: 'Résumé rapide',
+        presetStandard: 'Standard',
+        presetInDepth: 'Approfondi',
+        presetKids: 'Pour enfants',
+        presetExpert: 'Expert',
+        factSheetTitle: "Fiche d'information",
+        factConstructionDates: 'Construction',
+        factArchitect: 'Architecte / bâtisseur',
+        factArchitecturalStyle: 'Style',
+        factDimensions: 'Dimensions',
+        factUnescoStatus: 'Statut UNESCO',
+        factVisitingHours: 'Horaires habituels',
+        factTicketInfo: 'Billets',
+        factAccessibility: 'Accessibilité',
+        factSheetDisclaimer: 'Ces informations peuvent être obsolètes. Vérifiez les horaires et les tarifs auprès des sources officielles avant votre visite.',
+        sourcesTitle: 'Sources',
+        journalTabTitle: 'Journal',
+        journalTitle: 'Mes découvertes',
+        journalDescription: 'Chaque monument identifié est enregistré sur cet appareil, avec sa photo, son histoire et son audioguide.',
+        journalSearchPlaceholder: 'Rechercher par nom ou histoire...',
+        journalSortLabel: 'Trier les découvertes',
+        journalSortNewest: "Plus récentes d'abord",
+        journalSortOldest: "Plus anciennes d'abord",
+        journalSortName: 'Nom (A-Z)',
+        journalOpenAriaLabel: 'Ouvrir le guide de {{landmarkName}}',
+        journalDeleteAriaLabel: 'Supprimer {{landmarkName}} du journal',
+        journalDeleteConfirm: 'Supprimer {{landmarkName}} de vos découvertes ? Cette action est irréversible.',
+        journalEmpty: "Aucune découverte pour l'instant. Identifiez un monument et il apparaîtra ici.",
+        journalNoMatches: 'Aucune découverte ne correspond à votre recherche.',
+        errorJournalLoad: 'Impossible de charger vos découvertes. La navigation privée peut bloquer le stockage local.',
+        errorJournalDelete: 'Impossible de supprimer la découverte. Veuillez réessayer.',
+        helpModalJournalTitle: 'Mes découvertes',
+        helpModalJournalContent: "Chaque monument identifié est conservé dans votre journal sur cet appareil. Recherchez ou triez vos découvertes et rouvrez n'importe quel guide instantanément, même après avoir rechargé la page.",
+        audioGuidePreparing: "Préparation de l'audio...",
+        audioGuideUnavailable: "L'audio n'est pas disponible pour ce guide.",
+        scanModeLabel: 'Que scannez-vous ?',
+        scanModeLandmark: 'Monument',
+        scanModeArtwork: "Œuvre d'art",
+        scanModeFood: 'Plat',
+        scanModePlant: 'Plante',
+        scanModeSign: 'Panneau',
+        scanModeHintArtwork: "Photographiez un tableau, une sculpture ou une pièce de musée pour découvrir l'artiste et sa signification.",
+        scanModeHintFood: "Photographiez un plat pour savoir ce que c'est, d'où il vient et comment il se mange.",
+        scanModeHintPlant: "Photographiez une plante ou une fleur pour identifier l'espèce et en savoir plus.",
+        scanModeHintSign: 'Photographiez un panneau, un menu ou une plaque pour le lire dans votre langue.',
+        guideTitleArtwork: 'À propos de cette œuvre',
+        guideTitleFood: 'À propos de ce plat',
+        guideTitlePlant: 'À propos de cette plante',
+        guideTitleSign: 'Traduction',
+        originalTextTitle: 'Texte original',
+        chatbotSystemInstructionSubject: "Vous êtes un chatbot guide sympathique et compétent de Scout AI. L'utilisateur a photographié {{landmarkName}}. Répondez aux questions à ce sujet de manière concise et engageante. Si une question est hors sujet, ramenez doucement la conversation vers celui-ci.",
+        candidatePickerTitleSubject: "Qu'est-ce que c'est ?",
+        candidatePickerSubtitleSubject: 'Plusieurs correspondances se ressemblent. Choisissez la bonne et je préparerai votre guide.',
+        candidateLowConfidenceWarningSubject: "Je n'en suis pas très sûr. Veuillez confirmer avant que je crée le guide.",
+        scanModeTranslate: 'Traduire',
+        scanModeHintTranslate: 'Photographiez un menu, un panneau ou une plaque pour voir son texte traduit directement sur la photo.',
+        translationTitle: 'Texte traduit',
+        translationShowOriginal: "Voir l'original",
+        translationShowTranslation: 'Voir la traduction',
+        translationHint: 'Touchez une traduction pour entendre la prononciation du texte original.',
+        altTranslatedPhoto: 'Votre photo avec le texte traduit',
+        pronounceAriaLabel: 'Écouter la prononciation de « {{text}} »',
+        errorPronunciation: "La prononciation n'a pas pu être générée. Veuillez réessayer.",
+        thenAndNowTitle: 'Voyez-le dans le passé',
+        thenAndNowDescription: 'Reconstituez votre photo telle que le monument était à une autre époque, puis faites glisser le curseur pour comparer.',
+        thenAndNowEraLabel: 'Époque',
+        eraConstruction: 'À sa construction',
+        eraCenturyAgo: 'Il y a 100 ans',
+        eraFiftyYearsAgo: 'Il y a 50 ans',
+        thenAndNowButton: 'Reconstituer',
+        thenAndNowGenerating: 'Reconstitution...',
+        thenAndNowAiLabel: 'Reconstitution par IA · {{era}}',
+        thenAndNowTodayLabel: 'Votre photo',
+        thenAndNowSliderLabel: 'Comparez la reconstitution avec votre photo',
+        thenAndNowDisclaimer: "Cette image a été générée par IA. C'est une interprétation artistique qui peut ne pas être historiquement exacte.",
+        altReconstruction: 'Reconstitution par IA de {{landmarkName}}, {{era}}',
+        errorReconstruction: "La reconstitution n'a pas pu être générée. Veuillez réessayer.",
+        cancelButton: 'Annuler',
+        errorImageTooLarge: 'Cette image est trop volumineuse. Veuillez en choisir une de moins de {{maxSize}} Mo.',
+        errorImageUrlInvalid: 'Veuillez saisir une adresse web commençant par http:// ou https://.',
+        errorImageUrlDownload: "L'image n'a pas pu être téléchargée. Le site ne l'autorise peut-être pas ; essayez de l'enregistrer puis de la téléverser.",
+        dropZoneActive: 'Déposez vos photos ici',
+        dropZoneHint: 'Vous pouvez aussi glisser des photos ici ou coller une image avec Ctrl+V.',
+        imageUrlPlaceholder: "Ou collez l'URL d'une image",
+        imageUrlButton: 'Identifier',
+        quizTitle: "C'est l'heure du quiz",
+        quizButton: 'Testez-moi',
+        quizLoading: 'Préparation de vos questions...',
+        quizProgress: 'Question {{current}} sur {{total}}',
+        quizCorrect: 'Bonne réponse !',
+        quizIncorrect: 'Pas tout à fait.',
+        quizNextButton: 'Question suivante',
+        quizResultsButton: 'Voir mon score',
+        quizScore: 'Vous avez obtenu {{correct}} sur {{total}}',
+        quizBestScore: 'Meilleur score : {{correct}}/{{total}}',
+        quizNewBest: 'Nouveau meilleur score !',
+        quizRetryButton: 'Essayer de nouvelles questions',
+        errorQuiz: "Le quiz n'a pas pu être créé. Veuillez réessayer.",
+        relatedTitle: 'À proximité et liés',
+        relatedDescription: "Où aller ensuite : des sites proches, ou liés par l'architecte, l'époque ou l'histoire.",
+        relatedButton: 'Suggérer la suite',
+        relatedLoading: 'Recherche de sites liés...',
+        relatedEmpty: "Aucun site lié n'a été trouvé.",
+        relatedNearbyLabel: 'À proximité',
+        relatedThematicLabel: 'Lié',
+        relatedOpenGuide: 'Ouvrir le guide',
+        relatedPlanTour: 'Planifier une visite',
+        addToFavoritesAriaLabel: 'Ajouter {{placeName}} aux favoris',
+        removeFromFavoritesAriaLabel: 'Retirer {{placeName}} des favoris',
+        loadingRelatedImage: "Préparation d'une vue de {{landmarkName}}...",
+        errorRelatedLandmarks: 'Impossible de trouver des sites liés. Veuillez réessayer.',
+        shareCardButton: 'Créer une carte à partager',
+        shareCardFormatLabel: 'Format de la carte',
+        shareCardSquare: 'Carré',
+        shareCardStory: 'Story',
+        shareCardShare: "Partager l'image",
+        shareCardDownload: "Télécharger l'image",
+        shareCardTagline: 'Explorez, planifiez et découvrez',
+        shareCardText: "J'ai découvert {{landmarkName}} avec Scout AI !",
+        altShareCard: 'Carte à partager pour {{landmarkName}}',
+        errorShareCard: "La carte à partager n'a pas pu être créée.",
+        errorDiscoveryNotFound: "Cette découverte n'est plus dans votre journal.",
+        audioSeekLabel: "Position de l'audio",
+        audioPositionValue: '{{current}} sur {{total}}',
+        audioSpeedLabel: 'Vitesse de lecture',
+        audioDownloadAriaLabel: "Télécharger l'audio de {{title}}",
+        audioDownloadWav: 'WAV (meilleure qualité)',
+        audioDownloadCompressed: "{{format}} (fichier plus léger, prend la durée de l'audio)",
+        audioDownloadCompressing: "Compression de l'audio... Cliquez pour annuler",
+        errorAudioDownload: "Le fichier audio n'a pas pu être créé.",
+        voiceLabel: 'Voix',
+        voiceAutomatic: 'Automatique ({{voice}})',
+        voicePreviewAriaLabel: 'Écouter la voix {{voice}}',
+        voicePreviewSample: 'Bonjour ! Je suis {{voice}}, et je serai votre guide pour les découvertes du jour.',
+        voiceStyleFirm: 'Assurée',
+        voiceStyleUpbeat: 'Enjouée',
+        voiceStyleInformative: 'Informative',
+        voiceStyleBright: 'Lumineuse',
+        voiceStyleBreezy: 'Légère',
+        voiceStyleYouthful: 'Jeune',
+        voiceStyleWarm: 'Chaleureuse',
+        voiceStyleMature: 'Posée',
+        errorVoicePreview: "L'aperçu de la voix n'a pas pu être lu.",
+        walkingTourPlayAll: 'Tout écouter ({{count}})',
+        walkingTourStop: 'Arrêter la visite',
+        walkingTourLabel: 'Visite à pied',
+        walkingTourProgress: '{{title}} · {{current}} sur {{total}}',
+        walkingTourPrevious: 'Lieu précédent',
+        walkingTourNext: 'Lieu suivant',
+        errorHistoryInterrupted: "Le guide s'est interrompu avant d'être terminé.",
+        funFactButtonArtwork: 'Montrez-moi un détail caché',
+        funFactButtonFood: 'Comment les habitants le mangent-ils ?',
+        funFactButtonPlant: 'Peut-on la toucher ou la manger ?',
+        shareTextArtwork: "Regardez cette œuvre que j'ai trouvée avec Scout AI : {{landmarkName}} ! Voici de quoi il s'agit : {{history}}",
+        shareTextFood: "Regardez ce plat que j'ai goûté avec Scout AI : {{landmarkName}} ! Voici son histoire : {{history}}",
+        shareTextPlant: "Regardez cette plante que j'ai trouvée avec Scout AI : {{landmarkName}} ! Voici ce que j'ai appris : {{history}}",
+        shareTextSign: "Scout AI m'a traduit ce texte ({{landmarkName}}) : {{history}}",
+        errorFunFactMode: "Désolé, je n'ai pas pu trouver cette information pour le moment.",
+        journalFavoritesTitle: 'Lieux favoris',
+        generatedImageLabel: 'Image générée par IA',
+        altGeneratedImage: 'Vue de {{landmarkName}} générée par IA',
+        errorTourPlanNotFound: "Ce plan de visite n'est pas enregistré sur cet appareil. Saisissez un lieu pour en créer un nouveau.",
     },
     de: {
         appTitle: 'Scout AI',
@@ -448,6 +1024,198 @@ export const translations: { [key: string]: { [key: string]: string } } = {
         errorImageGeneration: 'Bilder für die Orte konnten nicht generiert werden.',
         errorNoLandmark: 'Ich konnte kein Wahrzeichen auf diesem Foto identifizieren. Bitte versuchen Sie es mit einem anderen.',
         errorProcessing: 'Bei der Verarbeitung des Bildes ist ein Fehler aufgetreten.',
+        candidatePickerTitle: 'Welches Wahrzeichen ist das?',
+        candidatePickerSubtitle: 'Einige Orte sehen sich ähnlich. Wähle den richtigen aus und ich erstelle deinen Audioguide.',
+        candidateLowConfidenceTitle: 'Stimmt das?',
+        candidateLowConfidenceWarning: 'Ich bin mir hier nicht ganz sicher. Bitte bestätige das Wahrzeichen, bevor ich den Audioguide erstelle.',
+        candidateConfidence: '{{percent}} % Übereinstimmung',
+        candidateNoneButton: 'Keiner davon, anderes Foto versuchen',
+        takePhotoButton: 'Foto aufnehmen',
+        cameraStarting: 'Kamera wird gestartet...',
+        cameraPreviewAlt: 'Vorschau des aufgenommenen Fotos',
+        cameraCloseAriaLabel: 'Kamera schließen',
+        cameraSwitchAriaLabel: 'Zwischen Front- und Rückkamera wechseln',
+        cameraTorchOnAriaLabel: 'Taschenlampe einschalten',
+        cameraTorchOffAriaLabel: 'Taschenlampe ausschalten',
+        cameraCaptureAriaLabel: 'Foto aufnehmen',
+        cameraRetakeButton: 'Neu aufnehmen',
+        cameraUsePhotoButton: 'Foto verwenden',
+        errorCameraPermission: 'Der Kamerazugriff wurde verweigert. Du kannst trotzdem ein Foto von deinem Gerät hochladen.',
+        errorCameraUnavailable: 'Derzeit ist keine Kamera verfügbar. Du kannst trotzdem ein Foto von deinem Gerät hochladen.',
+        photoTakenAt: 'Foto aufgenommen bei {{coordinates}}',
+        photoTakenOn: 'Aufgenommen am {{date}}',
+        exploreNearbyButton: 'Umgebung erkunden',
+        albumUploadHint: 'Tipp: Wähle mehrere Fotos gleichzeitig aus, um ein Reisealbum zu erstellen.',
+        albumTitle: 'Reisealbum',
+        albumProgress: '{{done}} von {{total}} Fotos verarbeitet',
+        albumSinglePhoto: '1 Foto',
+        albumPhotoCount: '{{count}} Fotos',
+        albumOpenGroupAriaLabel: 'Guide für {{landmarkName}} öffnen',
+        albumFailedTitle: 'Diese Fotos konnten nicht erkannt werden',
+        albumNewButton: 'Neu beginnen',
+        narrationPresetLabel: 'Erzählstil',
+        presetSummary: 'Kurzfassung',
+        presetStandard: 'Standard',
+        presetInDepth: 'Ausführlich',
+        presetKids: 'Für Kinder',
+        presetExpert: 'Experte',
+        factSheetTitle: 'Steckbrief',
+        factConstructionDates: 'Erbaut',
+        factArchitect: 'Architekt / Erbauer',
+        factArchitecturalStyle: 'Stil',
+        factDimensions: 'Abmessungen',
+        factUnescoStatus: 'UNESCO-Status',
+        factVisitingHours: 'Übliche Öffnungszeiten',
+        factTicketInfo: 'Eintritt',
+        factAccessibility: 'Barrierefreiheit',
+        factSheetDisclaimer: 'Die Angaben können veraltet sein. Prüfe Öffnungszeiten und Preise vor deinem Besuch bei offiziellen Quellen.',
+        sourcesTitle: 'Quellen',
+        journalTabTitle: 'Tagebuch',
+        journalTitle: 'Meine Entdeckungen',
+        journalDescription: 'Jede erkannte Sehenswürdigkeit wird mit Foto, Geschichte und Audioguide auf diesem Gerät gespeichert.',
+        journalSearchPlaceholder: 'Nach Name oder Geschichte suchen...',
+        journalSortLabel: 'Entdeckungen sortieren',
+        journalSortNewest: 'Neueste zuerst',
+        journalSortOldest: 'Älteste zuerst',
+        journalSortName: 'Name (A-Z)',
+        journalOpenAriaLabel: 'Guide für {{landmarkName}} öffnen',
+        journalDeleteAriaLabel: '{{landmarkName}} aus dem Tagebuch löschen',
+        journalDeleteConfirm: '{{landmarkName}} aus deinen Entdeckungen löschen? Das kann nicht rückgängig gemacht werden.',
+        journalEmpty: 'Noch keine Entdeckungen. Erkenne eine Sehenswürdigkeit und sie erscheint hier.',
+        journalNoMatches: 'Keine Entdeckungen passen zu deiner Suche.',
+        errorJournalLoad: 'Deine Entdeckungen konnten nicht geladen werden. Privates Surfen kann den lokalen Speicher blockieren.',
+        errorJournalDelete: 'Die Entdeckung konnte nicht gelöscht werden. Bitte versuche es erneut.',
+        helpModalJournalTitle: 'Meine Entdeckungen',
+        helpModalJournalContent: 'Jede erkannte Sehenswürdigkeit bleibt in deinem Tagebuch auf diesem Gerät. Durchsuche oder sortiere deine Entdeckungen und öffne jeden Guide sofort wieder, auch nach dem Neuladen der Seite.',
+        audioGuidePreparing: 'Audio wird vorbereitet...',
+        audioGuideUnavailable: 'Für diesen Guide ist kein Audio verfügbar.',
+        scanModeLabel: 'Was scannst du?',
+        scanModeLandmark: 'Sehenswürdigkeit',
+        scanModeArtwork: 'Kunstwerk',
+        scanModeFood: 'Gericht',
+        scanModePlant: 'Pflanze',
+        scanModeSign: 'Schild',
+        scanModeHintArtwork: 'Fotografiere ein Gemälde, eine Skulptur oder ein Museumsstück, um mehr über den Künstler und die Bedeutung zu erfahren.',
+        scanModeHintFood: 'Fotografiere ein Gericht, um zu erfahren, was es ist, woher es stammt und wie man es isst.',
+        scanModeHintPlant: 'Fotografiere eine Pflanze oder Blume, um die Art zu bestimmen und mehr darüber zu erfahren.',
+        scanModeHintSign: 'Fotografiere ein Schild, eine Speisekarte oder eine Tafel, um sie in deiner Sprache zu lesen.',
+        guideTitleArtwork: 'Über dieses Kunstwerk',
+        guideTitleFood: 'Über dieses Gericht',
+        guideTitlePlant: 'Über diese Pflanze',
+        guideTitleSign: 'Übersetzung',
+        originalTextTitle: 'Originaltext',
+        chatbotSystemInstructionSubject: 'Du bist ein freundlicher und sachkundiger Guide-Chatbot von Scout AI. Der Nutzer hat {{landmarkName}} fotografiert. Beantworte Fragen dazu kurz und ansprechend. Wenn eine Frage nicht zum Thema passt, lenke das Gespräch sanft darauf zurück.',
+        candidatePickerTitleSubject: 'Was ist das?',
+        candidatePickerSubtitleSubject: 'Einige Treffer sehen sich ähnlich. Wähle den richtigen und ich bereite deinen Guide vor.',
+        candidateLowConfidenceWarningSubject: 'Da bin ich mir nicht ganz sicher. Bitte bestätige es, bevor ich den Guide erstelle.',
+        scanModeTranslate: 'Übersetzen',
+        scanModeHintTranslate: 'Fotografiere eine Speisekarte, ein Schild oder eine Tafel, um den Text direkt auf dem Foto übersetzt zu sehen.',
+        translationTitle: 'Übersetzter Text',
+        translationShowOriginal: 'Original anzeigen',
+        translationShowTranslation: 'Übersetzung anzeigen',
+        translationHint: 'Tippe auf eine Übersetzung, um zu hören, wie der Originaltext ausgesprochen wird.',
+        altTranslatedPhoto: 'Dein Foto mit übersetztem Text',
+        pronounceAriaLabel: 'Aussprache von „{{text}}“ anhören',
+        errorPronunciation: 'Die Aussprache konnte nicht erzeugt werden. Bitte versuche es erneut.',
+        thenAndNowTitle: 'Sieh es in der Vergangenheit',
+        thenAndNowDescription: 'Rekonstruiere dein Foto so, wie die Sehenswürdigkeit in einer anderen Epoche aussah, und ziehe den Regler zum Vergleichen.',
+        thenAndNowEraLabel: 'Epoche',
+        eraConstruction: 'Bei der Fertigstellung',
+        eraCenturyAgo: 'Vor 100 Jahren',
+        eraFiftyYearsAgo: 'Vor 50 Jahren',
+        thenAndNowButton: 'Rekonstruieren',
+        thenAndNowGenerating: 'Wird rekonstruiert...',
+        thenAndNowAiLabel: 'KI-Rekonstruktion · {{era}}',
+        thenAndNowTodayLabel: 'Dein Foto',
+        thenAndNowSliderLabel: 'Vergleiche die Rekonstruktion mit deinem Foto',
+        thenAndNowDisclaimer: 'Dieses Bild wurde von einer KI erzeugt. Es ist eine künstlerische Interpretation und möglicherweise historisch nicht korrekt.',
+        altReconstruction: 'KI-Rekonstruktion von {{landmarkName}}, {{era}}',
+        errorReconstruction: 'Die Rekonstruktion konnte nicht erzeugt werden. Bitte versuche es erneut.',
+        cancelButton: 'Abbrechen',
+        errorImageTooLarge: 'Dieses Bild ist zu groß. Bitte wähle eins unter {{maxSize}} MB.',
+        errorImageUrlInvalid: 'Bitte gib eine Webadresse ein, die mit http:// oder https:// beginnt.',
+        errorImageUrlDownload: 'Das Bild konnte nicht heruntergeladen werden. Die Website erlaubt es möglicherweise nicht; speichere das Bild und lade es stattdessen hoch.',
+        dropZoneActive: 'Fotos hier ablegen',
+        dropZoneHint: 'Du kannst Fotos auch hierher ziehen oder ein Bild mit Strg+V einfügen.',
+        imageUrlPlaceholder: 'Oder Bild-URL einfügen',
+        imageUrlButton: 'Erkennen',
+        quizTitle: 'Quizzeit',
+        quizButton: 'Frag mich ab',
+        quizLoading: 'Deine Fragen werden vorbereitet...',
+        quizProgress: 'Frage {{current}} von {{total}}',
+        quizCorrect: 'Richtig!',
+        quizIncorrect: 'Nicht ganz.',
+        quizNextButton: 'Nächste Frage',
+        quizResultsButton: 'Ergebnis anzeigen',
+        quizScore: 'Du hast {{correct}} von {{total}} richtig',
+        quizBestScore: 'Bestes Ergebnis: {{correct}}/{{total}}',
+        quizNewBest: 'Neuer Bestwert!',
+        quizRetryButton: 'Neue Fragen versuchen',
+        errorQuiz: 'Das Quiz konnte nicht erstellt werden. Bitte versuche es erneut.',
+        relatedTitle: 'In der Nähe & verwandt',
+        relatedDescription: 'Wohin als Nächstes: Orte in der Nähe oder verbunden durch Architekt, Epoche oder Geschichte.',
+        relatedButton: 'Nächste Ziele vorschlagen',
+        relatedLoading: 'Verwandte Orte werden gesucht...',
+        relatedEmpty: 'Es wurden keine verwandten Orte gefunden.',
+        relatedNearbyLabel: 'In der Nähe',
+        relatedThematicLabel: 'Verwandt',
+        relatedOpenGuide: 'Guide öffnen',
+        relatedPlanTour: 'Tour planen',
+        addToFavoritesAriaLabel: '{{placeName}} zu Favoriten hinzufügen',
+        removeFromFavoritesAriaLabel: '{{placeName}} aus Favoriten entfernen',
+        loadingRelatedImage: 'Eine Ansicht von {{landmarkName}} wird vorbereitet...',
+        errorRelatedLandmarks: 'Verwandte Orte konnten nicht gefunden werden. Bitte versuche es erneut.',
+        shareCardButton: 'Teilkarte erstellen',
+        shareCardFormatLabel: 'Kartenformat',
+        shareCardSquare: 'Quadratisch',
+        shareCardStory: 'Story',
+        shareCardShare: 'Bild teilen',
+        shareCardDownload: 'Bild herunterladen',
+        shareCardTagline: 'Entdecken, planen und erleben',
+        shareCardText: 'Ich habe {{landmarkName}} mit Scout AI entdeckt!',
+        altShareCard: 'Teilkarte für {{landmarkName}}',
+        errorShareCard: 'Die Teilkarte konnte nicht erstellt werden.',
+        errorDiscoveryNotFound: 'Diese Entdeckung ist nicht mehr in deinem Tagebuch.',
+        audioSeekLabel: 'Audioposition',
+        audioPositionValue: '{{current}} von {{total}}',
+        audioSpeedLabel: 'Wiedergabegeschwindigkeit',
+        audioDownloadAriaLabel: 'Audio von {{title}} herunterladen',
+        audioDownloadWav: 'WAV (beste Qualität)',
+        audioDownloadCompressed: '{{format}} (kleinere Datei, dauert so lange wie das Audio)',
+        audioDownloadCompressing: 'Audio wird komprimiert... Zum Abbrechen klicken',
+        errorAudioDownload: 'Die Audiodatei konnte nicht erstellt werden.',
+        voiceLabel: 'Stimme',
+        voiceAutomatic: 'Automatisch ({{voice}})',
+        voicePreviewAriaLabel: 'Stimme {{voice}} anhören',
+        voicePreviewSample: 'Hallo! Ich bin {{voice}} und begleite Sie heute bei Ihren Entdeckungen.',
+        voiceStyleFirm: 'Bestimmt',
+        voiceStyleUpbeat: 'Fröhlich',
+        voiceStyleInformative: 'Sachlich',
+        voiceStyleBright: 'Hell',
+        voiceStyleBreezy: 'Locker',
+        voiceStyleYouthful: 'Jugendlich',
+        voiceStyleWarm: 'Warm',
+        voiceStyleMature: 'Reif',
+        errorVoicePreview: 'Die Stimmprobe konnte nicht abgespielt werden.',
+        walkingTourPlayAll: 'Alle abspielen ({{count}})',
+        walkingTourStop: 'Tour beenden',
+        walkingTourLabel: 'Rundgang',
+        walkingTourProgress: '{{title}} · {{current}} von {{total}}',
+        walkingTourPrevious: 'Vorheriger Ort',
+        walkingTourNext: 'Nächster Ort',
+        errorHistoryInterrupted: 'Der Guide wurde vor dem Ende abgebrochen.',
+        funFactButtonArtwork: 'Zeig mir ein verstecktes Detail',
+        funFactButtonFood: 'Wie essen es die Einheimischen?',
+        funFactButtonPlant: 'Darf man sie anfassen oder essen?',
+        shareTextArtwork: 'Schau dir dieses Kunstwerk an, das ich mit Scout AI gefunden habe: {{landmarkName}}! Darum geht es: {{history}}',
+        shareTextFood: 'Schau dir dieses Gericht an, das ich mit Scout AI probiert habe: {{landmarkName}}! Das steckt dahinter: {{history}}',
+        shareTextPlant: 'Schau dir diese Pflanze an, die ich mit Scout AI gefunden habe: {{landmarkName}}! Das habe ich über sie erfahren: {{history}}',
+        shareTextSign: 'Scout AI hat mir diesen Text übersetzt ({{landmarkName}}): {{history}}',
+        errorFunFactMode: 'Entschuldigung, das konnte ich gerade nicht herausfinden.',
+        journalFavoritesTitle: 'Lieblingsorte',
+        generatedImageLabel: 'KI-generiertes Bild',
+        altGeneratedImage: 'KI-generierte Ansicht von {{landmarkName}}',
+        errorTourPlanNotFound: 'Dieser Tourplan ist auf diesem Gerät nicht gespeichert. Gib einen Ort ein, um einen neuen zu planen.',
     },
     it: {
         appTitle: 'Scout AI',
@@ -557,6 +1325,198 @@ export const translations: { [key: string]: { [key: string]: string } } = {
         errorImageGeneration: 'Impossibile generare immagini per i luoghi.',
         errorNoLandmark: 'Non sono riuscito a identificare un monumento in questa foto. Per favore, provane un\'altra.',
         errorProcessing: 'Si è verificato un errore durante l\'elaborazione dell\'immagine.',
+        candidatePickerTitle: 'Quale monumento è questo?',
+        candidatePickerSubtitle: 'Alcuni luoghi si somigliano. Scegli quello giusto e preparerò la tua audioguida.',
+        candidateLowConfidenceTitle: 'È corretto?',
+        candidateLowConfidenceWarning: "Non ne sono molto sicuro. Conferma il monumento prima che crei l'audioguida.",
+        candidateConfidence: '{{percent}}% di corrispondenza',
+        candidateNoneButton: "Nessuno di questi, prova un'altra foto",
+        takePhotoButton: 'Scatta una foto',
+        cameraStarting: 'Avvio della fotocamera...',
+        cameraPreviewAlt: 'Anteprima della foto scattata',
+        cameraCloseAriaLabel: 'Chiudi fotocamera',
+        cameraSwitchAriaLabel: 'Passa tra fotocamera anteriore e posteriore',
+        cameraTorchOnAriaLabel: 'Accendi torcia',
+        cameraTorchOffAriaLabel: 'Spegni torcia',
+        cameraCaptureAriaLabel: 'Scatta foto',
+        cameraRetakeButton: 'Riscatta',
+        cameraUsePhotoButton: 'Usa foto',
+        errorCameraPermission: "L'accesso alla fotocamera è stato negato. Puoi comunque caricare una foto dal tuo dispositivo.",
+        errorCameraUnavailable: 'Nessuna fotocamera disponibile al momento. Puoi comunque caricare una foto dal tuo dispositivo.',
+        photoTakenAt: 'Foto scattata a {{coordinates}}',
+        photoTakenOn: 'Scattata il {{date}}',
+        exploreNearbyButton: 'Esplora nei dintorni',
+        albumUploadHint: 'Suggerimento: seleziona più foto insieme per creare un album del viaggio.',
+        albumTitle: 'Album del viaggio',
+        albumProgress: '{{done}} foto elaborate su {{total}}',
+        albumSinglePhoto: '1 foto',
+        albumPhotoCount: '{{count}} foto',
+        albumOpenGroupAriaLabel: 'Apri la guida di {{landmarkName}}',
+        albumFailedTitle: 'Impossibile identificare queste foto',
+        albumNewButton: 'Ricomincia',
+        narrationPresetLabel: 'Stile di narrazione',
+        presetSummary: 'Riassunto rapido',
+        presetStandard: 'Standard',
+        presetInDepth: 'Approfondito',
+        presetKids: 'Per bambini',
+        presetExpert: 'Esperto',
+        factSheetTitle: 'Scheda informativa',
+        factConstructionDates: 'Costruzione',
+        factArchitect: 'Architetto / costruttore',
+        factArchitecturalStyle: 'Stile',
+        factDimensions: 'Dimensioni',
+        factUnescoStatus: 'Stato UNESCO',
+        factVisitingHours: 'Orari abituali',
+        factTicketInfo: 'Biglietti',
+        factAccessibility: 'Accessibilità',
+        factSheetDisclaimer: 'Le informazioni potrebbero non essere aggiornate. Verifica orari e prezzi sulle fonti ufficiali prima della visita.',
+        sourcesTitle: 'Fonti',
+        journalTabTitle: 'Diario',
+        journalTitle: 'Le mie scoperte',
+        journalDescription: 'Ogni monumento che identifichi viene salvato su questo dispositivo, con foto, storia e audioguida.',
+        journalSearchPlaceholder: 'Cerca per nome o storia...',
+        journalSortLabel: 'Ordina scoperte',
+        journalSortNewest: 'Più recenti prima',
+        journalSortOldest: 'Meno recenti prima',
+        journalSortName: 'Nome (A-Z)',
+        journalOpenAriaLabel: 'Apri la guida di {{landmarkName}}',
+        journalDeleteAriaLabel: 'Elimina {{landmarkName}} dal diario',
+        journalDeleteConfirm: "Eliminare {{landmarkName}} dalle tue scoperte? L'operazione non può essere annullata.",
+        journalEmpty: 'Ancora nessuna scoperta. Identifica un monumento e apparirà qui.',
+        journalNoMatches: 'Nessuna scoperta corrisponde alla ricerca.',
+        errorJournalLoad: "Impossibile caricare le tue scoperte. La navigazione privata potrebbe bloccare l'archiviazione locale.",
+        errorJournalDelete: 'Impossibile eliminare la scoperta. Riprova.',
+        helpModalJournalTitle: 'Le mie scoperte',
+        helpModalJournalContent: "Ogni monumento che identifichi resta nel tuo diario su questo dispositivo. Cerca o ordina le tue scoperte e riapri qualsiasi guida all'istante, anche dopo aver ricaricato la pagina.",
+        audioGuidePreparing: "Preparazione dell'audio...",
+        audioGuideUnavailable: "L'audio non è disponibile per questa guida.",
+        scanModeLabel: 'Cosa stai scansionando?',
+        scanModeLandmark: 'Monumento',
+        scanModeArtwork: "Opera d'arte",
+        scanModeFood: 'Piatto',
+        scanModePlant: 'Pianta',
+        scanModeSign: 'Cartello',
+        scanModeHintArtwork: "Fotografa un dipinto, una scultura o un reperto museale per scoprire l'artista e il suo significato.",
+        scanModeHintFood: "Fotografa un piatto per scoprire cos'è, da dove viene e come si mangia.",
+        scanModeHintPlant: 'Fotografa una pianta o un fiore per identificarne la specie e saperne di più.',
+        scanModeHintSign: 'Fotografa un cartello, un menu o una targa per leggerlo nella tua lingua.',
+        guideTitleArtwork: "Informazioni sull'opera",
+        guideTitleFood: 'Informazioni sul piatto',
+        guideTitlePlant: 'Informazioni sulla pianta',
+        guideTitleSign: 'Traduzione',
+        originalTextTitle: 'Testo originale',
+        chatbotSystemInstructionSubject: "Sei un chatbot guida cordiale ed esperto di Scout AI. L'utente ha fotografato {{landmarkName}}. Rispondi alle domande in modo conciso e coinvolgente. Se una domanda è fuori tema, riporta gentilmente la conversazione sull'argomento.",
+        candidatePickerTitleSubject: "Che cos'è?",
+        candidatePickerSubtitleSubject: 'Alcune corrispondenze si somigliano. Scegli quella giusta e preparerò la tua guida.',
+        candidateLowConfidenceWarningSubject: 'Non ne sono molto sicuro. Confermalo prima che crei la guida.',
+        scanModeTranslate: 'Traduci',
+        scanModeHintTranslate: 'Fotografa un menu, un cartello o una targa per vederne il testo tradotto direttamente sulla foto.',
+        translationTitle: 'Testo tradotto',
+        translationShowOriginal: 'Mostra originale',
+        translationShowTranslation: 'Mostra traduzione',
+        translationHint: 'Tocca una traduzione per ascoltare la pronuncia del testo originale.',
+        altTranslatedPhoto: 'La tua foto con il testo tradotto',
+        pronounceAriaLabel: 'Ascolta la pronuncia di "{{text}}"',
+        errorPronunciation: 'Impossibile generare la pronuncia. Riprova.',
+        thenAndNowTitle: 'Guardalo nel passato',
+        thenAndNowDescription: "Ricostruisci la tua foto com'era il monumento in un'altra epoca, poi trascina il cursore per confrontare.",
+        thenAndNowEraLabel: 'Epoca',
+        eraConstruction: 'Alla costruzione',
+        eraCenturyAgo: '100 anni fa',
+        eraFiftyYearsAgo: '50 anni fa',
+        thenAndNowButton: 'Ricostruisci',
+        thenAndNowGenerating: 'Ricostruzione...',
+        thenAndNowAiLabel: 'Ricostruzione IA · {{era}}',
+        thenAndNowTodayLabel: 'La tua foto',
+        thenAndNowSliderLabel: 'Confronta la ricostruzione con la tua foto',
+        thenAndNowDisclaimer: "Questa immagine è stata generata dall'IA. È un'interpretazione artistica e potrebbe non essere storicamente accurata.",
+        altReconstruction: 'Ricostruzione IA di {{landmarkName}}, {{era}}',
+        errorReconstruction: 'Impossibile generare la ricostruzione. Riprova.',
+        cancelButton: 'Annulla',
+        errorImageTooLarge: 'Questa immagine è troppo grande. Scegline una inferiore a {{maxSize}} MB.',
+        errorImageUrlInvalid: 'Inserisci un indirizzo web che inizi con http:// o https://.',
+        errorImageUrlDownload: "Impossibile scaricare l'immagine. Il sito potrebbe non consentirlo; prova a salvarla e caricarla.",
+        dropZoneActive: 'Rilascia qui le tue foto',
+        dropZoneHint: "Puoi anche trascinare qui le foto o incollare un'immagine con Ctrl+V.",
+        imageUrlPlaceholder: "Oppure incolla l'URL di un'immagine",
+        imageUrlButton: 'Identifica',
+        quizTitle: 'Ora del quiz',
+        quizButton: 'Mettimi alla prova',
+        quizLoading: 'Preparazione delle domande...',
+        quizProgress: 'Domanda {{current}} di {{total}}',
+        quizCorrect: 'Esatto!',
+        quizIncorrect: 'Non proprio.',
+        quizNextButton: 'Domanda successiva',
+        quizResultsButton: 'Vedi il punteggio',
+        quizScore: 'Hai totalizzato {{correct}} su {{total}}',
+        quizBestScore: 'Miglior punteggio: {{correct}}/{{total}}',
+        quizNewBest: 'Nuovo record!',
+        quizRetryButton: 'Prova nuove domande',
+        errorQuiz: 'Impossibile creare il quiz. Riprova.',
+        relatedTitle: 'Vicini e correlati',
+        relatedDescription: 'Dove andare dopo: luoghi vicini o legati per architetto, epoca o storia.',
+        relatedButton: 'Suggerisci cosa vedere dopo',
+        relatedLoading: 'Ricerca di luoghi correlati...',
+        relatedEmpty: 'Nessun luogo correlato trovato.',
+        relatedNearbyLabel: 'Vicino',
+        relatedThematicLabel: 'Correlato',
+        relatedOpenGuide: 'Apri la guida',
+        relatedPlanTour: 'Pianifica un tour',
+        addToFavoritesAriaLabel: 'Aggiungi {{placeName}} ai preferiti',
+        removeFromFavoritesAriaLabel: 'Rimuovi {{placeName}} dai preferiti',
+        loadingRelatedImage: 'Preparazione di una vista di {{landmarkName}}...',
+        errorRelatedLandmarks: 'Impossibile trovare luoghi correlati. Riprova.',
+        shareCardButton: 'Crea una card da condividere',
+        shareCardFormatLabel: 'Formato della card',
+        shareCardSquare: 'Quadrato',
+        shareCardStory: 'Storia',
+        shareCardShare: 'Condividi immagine',
+        shareCardDownload: 'Scarica immagine',
+        shareCardTagline: 'Esplora, pianifica e scopri',
+        shareCardText: 'Ho scoperto {{landmarkName}} con Scout AI!',
+        altShareCard: 'Card da condividere per {{landmarkName}}',
+        errorShareCard: 'Impossibile creare la card da condividere.',
+        errorDiscoveryNotFound: 'Questa scoperta non è più nel tuo diario.',
+        audioSeekLabel: "Posizione dell'audio",
+        audioPositionValue: '{{current}} di {{total}}',
+        audioSpeedLabel: 'Velocità di riproduzione',
+        audioDownloadAriaLabel: "Scarica l'audio di {{title}}",
+        audioDownloadWav: 'WAV (qualità migliore)',
+        audioDownloadCompressed: "{{format}} (file più piccolo, richiede la durata dell'audio)",
+        audioDownloadCompressing: "Compressione dell'audio... Clicca per annullare",
+        errorAudioDownload: 'Impossibile creare il file audio.',
+        voiceLabel: 'Voce',
+        voiceAutomatic: 'Automatica ({{voice}})',
+        voicePreviewAriaLabel: 'Ascolta la voce {{voice}}',
+        voicePreviewSample: 'Ciao! Sono {{voice}} e sarò la tua guida nelle scoperte di oggi.',
+        voiceStyleFirm: 'Decisa',
+        voiceStyleUpbeat: 'Vivace',
+        voiceStyleInformative: 'Informativa',
+        voiceStyleBright: 'Brillante',
+        voiceStyleBreezy: 'Disinvolta',
+        voiceStyleYouthful: 'Giovanile',
+        voiceStyleWarm: 'Calda',
+        voiceStyleMature: 'Matura',
+        errorVoicePreview: "Impossibile riprodurre l'anteprima della voce.",
+        walkingTourPlayAll: 'Riproduci tutto ({{count}})',
+        walkingTourStop: 'Interrompi il tour',
+        walkingTourLabel: 'Tour a piedi',
+        walkingTourProgress: '{{title}} · {{current}} di {{total}}',
+        walkingTourPrevious: 'Luogo precedente',
+        walkingTourNext: 'Luogo successivo',
+        errorHistoryInterrupted: 'La guida si è interrotta prima di essere completa.',
+        funFactButtonArtwork: 'Mostrami un dettaglio nascosto',
+        funFactButtonFood: 'Come lo mangiano i locali?',
+        funFactButtonPlant: 'Si può toccare o mangiare?',
+        shareTextArtwork: "Guarda quest'opera d'arte che ho scoperto con Scout AI: {{landmarkName}}! Ecco di cosa si tratta: {{history}}",
+        shareTextFood: 'Guarda questo piatto che ho assaggiato con Scout AI: {{landmarkName}}! Ecco la sua storia: {{history}}',
+        shareTextPlant: 'Guarda questa pianta che ho scoperto con Scout AI: {{landmarkName}}! Ecco cosa ho imparato: {{history}}',
+        shareTextSign: 'Scout AI mi ha tradotto questo testo ({{landmarkName}}): {{history}}',
+        errorFunFactMode: 'Spiacente, non sono riuscito a trovarlo al momento.',
+        journalFavoritesTitle: 'Luoghi preferiti',
+        generatedImageLabel: "Immagine generata dall'IA",
+        altGeneratedImage: "Veduta di {{landmarkName}} generata dall'IA",
+        errorTourPlanNotFound: 'Questo piano di visita non è salvato su questo dispositivo. Inserisci un luogo per pianificarne uno nuovo.',
     },
     pt: {
         appTitle: 'Scout AI',
@@ -666,6 +1626,198 @@ export const translations: { [key: string]: { [key: string]: string } } = {
         errorImageGeneration: 'Não foi possível gerar imagens para os lugares.',
         errorNoLandmark: 'Não consegui identificar um monumento nesta foto. Por favor, tente outra.',
         errorProcessing: 'Algo deu errado ao processar a imagem. Por favor, tente novamente.',
+        candidatePickerTitle: 'Que monumento é este?',
+        candidatePickerSubtitle: 'Alguns lugares são parecidos. Escolha o certo e prepararei seu guia de áudio.',
+        candidateLowConfidenceTitle: 'Está correto?',
+        candidateLowConfidenceWarning: 'Não tenho muita certeza sobre este. Confirme o monumento antes que eu crie o guia de áudio.',
+        candidateConfidence: '{{percent}}% de correspondência',
+        candidateNoneButton: 'Nenhum destes, tentar outra foto',
+        takePhotoButton: 'Tirar uma foto',
+        cameraStarting: 'Iniciando câmera...',
+        cameraPreviewAlt: 'Pré-visualização da foto capturada',
+        cameraCloseAriaLabel: 'Fechar câmera',
+        cameraSwitchAriaLabel: 'Alternar entre câmera frontal e traseira',
+        cameraTorchOnAriaLabel: 'Ligar lanterna',
+        cameraTorchOffAriaLabel: 'Desligar lanterna',
+        cameraCaptureAriaLabel: 'Capturar foto',
+        cameraRetakeButton: 'Tirar de novo',
+        cameraUsePhotoButton: 'Usar foto',
+        errorCameraPermission: 'O acesso à câmera foi negado. Você ainda pode enviar uma foto do seu dispositivo.',
+        errorCameraUnavailable: 'Nenhuma câmera disponível no momento. Você ainda pode enviar uma foto do seu dispositivo.',
+        photoTakenAt: 'Foto tirada em {{coordinates}}',
+        photoTakenOn: 'Tirada em {{date}}',
+        exploreNearbyButton: 'Explorar arredores',
+        albumUploadHint: 'Dica: selecione várias fotos de uma vez para criar um álbum da viagem.',
+        albumTitle: 'Álbum da viagem',
+        albumProgress: '{{done}} de {{total}} fotos processadas',
+        albumSinglePhoto: '1 foto',
+        albumPhotoCount: '{{count}} fotos',
+        albumOpenGroupAriaLabel: 'Abrir o guia de {{landmarkName}}',
+        albumFailedTitle: 'Não foi possível identificar estas fotos',
+        albumNewButton: 'Recomeçar',
+        narrationPresetLabel: 'Estilo de narração',
+        presetSummary: 'Resumo rápido',
+        presetStandard: 'Padrão',
+        presetInDepth: 'Aprofundado',
+        presetKids: 'Para crianças',
+        presetExpert: 'Especialista',
+        factSheetTitle: 'Ficha técnica',
+        factConstructionDates: 'Construção',
+        factArchitect: 'Arquiteto / construtor',
+        factArchitecturalStyle: 'Estilo',
+        factDimensions: 'Dimensões',
+        factUnescoStatus: 'Status UNESCO',
+        factVisitingHours: 'Horário habitual',
+        factTicketInfo: 'Ingressos',
+        factAccessibility: 'Acessibilidade',
+        factSheetDisclaimer: 'As informações podem estar desatualizadas. Confira horários e preços em fontes oficiais antes da sua visita.',
+        sourcesTitle: 'Fontes',
+        journalTabTitle: 'Diário',
+        journalTitle: 'Minhas descobertas',
+        journalDescription: 'Cada monumento que você identifica é salvo neste dispositivo, com foto, história e audioguia.',
+        journalSearchPlaceholder: 'Pesquisar por nome ou história...',
+        journalSortLabel: 'Ordenar descobertas',
+        journalSortNewest: 'Mais recentes primeiro',
+        journalSortOldest: 'Mais antigas primeiro',
+        journalSortName: 'Nome (A-Z)',
+        journalOpenAriaLabel: 'Abrir o guia de {{landmarkName}}',
+        journalDeleteAriaLabel: 'Excluir {{landmarkName}} do diário',
+        journalDeleteConfirm: 'Excluir {{landmarkName}} das suas descobertas? Isso não pode ser desfeito.',
+        journalEmpty: 'Ainda não há descobertas. Identifique um monumento e ele aparecerá aqui.',
+        journalNoMatches: 'Nenhuma descoberta corresponde à sua pesquisa.',
+        errorJournalLoad: 'Não foi possível carregar suas descobertas. A navegação privada pode bloquear o armazenamento local.',
+        errorJournalDelete: 'Não foi possível excluir a descoberta. Tente novamente.',
+        helpModalJournalTitle: 'Minhas descobertas',
+        helpModalJournalContent: 'Cada monumento que você identifica fica guardado no seu diário neste dispositivo. Pesquise ou ordene suas descobertas e reabra qualquer guia na hora, mesmo depois de recarregar a página.',
+        audioGuidePreparing: 'Preparando o áudio...',
+        audioGuideUnavailable: 'O áudio não está disponível para este guia.',
+        scanModeLabel: 'O que você está escaneando?',
+        scanModeLandmark: 'Monumento',
+        scanModeArtwork: 'Obra de arte',
+        scanModeFood: 'Prato',
+        scanModePlant: 'Planta',
+        scanModeSign: 'Placa',
+        scanModeHintArtwork: 'Fotografe uma pintura, escultura ou peça de museu para conhecer o artista e o seu significado.',
+        scanModeHintFood: 'Fotografe um prato para saber o que é, de onde vem e como se come.',
+        scanModeHintPlant: 'Fotografe uma planta ou flor para identificar a espécie e saber mais sobre ela.',
+        scanModeHintSign: 'Fotografe uma placa, um cardápio ou um letreiro para lê-lo no seu idioma.',
+        guideTitleArtwork: 'Sobre esta obra',
+        guideTitleFood: 'Sobre este prato',
+        guideTitlePlant: 'Sobre esta planta',
+        guideTitleSign: 'Tradução',
+        originalTextTitle: 'Texto original',
+        chatbotSystemInstructionSubject: 'Você é um chatbot guia simpático e experiente do Scout AI. O usuário fotografou {{landmarkName}}. Responda às perguntas sobre isso de forma concisa e envolvente. Se uma pergunta estiver fora do tema, conduza gentilmente a conversa de volta.',
+        candidatePickerTitleSubject: 'O que é isto?',
+        candidatePickerSubtitleSubject: 'Algumas opções são parecidas. Escolha a certa e eu prepararei o seu guia.',
+        candidateLowConfidenceWarningSubject: 'Não tenho muita certeza sobre isto. Confirme antes de eu criar o guia.',
+        scanModeTranslate: 'Traduzir',
+        scanModeHintTranslate: 'Fotografe um cardápio, placa ou letreiro para ver o texto traduzido direto na foto.',
+        translationTitle: 'Texto traduzido',
+        translationShowOriginal: 'Ver original',
+        translationShowTranslation: 'Ver tradução',
+        translationHint: 'Toque em uma tradução para ouvir como o texto original é pronunciado.',
+        altTranslatedPhoto: 'Sua foto com o texto traduzido',
+        pronounceAriaLabel: 'Ouvir a pronúncia de "{{text}}"',
+        errorPronunciation: 'Não foi possível gerar a pronúncia. Tente novamente.',
+        thenAndNowTitle: 'Veja-o no passado',
+        thenAndNowDescription: 'Reconstrua sua foto como o monumento era em outra época e arraste o controle para comparar.',
+        thenAndNowEraLabel: 'Época',
+        eraConstruction: 'Quando foi construído',
+        eraCenturyAgo: 'Há 100 anos',
+        eraFiftyYearsAgo: 'Há 50 anos',
+        thenAndNowButton: 'Reconstruir',
+        thenAndNowGenerating: 'Reconstruindo...',
+        thenAndNowAiLabel: 'Reconstrução por IA · {{era}}',
+        thenAndNowTodayLabel: 'Sua foto',
+        thenAndNowSliderLabel: 'Compare a reconstrução com sua foto',
+        thenAndNowDisclaimer: 'Esta imagem foi gerada por IA. É uma interpretação artística e pode não ser historicamente precisa.',
+        altReconstruction: 'Reconstrução por IA de {{landmarkName}}, {{era}}',
+        errorReconstruction: 'Não foi possível gerar a reconstrução. Tente novamente.',
+        cancelButton: 'Cancelar',
+        errorImageTooLarge: 'Esta imagem é grande demais. Escolha uma com menos de {{maxSize}} MB.',
+        errorImageUrlInvalid: 'Digite um endereço da web que comece com http:// ou https://.',
+        errorImageUrlDownload: 'Não foi possível baixar a imagem. O site pode não permitir; tente salvá-la e enviá-la.',
+        dropZoneActive: 'Solte suas fotos aqui',
+        dropZoneHint: 'Você também pode arrastar fotos para cá ou colar uma imagem com Ctrl+V.',
+        imageUrlPlaceholder: 'Ou cole a URL de uma imagem',
+        imageUrlButton: 'Identificar',
+        quizTitle: 'Hora do quiz',
+        quizButton: 'Teste-me',
+        quizLoading: 'Preparando suas perguntas...',
+        quizProgress: 'Pergunta {{current}} de {{total}}',
+        quizCorrect: 'Correto!',
+        quizIncorrect: 'Não exatamente.',
+        quizNextButton: 'Próxima pergunta',
+        quizResultsButton: 'Ver minha pontuação',
+        quizScore: 'Você acertou {{correct}} de {{total}}',
+        quizBestScore: 'Melhor pontuação: {{correct}}/{{total}}',
+        quizNewBest: 'Nova melhor pontuação!',
+        quizRetryButton: 'Tentar novas perguntas',
+        errorQuiz: 'Não foi possível criar o quiz. Tente novamente.',
+        relatedTitle: 'Próximos e relacionados',
+        relatedDescription: 'Para onde ir a seguir: locais próximos ou ligados por arquiteto, época ou história.',
+        relatedButton: 'Sugerir o que ver a seguir',
+        relatedLoading: 'Procurando locais relacionados...',
+        relatedEmpty: 'Nenhum local relacionado encontrado.',
+        relatedNearbyLabel: 'Próximo',
+        relatedThematicLabel: 'Relacionado',
+        relatedOpenGuide: 'Abrir guia',
+        relatedPlanTour: 'Planejar um passeio',
+        addToFavoritesAriaLabel: 'Adicionar {{placeName}} aos favoritos',
+        removeFromFavoritesAriaLabel: 'Remover {{placeName}} dos favoritos',
+        loadingRelatedImage: 'Preparando uma vista de {{landmarkName}}...',
+        errorRelatedLandmarks: 'Não foi possível encontrar locais relacionados. Tente novamente.',
+        shareCardButton: 'Criar um cartão para compartilhar',
+        shareCardFormatLabel: 'Formato do cartão',
+        shareCardSquare: 'Quadrado',
+        shareCardStory: 'Story',
+        shareCardShare: 'Compartilhar imagem',
+        shareCardDownload: 'Baixar imagem',
+        shareCardTagline: 'Explore, planeje e descubra',
+        shareCardText: 'Descobri {{landmarkName}} com o Scout AI!',
+        altShareCard: 'Cartão para compartilhar de {{landmarkName}}',
+        errorShareCard: 'Não foi possível criar o cartão para compartilhar.',
+        errorDiscoveryNotFound: 'Esta descoberta não está mais no seu diário.',
+        audioSeekLabel: 'Posição do áudio',
+        audioPositionValue: '{{current}} de {{total}}',
+        audioSpeedLabel: 'Velocidade de reprodução',
+        audioDownloadAriaLabel: 'Baixar o áudio de {{title}}',
+        audioDownloadWav: 'WAV (melhor qualidade)',
+        audioDownloadCompressed: '{{format}} (arquivo menor, leva o tempo do áudio)',
+        audioDownloadCompressing: 'Comprimindo o áudio... Clique para cancelar',
+        errorAudioDownload: 'Não foi possível criar o arquivo de áudio.',
+        voiceLabel: 'Voz',
+        voiceAutomatic: 'Automática ({{voice}})',
+        voicePreviewAriaLabel: 'Ouvir a voz {{voice}}',
+        voicePreviewSample: 'Olá! Eu sou {{voice}} e serei seu guia nas descobertas de hoje.',
+        voiceStyleFirm: 'Firme',
+        voiceStyleUpbeat: 'Animada',
+        voiceStyleInformative: 'Informativa',
+        voiceStyleBright: 'Luminosa',
+        voiceStyleBreezy: 'Descontraída',
+        voiceStyleYouthful: 'Jovem',
+        voiceStyleWarm: 'Calorosa',
+        voiceStyleMature: 'Madura',
+        errorVoicePreview: 'Não foi possível reproduzir a amostra de voz.',
+        walkingTourPlayAll: 'Reproduzir tudo ({{count}})',
+        walkingTourStop: 'Parar o passeio',
+        walkingTourLabel: 'Passeio a pé',
+        walkingTourProgress: '{{title}} · {{current}} de {{total}}',
+        walkingTourPrevious: 'Lugar anterior',
+        walkingTourNext: 'Próximo lugar',
+        errorHistoryInterrupted: 'O guia parou antes de ser concluído.',
+        funFactButtonArtwork: 'Mostre-me um detalhe escondido',
+        funFactButtonFood: 'Como os moradores comem?',
+        funFactButtonPlant: 'É seguro tocar ou comer?',
+        shareTextArtwork: 'Veja esta obra de arte que encontrei com o Scout AI: {{landmarkName}}! Veja do que se trata: {{history}}',
+        shareTextFood: 'Veja este prato que provei com o Scout AI: {{landmarkName}}! Esta é a história dele: {{history}}',
+        shareTextPlant: 'Veja esta planta que encontrei com o Scout AI: {{landmarkName}}! Veja o que aprendi: {{history}}',
+        shareTextSign: 'O Scout AI traduziu este texto para mim ({{landmarkName}}): {{history}}',
+        errorFunFactMode: 'Desculpe, não consegui descobrir isso agora. Por favor, tente novamente mais tarde.',
+        journalFavoritesTitle: 'Lugares favoritos',
+        generatedImageLabel: 'Imagem gerada por IA',
+        altGeneratedImage: 'Vista de {{landmarkName}} gerada por IA',
+        errorTourPlanNotFound: 'Este plano de passeio não está salvo neste dispositivo. Digite um local para planejar um novo.',
     },
     ja: {
         appTitle: 'Scout AI',
@@ -775,6 +1927,198 @@ export const translations: { [key: string]: { [key: string]: string } } = {
         errorImageGeneration: '場所の画像を生成できませんでした。',
         errorNoLandmark: 'この写真ではランドマークを特定できませんでした。別の写真をお試しください。',
         errorProcessing: '画像の処理中にエラーが発生しました。',
+        candidatePickerTitle: 'どのランドマークですか？',
+        candidatePickerSubtitle: '似た場所がいくつかあります。正しいものを選ぶと、オーディオガイドを作成します。',
+        candidateLowConfidenceTitle: 'これで合っていますか？',
+        candidateLowConfidenceWarning: 'あまり自信がありません。オーディオガイドを作成する前にランドマークを確認してください。',
+        candidateConfidence: '一致度 {{percent}}%',
+        candidateNoneButton: 'どれも違う、別の写真を試す',
+        takePhotoButton: '写真を撮る',
+        cameraStarting: 'カメラを起動しています...',
+        cameraPreviewAlt: '撮影した写真のプレビュー',
+        cameraCloseAriaLabel: 'カメラを閉じる',
+        cameraSwitchAriaLabel: '前面カメラと背面カメラを切り替える',
+        cameraTorchOnAriaLabel: 'ライトをオンにする',
+        cameraTorchOffAriaLabel: 'ライトをオフにする',
+        cameraCaptureAriaLabel: '撮影する',
+        cameraRetakeButton: '撮り直す',
+        cameraUsePhotoButton: 'この写真を使う',
+        errorCameraPermission: 'カメラへのアクセスが拒否されました。端末から写真をアップロードすることはできます。',
+        errorCameraUnavailable: '現在利用できるカメラがありません。端末から写真をアップロードすることはできます。',
+        photoTakenAt: '撮影場所: {{coordinates}}',
+        photoTakenOn: '撮影日時: {{date}}',
+        exploreNearbyButton: '周辺を探索',
+        albumUploadHint: 'ヒント: 複数の写真をまとめて選ぶと旅行アルバムを作成できます。',
+        albumTitle: '旅行アルバム',
+        albumProgress: '{{total}}枚中{{done}}枚を処理しました',
+        albumSinglePhoto: '写真1枚',
+        albumPhotoCount: '写真{{count}}枚',
+        albumOpenGroupAriaLabel: '{{landmarkName}}のガイドを開く',
+        albumFailedTitle: 'これらの写真は識別できませんでした',
+        albumNewButton: '最初からやり直す',
+        narrationPresetLabel: 'ナレーションのスタイル',
+        presetSummary: '簡単な要約',
+        presetStandard: '標準',
+        presetInDepth: '詳しく',
+        presetKids: '子ども向け',
+        presetExpert: '専門家向け',
+        factSheetTitle: '基本情報',
+        factConstructionDates: '建造',
+        factArchitect: '建築家・建設者',
+        factArchitecturalStyle: '様式',
+        factDimensions: '規模',
+        factUnescoStatus: 'ユネスコ登録',
+        factVisitingHours: '一般的な開館時間',
+        factTicketInfo: 'チケット',
+        factAccessibility: 'バリアフリー',
+        factSheetDisclaimer: '情報が古い可能性があります。訪問前に公式情報で営業時間と料金をご確認ください。',
+        sourcesTitle: '出典',
+        journalTabTitle: '記録',
+        journalTitle: 'わたしの発見',
+        journalDescription: '識別したランドマークは、写真・歴史・音声ガイドと一緒にこの端末に保存されます。',
+        journalSearchPlaceholder: '名前や歴史で検索...',
+        journalSortLabel: '発見を並べ替え',
+        journalSortNewest: '新しい順',
+        journalSortOldest: '古い順',
+        journalSortName: '名前順',
+        journalOpenAriaLabel: '{{landmarkName}}のガイドを開く',
+        journalDeleteAriaLabel: '{{landmarkName}}を記録から削除',
+        journalDeleteConfirm: '{{landmarkName}}を発見から削除しますか？元に戻せません。',
+        journalEmpty: 'まだ発見はありません。ランドマークを識別するとここに表示されます。',
+        journalNoMatches: '検索に一致する発見はありません。',
+        errorJournalLoad: '発見を読み込めませんでした。プライベートブラウズではローカル保存がブロックされることがあります。',
+        errorJournalDelete: '発見を削除できませんでした。もう一度お試しください。',
+        helpModalJournalTitle: 'わたしの発見',
+        helpModalJournalContent: '識別したランドマークはこの端末の記録に保存されます。発見を検索・並べ替えして、ページを再読み込みした後でもすぐにガイドを開き直せます。',
+        audioGuidePreparing: '音声を準備中...',
+        audioGuideUnavailable: 'このガイドの音声は利用できません。',
+        scanModeLabel: '何をスキャンしますか？',
+        scanModeLandmark: '名所',
+        scanModeArtwork: '美術品',
+        scanModeFood: '料理',
+        scanModePlant: '植物',
+        scanModeSign: '看板',
+        scanModeHintArtwork: '絵画、彫刻、展示品を撮影して、作者や意味を知りましょう。',
+        scanModeHintFood: '料理を撮影して、その名前や由来、食べ方を知りましょう。',
+        scanModeHintPlant: '植物や花を撮影して、種類を調べましょう。',
+        scanModeHintSign: '看板、メニュー、銘板を撮影して、あなたの言語で読みましょう。',
+        guideTitleArtwork: 'この作品について',
+        guideTitleFood: 'この料理について',
+        guideTitlePlant: 'この植物について',
+        guideTitleSign: '翻訳',
+        originalTextTitle: '原文',
+        chatbotSystemInstructionSubject: 'あなたはScout AIの親切で知識豊富なガイドチャットボットです。ユーザーは{{landmarkName}}を撮影しました。それについての質問に簡潔かつ魅力的に答えてください。話題から外れた質問には、やんわりと話題を戻してください。',
+        candidatePickerTitleSubject: 'これは何ですか？',
+        candidatePickerSubtitleSubject: '似た候補がいくつかあります。正しいものを選ぶとガイドを準備します。',
+        candidateLowConfidenceWarningSubject: 'あまり自信がありません。ガイドを作成する前に確認してください。',
+        scanModeTranslate: '翻訳',
+        scanModeHintTranslate: 'メニュー、看板、銘板を撮影すると、写真の上に翻訳が表示されます。',
+        translationTitle: '翻訳されたテキスト',
+        translationShowOriginal: '原文を表示',
+        translationShowTranslation: '翻訳を表示',
+        translationHint: '翻訳をタップすると、原文の発音を聞けます。',
+        altTranslatedPhoto: '翻訳されたテキスト付きの写真',
+        pronounceAriaLabel: '「{{text}}」の発音を聞く',
+        errorPronunciation: '発音を生成できませんでした。もう一度お試しください。',
+        thenAndNowTitle: '昔の姿を見る',
+        thenAndNowDescription: '写真を別の時代の姿に再現し、スライダーで比較しましょう。',
+        thenAndNowEraLabel: '時代',
+        eraConstruction: '建設当時',
+        eraCenturyAgo: '100年前',
+        eraFiftyYearsAgo: '50年前',
+        thenAndNowButton: '再現する',
+        thenAndNowGenerating: '再現中...',
+        thenAndNowAiLabel: 'AIによる再現 · {{era}}',
+        thenAndNowTodayLabel: 'あなたの写真',
+        thenAndNowSliderLabel: '再現画像と写真を比較',
+        thenAndNowDisclaimer: 'この画像はAIによって生成されました。芸術的な解釈であり、歴史的に正確とは限りません。',
+        altReconstruction: '{{landmarkName}}のAI再現（{{era}}）',
+        errorReconstruction: '再現画像を生成できませんでした。もう一度お試しください。',
+        cancelButton: 'キャンセル',
+        errorImageTooLarge: '画像が大きすぎます。{{maxSize}} MB未満の画像を選んでください。',
+        errorImageUrlInvalid: 'http:// または https:// で始まるURLを入力してください。',
+        errorImageUrlDownload: '画像をダウンロードできませんでした。サイトが許可していない可能性があります。画像を保存してからアップロードしてください。',
+        dropZoneActive: 'ここに写真をドロップ',
+        dropZoneHint: '写真をここにドラッグするか、Ctrl+Vで画像を貼り付けることもできます。',
+        imageUrlPlaceholder: 'または画像のURLを貼り付け',
+        imageUrlButton: '識別',
+        quizTitle: 'クイズタイム',
+        quizButton: 'クイズに挑戦',
+        quizLoading: '問題を準備中...',
+        quizProgress: '{{total}}問中{{current}}問目',
+        quizCorrect: '正解！',
+        quizIncorrect: '残念！',
+        quizNextButton: '次の問題',
+        quizResultsButton: '結果を見る',
+        quizScore: '{{total}}問中{{correct}}問正解',
+        quizBestScore: 'ベストスコア：{{correct}}/{{total}}',
+        quizNewBest: 'ベストスコア更新！',
+        quizRetryButton: '新しい問題に挑戦',
+        errorQuiz: 'クイズを作成できませんでした。もう一度お試しください。',
+        relatedTitle: '近くの関連スポット',
+        relatedDescription: '次の行き先：近くのスポットや、建築家・時代・物語でつながる場所。',
+        relatedButton: '次のおすすめを見る',
+        relatedLoading: '関連スポットを検索中...',
+        relatedEmpty: '関連スポットが見つかりませんでした。',
+        relatedNearbyLabel: '近く',
+        relatedThematicLabel: '関連',
+        relatedOpenGuide: 'ガイドを開く',
+        relatedPlanTour: 'ツアーを計画',
+        addToFavoritesAriaLabel: '{{placeName}}をお気に入りに追加',
+        removeFromFavoritesAriaLabel: '{{placeName}}をお気に入りから削除',
+        loadingRelatedImage: '{{landmarkName}}の画像を準備中...',
+        errorRelatedLandmarks: '関連スポットが見つかりませんでした。もう一度お試しください。',
+        shareCardButton: 'シェア用カードを作成',
+        shareCardFormatLabel: 'カードの形式',
+        shareCardSquare: '正方形',
+        shareCardStory: 'ストーリー',
+        shareCardShare: '画像を共有',
+        shareCardDownload: '画像をダウンロード',
+        shareCardTagline: '探索・計画・発見',
+        shareCardText: 'Scout AIで{{landmarkName}}を発見しました！',
+        altShareCard: '{{landmarkName}}のシェア用カード',
+        errorShareCard: 'シェア用カードを作成できませんでした。',
+        errorDiscoveryNotFound: 'この発見はジャーナルにありません。',
+        audioSeekLabel: '再生位置',
+        audioPositionValue: '{{total}}中{{current}}',
+        audioSpeedLabel: '再生速度',
+        audioDownloadAriaLabel: '{{title}}の音声をダウンロード',
+        audioDownloadWav: 'WAV（高音質）',
+        audioDownloadCompressed: '{{format}}（小さいファイル、音声の長さだけ時間がかかります）',
+        audioDownloadCompressing: '音声を圧縮中...クリックでキャンセル',
+        errorAudioDownload: '音声ファイルを作成できませんでした。',
+        voiceLabel: '音声',
+        voiceAutomatic: '自動（{{voice}}）',
+        voicePreviewAriaLabel: '音声{{voice}}を試聴',
+        voicePreviewSample: 'こんにちは！{{voice}}です。今日の発見をご案内します。',
+        voiceStyleFirm: 'しっかり',
+        voiceStyleUpbeat: '明るい',
+        voiceStyleInformative: '解説調',
+        voiceStyleBright: '華やか',
+        voiceStyleBreezy: '軽やか',
+        voiceStyleYouthful: '若々しい',
+        voiceStyleWarm: '温かい',
+        voiceStyleMature: '落ち着いた',
+        errorVoicePreview: '音声のサンプルを再生できませんでした。',
+        walkingTourPlayAll: 'すべて再生（{{count}}）',
+        walkingTourStop: 'ツアーを終了',
+        walkingTourLabel: 'ウォーキングツアー',
+        walkingTourProgress: '{{title}} · {{current}}/{{total}}',
+        walkingTourPrevious: '前の場所',
+        walkingTourNext: '次の場所',
+        errorHistoryInterrupted: 'ガイドが途中で止まりました。',
+        funFactButtonArtwork: '隠れた見どころを教えて',
+        funFactButtonFood: '地元ではどう食べる？',
+        funFactButtonPlant: '触ったり食べたりしても安全？',
+        shareTextArtwork: 'Scout AIで見つけたこの作品を見てください：{{landmarkName}}！作品について紹介します：{{history}}',
+        shareTextFood: 'Scout AIで味わったこの料理を見てください：{{landmarkName}}！その背景を紹介します：{{history}}',
+        shareTextPlant: 'Scout AIで見つけたこの植物を見てください：{{landmarkName}}！わかったことを紹介します：{{history}}',
+        shareTextSign: 'Scout AIがこのテキスト（{{landmarkName}}）を翻訳してくれました：{{history}}',
+        errorFunFactMode: '申し訳ありませんが、現時点では調べられませんでした。',
+        journalFavoritesTitle: 'お気に入りの場所',
+        generatedImageLabel: 'AI生成画像',
+        altGeneratedImage: 'AIが生成した{{landmarkName}}の画像',
+        errorTourPlanNotFound: 'このツアープランはこの端末に保存されていません。場所を入力して新しいプランを作成してください。',
     },
     hi: {
         appTitle: 'स्काउट एआई',
@@ -884,6 +2228,198 @@ export const translations: { [key: string]: { [key: string]: string } } = {
         errorImageGeneration: 'स्थानों के लिए छवियां उत्पन्न नहीं की जा सकीं।',
         errorNoLandmark: 'मैं इस तस्वीर में किसी लैंडमार्क की पहचान नहीं कर सका। कृपया दूसरी तस्वीर आजमाएं।',
         errorProcessing: 'छवि को संसाधित करते समय कुछ गलत हुआ।',
+        candidatePickerTitle: 'यह कौन सा लैंडमार्क है?',
+        candidatePickerSubtitle: 'कुछ स्थान एक जैसे दिखते हैं। सही स्थान चुनें और मैं आपकी ऑडियो गाइड तैयार करूंगा।',
+        candidateLowConfidenceTitle: 'क्या यह सही है?',
+        candidateLowConfidenceWarning: 'मुझे इसके बारे में पूरा यकीन नहीं है। ऑडियो गाइड बनाने से पहले कृपया लैंडमार्क की पुष्टि करें।',
+        candidateConfidence: '{{percent}}% मिलान',
+        candidateNoneButton: 'इनमें से कोई नहीं, दूसरी फ़ोटो आज़माएं',
+        takePhotoButton: 'फ़ोटो लें',
+        cameraStarting: 'कैमरा शुरू हो रहा है...',
+        cameraPreviewAlt: 'ली गई फ़ोटो का पूर्वावलोकन',
+        cameraCloseAriaLabel: 'कैमरा बंद करें',
+        cameraSwitchAriaLabel: 'आगे और पीछे के कैमरे के बीच बदलें',
+        cameraTorchOnAriaLabel: 'फ्लैशलाइट चालू करें',
+        cameraTorchOffAriaLabel: 'फ्लैशलाइट बंद करें',
+        cameraCaptureAriaLabel: 'फ़ोटो कैप्चर करें',
+        cameraRetakeButton: 'फिर से लें',
+        cameraUsePhotoButton: 'फ़ोटो का उपयोग करें',
+        errorCameraPermission: 'कैमरा एक्सेस अस्वीकार कर दिया गया। आप अभी भी अपने डिवाइस से फ़ोटो अपलोड कर सकते हैं।',
+        errorCameraUnavailable: 'अभी कोई कैमरा उपलब्ध नहीं है। आप अभी भी अपने डिवाइस से फ़ोटो अपलोड कर सकते हैं।',
+        photoTakenAt: 'फ़ोटो {{coordinates}} पर ली गई',
+        photoTakenOn: '{{date}} को ली गई',
+        exploreNearbyButton: 'आस-पास खोजें',
+        albumUploadHint: 'सुझाव: यात्रा एल्बम बनाने के लिए एक साथ कई फ़ोटो चुनें।',
+        albumTitle: 'यात्रा एल्बम',
+        albumProgress: '{{total}} में से {{done}} फ़ोटो संसाधित',
+        albumSinglePhoto: '1 फ़ोटो',
+        albumPhotoCount: '{{count}} फ़ोटो',
+        albumOpenGroupAriaLabel: '{{landmarkName}} की गाइड खोलें',
+        albumFailedTitle: 'इन फ़ोटो की पहचान नहीं हो सकी',
+        albumNewButton: 'फिर से शुरू करें',
+        narrationPresetLabel: 'वर्णन शैली',
+        presetSummary: 'त्वरित सारांश',
+        presetStandard: 'मानक',
+        presetInDepth: 'विस्तृत',
+        presetKids: 'बच्चों के लिए',
+        presetExpert: 'विशेषज्ञ',
+        factSheetTitle: 'तथ्य पत्रक',
+        factConstructionDates: 'निर्माण',
+        factArchitect: 'वास्तुकार / निर्माता',
+        factArchitecturalStyle: 'शैली',
+        factDimensions: 'आयाम',
+        factUnescoStatus: 'यूनेस्को स्थिति',
+        factVisitingHours: 'सामान्य खुलने का समय',
+        factTicketInfo: 'टिकट',
+        factAccessibility: 'सुगम्यता',
+        factSheetDisclaimer: 'जानकारी पुरानी हो सकती है। यात्रा से पहले समय और कीमतें आधिकारिक स्रोतों से जाँच लें।',
+        sourcesTitle: 'स्रोत',
+        journalTabTitle: 'डायरी',
+        journalTitle: 'मेरी खोजें',
+        journalDescription: 'आपके द्वारा पहचाना गया हर स्थल उसकी फ़ोटो, इतिहास और ऑडियो गाइड के साथ इस डिवाइस पर सहेजा जाता है।',
+        journalSearchPlaceholder: 'नाम या इतिहास से खोजें...',
+        journalSortLabel: 'खोजें क्रमबद्ध करें',
+        journalSortNewest: 'नवीनतम पहले',
+        journalSortOldest: 'सबसे पुराने पहले',
+        journalSortName: 'नाम (A-Z)',
+        journalOpenAriaLabel: '{{landmarkName}} की गाइड खोलें',
+        journalDeleteAriaLabel: '{{landmarkName}} को डायरी से हटाएँ',
+        journalDeleteConfirm: '{{landmarkName}} को अपनी खोजों से हटाएँ? इसे पूर्ववत नहीं किया जा सकता।',
+        journalEmpty: 'अभी कोई खोज नहीं। किसी स्थल की पहचान करें और वह यहाँ दिखाई देगा।',
+        journalNoMatches: 'आपकी खोज से कोई खोज मेल नहीं खाती।',
+        errorJournalLoad: 'आपकी खोजें लोड नहीं हो सकीं। निजी ब्राउज़िंग स्थानीय संग्रहण को रोक सकती है।',
+        errorJournalDelete: 'खोज हटाई नहीं जा सकी। कृपया पुनः प्रयास करें।',
+        helpModalJournalTitle: 'मेरी खोजें',
+        helpModalJournalContent: 'आपके द्वारा पहचाना गया हर स्थल इस डिवाइस पर आपकी डायरी में रहता है। अपनी खोजों को खोजें या क्रमबद्ध करें और पेज रीलोड करने के बाद भी कोई भी गाइड तुरंत फिर से खोलें।',
+        audioGuidePreparing: 'ऑडियो तैयार हो रहा है...',
+        audioGuideUnavailable: 'इस गाइड के लिए ऑडियो उपलब्ध नहीं है।',
+        scanModeLabel: 'आप क्या स्कैन कर रहे हैं?',
+        scanModeLandmark: 'स्थल',
+        scanModeArtwork: 'कलाकृति',
+        scanModeFood: 'व्यंजन',
+        scanModePlant: 'पौधा',
+        scanModeSign: 'संकेत',
+        scanModeHintArtwork: 'कलाकार और उसके अर्थ के बारे में जानने के लिए किसी चित्र, मूर्ति या संग्रहालय की वस्तु की फ़ोटो लें।',
+        scanModeHintFood: 'कोई व्यंजन क्या है, कहाँ से आया और कैसे खाया जाता है, यह जानने के लिए उसकी फ़ोटो लें।',
+        scanModeHintPlant: 'प्रजाति की पहचान करने और उसके बारे में जानने के लिए किसी पौधे या फूल की फ़ोटो लें।',
+        scanModeHintSign: 'किसी संकेत, मेनू या पट्टिका को अपनी भाषा में पढ़ने के लिए उसकी फ़ोटो लें।',
+        guideTitleArtwork: 'इस कलाकृति के बारे में',
+        guideTitleFood: 'इस व्यंजन के बारे में',
+        guideTitlePlant: 'इस पौधे के बारे में',
+        guideTitleSign: 'अनुवाद',
+        originalTextTitle: 'मूल पाठ',
+        chatbotSystemInstructionSubject: 'आप Scout AI के एक मित्रवत और जानकार गाइड चैटबॉट हैं। उपयोगकर्ता ने {{landmarkName}} की फ़ोटो ली है। इसके बारे में प्रश्नों का संक्षिप्त और रोचक उत्तर दें। यदि कोई प्रश्न विषय से हटकर हो, तो धीरे से बातचीत को वापस विषय पर लाएँ।',
+        candidatePickerTitleSubject: 'यह क्या है?',
+        candidatePickerSubtitleSubject: 'कुछ मिलान एक जैसे दिखते हैं। सही चुनें और मैं आपकी गाइड तैयार करूँगा।',
+        candidateLowConfidenceWarningSubject: 'मुझे इसके बारे में पूरा यकीन नहीं है। गाइड बनाने से पहले कृपया इसकी पुष्टि करें।',
+        scanModeTranslate: 'अनुवाद',
+        scanModeHintTranslate: 'किसी मेनू, संकेत या पट्टिका की फ़ोटो लें और उसका अनुवाद सीधे फ़ोटो पर देखें।',
+        translationTitle: 'अनूदित पाठ',
+        translationShowOriginal: 'मूल दिखाएँ',
+        translationShowTranslation: 'अनुवाद दिखाएँ',
+        translationHint: 'मूल पाठ का उच्चारण सुनने के लिए किसी अनुवाद पर टैप करें।',
+        altTranslatedPhoto: 'अनूदित पाठ के साथ आपकी फ़ोटो',
+        pronounceAriaLabel: '"{{text}}" का उच्चारण सुनें',
+        errorPronunciation: 'उच्चारण नहीं बनाया जा सका। कृपया फिर से प्रयास करें।',
+        thenAndNowTitle: 'इसे अतीत में देखें',
+        thenAndNowDescription: 'अपनी फ़ोटो को किसी अन्य युग में स्थल जैसा दिखता था वैसा बनाएँ, फिर तुलना के लिए स्लाइडर खींचें।',
+        thenAndNowEraLabel: 'युग',
+        eraConstruction: 'निर्माण के समय',
+        eraCenturyAgo: '100 साल पहले',
+        eraFiftyYearsAgo: '50 साल पहले',
+        thenAndNowButton: 'पुनर्निर्माण करें',
+        thenAndNowGenerating: 'पुनर्निर्माण हो रहा है...',
+        thenAndNowAiLabel: 'एआई पुनर्निर्माण · {{era}}',
+        thenAndNowTodayLabel: 'आपकी फ़ोटो',
+        thenAndNowSliderLabel: 'पुनर्निर्माण की अपनी फ़ोटो से तुलना करें',
+        thenAndNowDisclaimer: 'यह छवि एआई द्वारा बनाई गई है। यह एक कलात्मक व्याख्या है और ऐतिहासिक रूप से सटीक नहीं भी हो सकती है।',
+        altReconstruction: '{{landmarkName}} का एआई पुनर्निर्माण, {{era}}',
+        errorReconstruction: 'पुनर्निर्माण नहीं बनाया जा सका। कृपया फिर से प्रयास करें।',
+        cancelButton: 'रद्द करें',
+        errorImageTooLarge: 'यह छवि बहुत बड़ी है। कृपया {{maxSize}} MB से छोटी छवि चुनें।',
+        errorImageUrlInvalid: 'कृपया http:// या https:// से शुरू होने वाला वेब पता दर्ज करें।',
+        errorImageUrlDownload: 'छवि डाउनलोड नहीं की जा सकी। हो सकता है वेबसाइट इसकी अनुमति न देती हो; छवि को सहेजकर अपलोड करके देखें।',
+        dropZoneActive: 'अपनी फ़ोटो यहाँ छोड़ें',
+        dropZoneHint: 'आप फ़ोटो यहाँ खींच भी सकते हैं या Ctrl+V से छवि पेस्ट कर सकते हैं।',
+        imageUrlPlaceholder: 'या किसी छवि का URL पेस्ट करें',
+        imageUrlButton: 'पहचानें',
+        quizTitle: 'क्विज़ का समय',
+        quizButton: 'मुझसे क्विज़ पूछें',
+        quizLoading: 'आपके प्रश्न तैयार हो रहे हैं...',
+        quizProgress: 'प्रश्न {{current}} / {{total}}',
+        quizCorrect: 'सही!',
+        quizIncorrect: 'पूरी तरह सही नहीं।',
+        quizNextButton: 'अगला प्रश्न',
+        quizResultsButton: 'मेरा स्कोर देखें',
+        quizScore: 'आपने {{total}} में से {{correct}} अंक पाए',
+        quizBestScore: 'सर्वश्रेष्ठ स्कोर: {{correct}}/{{total}}',
+        quizNewBest: 'नया सर्वश्रेष्ठ स्कोर!',
+        quizRetryButton: 'नए प्रश्न आज़माएँ',
+        errorQuiz: 'क्विज़ नहीं बनाया जा सका। कृपया फिर से प्रयास करें।',
+        relatedTitle: 'आस-पास और संबंधित',
+        relatedDescription: 'आगे कहाँ जाएँ: आस-पास की जगहें, या वास्तुकार, युग या कहानी से जुड़ी जगहें।',
+        relatedButton: 'आगे क्या देखें, सुझाएँ',
+        relatedLoading: 'संबंधित स्थान खोजे जा रहे हैं...',
+        relatedEmpty: 'कोई संबंधित स्थान नहीं मिला।',
+        relatedNearbyLabel: 'आस-पास',
+        relatedThematicLabel: 'संबंधित',
+        relatedOpenGuide: 'गाइड खोलें',
+        relatedPlanTour: 'टूर की योजना बनाएँ',
+        addToFavoritesAriaLabel: '{{placeName}} को पसंदीदा में जोड़ें',
+        removeFromFavoritesAriaLabel: '{{placeName}} को पसंदीदा से हटाएँ',
+        loadingRelatedImage: '{{landmarkName}} का दृश्य तैयार हो रहा है...',
+        errorRelatedLandmarks: 'संबंधित स्थान नहीं मिल सके। कृपया फिर से प्रयास करें।',
+        shareCardButton: 'शेयर कार्ड बनाएँ',
+        shareCardFormatLabel: 'कार्ड का प्रारूप',
+        shareCardSquare: 'वर्गाकार',
+        shareCardStory: 'स्टोरी',
+        shareCardShare: 'छवि शेयर करें',
+        shareCardDownload: 'छवि डाउनलोड करें',
+        shareCardTagline: 'खोजें, योजना बनाएँ और जानें',
+        shareCardText: 'मैंने Scout AI के साथ {{landmarkName}} की खोज की!',
+        altShareCard: '{{landmarkName}} का शेयर कार्ड',
+        errorShareCard: 'शेयर कार्ड नहीं बनाया जा सका।',
+        errorDiscoveryNotFound: 'यह खोज अब आपकी डायरी में नहीं है।',
+        audioSeekLabel: 'ऑडियो की स्थिति',
+        audioPositionValue: '{{total}} में से {{current}}',
+        audioSpeedLabel: 'प्लेबैक गति',
+        audioDownloadAriaLabel: '{{title}} का ऑडियो डाउनलोड करें',
+        audioDownloadWav: 'WAV (सर्वश्रेष्ठ गुणवत्ता)',
+        audioDownloadCompressed: '{{format}} (छोटी फ़ाइल, ऑडियो जितना समय लगता है)',
+        audioDownloadCompressing: 'ऑडियो संपीड़ित हो रहा है... रद्द करने के लिए क्लिक करें',
+        errorAudioDownload: 'ऑडियो फ़ाइल नहीं बनाई जा सकी।',
+        voiceLabel: 'आवाज़',
+        voiceAutomatic: 'स्वचालित ({{voice}})',
+        voicePreviewAriaLabel: '{{voice}} आवाज़ सुनें',
+        voicePreviewSample: 'नमस्ते! मैं {{voice}} हूँ, और आज की खोजों में आपका गाइड रहूँगा।',
+        voiceStyleFirm: 'दृढ़',
+        voiceStyleUpbeat: 'उत्साही',
+        voiceStyleInformative: 'जानकारीपूर्ण',
+        voiceStyleBright: 'चमकदार',
+        voiceStyleBreezy: 'सहज',
+        voiceStyleYouthful: 'युवा',
+        voiceStyleWarm: 'गर्मजोशी भरी',
+        voiceStyleMature: 'परिपक्व',
+        errorVoicePreview: 'आवाज़ का नमूना नहीं चलाया जा सका।',
+        walkingTourPlayAll: 'सभी चलाएँ ({{count}})',
+        walkingTourStop: 'टूर रोकें',
+        walkingTourLabel: 'पैदल टूर',
+        walkingTourProgress: '{{title}} · {{total}} में से {{current}}',
+        walkingTourPrevious: 'पिछली जगह',
+        walkingTourNext: 'अगली जगह',
+        errorHistoryInterrupted: 'गाइड पूरा होने से पहले रुक गया।',
+        funFactButtonArtwork: 'मुझे एक छिपा हुआ विवरण दिखाओ',
+        funFactButtonFood: 'स्थानीय लोग इसे कैसे खाते हैं?',
+        funFactButtonPlant: 'क्या इसे छूना या खाना सुरक्षित है?',
+        shareTextArtwork: 'स्काउट एआई के साथ मिली इस कलाकृति को देखें: {{landmarkName}}! यह इसके बारे में है: {{history}}',
+        shareTextFood: 'स्काउट एआई के साथ चखे इस व्यंजन को देखें: {{landmarkName}}! इसकी कहानी यह है: {{history}}',
+        shareTextPlant: 'स्काउट एआई के साथ मिले इस पौधे को देखें: {{landmarkName}}! मैंने इसके बारे में यह जाना: {{history}}',
+        shareTextSign: 'स्काउट एआई ने मेरे लिए यह पाठ ({{landmarkName}}) अनुवाद किया: {{history}}',
+        errorFunFactMode: 'क्षमा करें, मैं अभी यह पता नहीं लगा सका।',
+        journalFavoritesTitle: 'पसंदीदा स्थान',
+        generatedImageLabel: 'एआई-जनित छवि',
+        altGeneratedImage: '{{landmarkName}} का एआई-जनित दृश्य',
+        errorTourPlanNotFound: 'यह टूर योजना इस डिवाइस पर सहेजी नहीं गई है। नई योजना बनाने के लिए कोई स्थान दर्ज करें।',
     },
     zh: {
         appTitle: 'Scout AI',
@@ -993,5 +2529,197 @@ export const translations: { [key: string]: { [key: string]: string } } = {
         errorImageGeneration: '无法为这些地点生成图像。',
         errorNoLandmark: '我无法在此照片中识别出地标。请尝试另一张。',
         errorProcessing: '处理图像时出错。',
+        candidatePickerTitle: '这是哪个地标？',
+        candidatePickerSubtitle: '有几个地方看起来很像。请选择正确的一个，我将为您准备语音导览。',
+        candidateLowConfidenceTitle: '这对吗？',
+        candidateLowConfidenceWarning: '我对此不太确定。在我创建语音导览之前，请确认该地标。',
+        candidateConfidence: '匹配度 {{percent}}%',
+        candidateNoneButton: '都不是，换一张照片',
+        takePhotoButton: '拍照',
+        cameraStarting: '正在启动相机...',
+        cameraPreviewAlt: '已拍摄照片预览',
+        cameraCloseAriaLabel: '关闭相机',
+        cameraSwitchAriaLabel: '切换前后摄像头',
+        cameraTorchOnAriaLabel: '打开手电筒',
+        cameraTorchOffAriaLabel: '关闭手电筒',
+        cameraCaptureAriaLabel: '拍摄照片',
+        cameraRetakeButton: '重拍',
+        cameraUsePhotoButton: '使用照片',
+        errorCameraPermission: '相机访问被拒绝。您仍可以从设备上传照片。',
+        errorCameraUnavailable: '当前没有可用的相机。您仍可以从设备上传照片。',
+        photoTakenAt: '拍摄地点：{{coordinates}}',
+        photoTakenOn: '拍摄时间：{{date}}',
+        exploreNearbyButton: '探索附近',
+        albumUploadHint: '提示：一次选择多张照片即可创建旅行相册。',
+        albumTitle: '旅行相册',
+        albumProgress: '已处理 {{done}}/{{total}} 张照片',
+        albumSinglePhoto: '1 张照片',
+        albumPhotoCount: '{{count}} 张照片',
+        albumOpenGroupAriaLabel: '打开{{landmarkName}}的导览',
+        albumFailedTitle: '无法识别这些照片',
+        albumNewButton: '重新开始',
+        narrationPresetLabel: '讲解风格',
+        presetSummary: '快速摘要',
+        presetStandard: '标准',
+        presetInDepth: '深入',
+        presetKids: '儿童版',
+        presetExpert: '专家版',
+        factSheetTitle: '资料卡',
+        factConstructionDates: '建造年代',
+        factArchitect: '建筑师 / 建造者',
+        factArchitecturalStyle: '建筑风格',
+        factDimensions: '尺寸',
+        factUnescoStatus: '联合国教科文组织名录',
+        factVisitingHours: '一般开放时间',
+        factTicketInfo: '门票',
+        factAccessibility: '无障碍信息',
+        factSheetDisclaimer: '信息可能已过时。参观前请通过官方渠道核实开放时间和价格。',
+        sourcesTitle: '来源',
+        journalTabTitle: '日志',
+        journalTitle: '我的发现',
+        journalDescription: '你识别的每个地标都会连同照片、历史和语音导览保存在此设备上。',
+        journalSearchPlaceholder: '按名称或历史搜索...',
+        journalSortLabel: '排序发现',
+        journalSortNewest: '最新优先',
+        journalSortOldest: '最早优先',
+        journalSortName: '名称 (A-Z)',
+        journalOpenAriaLabel: '打开{{landmarkName}}的导览',
+        journalDeleteAriaLabel: '从日志中删除{{landmarkName}}',
+        journalDeleteConfirm: '要从你的发现中删除{{landmarkName}}吗？此操作无法撤销。',
+        journalEmpty: '还没有发现。识别一个地标后它会显示在这里。',
+        journalNoMatches: '没有与搜索匹配的发现。',
+        errorJournalLoad: '无法加载你的发现。隐私浏览模式可能会阻止本地存储。',
+        errorJournalDelete: '无法删除该发现，请重试。',
+        helpModalJournalTitle: '我的发现',
+        helpModalJournalContent: '你识别的每个地标都会保存在此设备的日志中。可以搜索或排序你的发现，即使刷新页面后也能立即重新打开任何导览。',
+        audioGuidePreparing: '正在准备音频...',
+        audioGuideUnavailable: '此导览的音频不可用。',
+        scanModeLabel: '您要扫描什么？',
+        scanModeLandmark: '地标',
+        scanModeArtwork: '艺术品',
+        scanModeFood: '菜肴',
+        scanModePlant: '植物',
+        scanModeSign: '标牌',
+        scanModeHintArtwork: '拍摄画作、雕塑或博物馆展品，了解艺术家及其含义。',
+        scanModeHintFood: '拍摄菜肴，了解它是什么、来自哪里以及怎么吃。',
+        scanModeHintPlant: '拍摄植物或花朵，识别物种并了解相关知识。',
+        scanModeHintSign: '拍摄标牌、菜单或铭牌，用您的语言阅读。',
+        guideTitleArtwork: '关于这件艺术品',
+        guideTitleFood: '关于这道菜',
+        guideTitlePlant: '关于这种植物',
+        guideTitleSign: '翻译',
+        originalTextTitle: '原文',
+        chatbotSystemInstructionSubject: '你是 Scout AI 友好且知识渊博的导览聊天机器人。用户拍摄了{{landmarkName}}。请简洁生动地回答相关问题。如果问题偏离主题，请温和地将对话引回。',
+        candidatePickerTitleSubject: '这是什么？',
+        candidatePickerSubtitleSubject: '有几个匹配项看起来很相似。请选择正确的一项，我会为您准备导览。',
+        candidateLowConfidenceWarningSubject: '我对此不太确定。请在我创建导览之前确认。',
+        scanModeTranslate: '翻译',
+        scanModeHintTranslate: '拍摄菜单、标牌或铭牌，直接在照片上查看译文。',
+        translationTitle: '译文',
+        translationShowOriginal: '显示原图',
+        translationShowTranslation: '显示译文',
+        translationHint: '点按译文即可收听原文的发音。',
+        altTranslatedPhoto: '带有译文的照片',
+        pronounceAriaLabel: '收听“{{text}}”的发音',
+        errorPronunciation: '无法生成发音，请重试。',
+        thenAndNowTitle: '看看它的过去',
+        thenAndNowDescription: '将您的照片重建为地标在另一个时代的样子，然后拖动滑块进行比较。',
+        thenAndNowEraLabel: '时代',
+        eraConstruction: '建成时',
+        eraCenturyAgo: '100年前',
+        eraFiftyYearsAgo: '50年前',
+        thenAndNowButton: '重建',
+        thenAndNowGenerating: '正在重建...',
+        thenAndNowAiLabel: 'AI 重建 · {{era}}',
+        thenAndNowTodayLabel: '您的照片',
+        thenAndNowSliderLabel: '将重建图与您的照片进行比较',
+        thenAndNowDisclaimer: '此图像由 AI 生成，属于艺术诠释，可能与历史不符。',
+        altReconstruction: '{{landmarkName}}的 AI 重建（{{era}}）',
+        errorReconstruction: '无法生成重建图，请重试。',
+        cancelButton: '取消',
+        errorImageTooLarge: '图像过大，请选择小于 {{maxSize}} MB 的图像。',
+        errorImageUrlInvalid: '请输入以 http:// 或 https:// 开头的网址。',
+        errorImageUrlDownload: '无法下载该图像，网站可能不允许。请尝试先保存图像再上传。',
+        dropZoneActive: '将照片拖放到此处',
+        dropZoneHint: '您也可以将照片拖到此处，或按 Ctrl+V 粘贴图像。',
+        imageUrlPlaceholder: '或粘贴图像网址',
+        imageUrlButton: '识别',
+        quizTitle: '测验时间',
+        quizButton: '考考我',
+        quizLoading: '正在准备题目...',
+        quizProgress: '第 {{current}} 题，共 {{total}} 题',
+        quizCorrect: '回答正确！',
+        quizIncorrect: '不太对。',
+        quizNextButton: '下一题',
+        quizResultsButton: '查看得分',
+        quizScore: '您答对了 {{total}} 题中的 {{correct}} 题',
+        quizBestScore: '最佳成绩：{{correct}}/{{total}}',
+        quizNewBest: '新的最佳成绩！',
+        quizRetryButton: '尝试新题目',
+        errorQuiz: '无法创建测验，请重试。',
+        relatedTitle: '附近与相关景点',
+        relatedDescription: '下一站去哪里：附近的景点，或因建筑师、年代或故事而相关的地方。',
+        relatedButton: '推荐下一站',
+        relatedLoading: '正在查找相关景点...',
+        relatedEmpty: '未找到相关景点。',
+        relatedNearbyLabel: '附近',
+        relatedThematicLabel: '相关',
+        relatedOpenGuide: '打开导览',
+        relatedPlanTour: '规划行程',
+        addToFavoritesAriaLabel: '将{{placeName}}加入收藏',
+        removeFromFavoritesAriaLabel: '将{{placeName}}从收藏中移除',
+        loadingRelatedImage: '正在准备{{landmarkName}}的画面...',
+        errorRelatedLandmarks: '无法找到相关景点，请重试。',
+        shareCardButton: '生成分享卡片',
+        shareCardFormatLabel: '卡片格式',
+        shareCardSquare: '方形',
+        shareCardStory: '快拍',
+        shareCardShare: '分享图片',
+        shareCardDownload: '下载图片',
+        shareCardTagline: '探索、规划、发现',
+        shareCardText: '我用 Scout AI 发现了{{landmarkName}}！',
+        altShareCard: '{{landmarkName}}的分享卡片',
+        errorShareCard: '无法生成分享卡片。',
+        errorDiscoveryNotFound: '此发现已不在您的日志中。',
+        audioSeekLabel: '播放位置',
+        audioPositionValue: '{{current}} / {{total}}',
+        audioSpeedLabel: '播放速度',
+        audioDownloadAriaLabel: '下载{{title}}的音频',
+        audioDownloadWav: 'WAV（最佳音质）',
+        audioDownloadCompressed: '{{format}}（文件更小，耗时与音频时长相同）',
+        audioDownloadCompressing: '正在压缩音频...点击取消',
+        errorAudioDownload: '无法创建音频文件。',
+        voiceLabel: '语音',
+        voiceAutomatic: '自动（{{voice}}）',
+        voicePreviewAriaLabel: '试听语音{{voice}}',
+        voicePreviewSample: '你好！我是{{voice}}，今天将由我为你导览。',
+        voiceStyleFirm: '坚定',
+        voiceStyleUpbeat: '欢快',
+        voiceStyleInformative: '知性',
+        voiceStyleBright: '明亮',
+        voiceStyleBreezy: '轻快',
+        voiceStyleYouthful: '年轻',
+        voiceStyleWarm: '温暖',
+        voiceStyleMature: '成熟',
+        errorVoicePreview: '无法播放语音试听。',
+        walkingTourPlayAll: '全部播放（{{count}}）',
+        walkingTourStop: '停止导览',
+        walkingTourLabel: '步行导览',
+        walkingTourProgress: '{{title}} · 第{{current}}/{{total}}个',
+        walkingTourPrevious: '上一个地点',
+        walkingTourNext: '下一个地点',
+        errorHistoryInterrupted: '导览在完成前中断了。',
+        funFactButtonArtwork: '告诉我一个隐藏的细节',
+        funFactButtonFood: '当地人怎么吃？',
+        funFactButtonPlant: '可以触摸或食用吗？',
+        shareTextArtwork: '看看我用Scout AI发现的这件艺术作品：{{landmarkName}}！它讲述的是：{{history}}',
+        shareTextFood: '看看我用Scout AI品尝的这道菜：{{landmarkName}}！它背后的故事：{{history}}',
+        shareTextPlant: '看看我用Scout AI发现的这种植物：{{landmarkName}}！我了解到：{{history}}',
+        shareTextSign: 'Scout AI为我翻译了这段文字（{{landmarkName}}）：{{history}}',
+        errorFunFactMode: '抱歉，我现在无法查到。',
+        journalFavoritesTitle: '收藏的地点',
+        generatedImageLabel: 'AI 生成的图片',
+        altGeneratedImage: 'AI 生成的{{landmarkName}}图片',
+        errorTourPlanNotFound: '此设备上未保存该行程计划。请输入地点以规划新的行程。',
     },
 };
\ No newline at end of file
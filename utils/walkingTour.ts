@@ -0,0 +1,253 @@
+import { useSyncExternalStore } from 'react';
+import { audioPlayer } from './audio';
+import { generateAudioForText } from '../services/geminiService';
+import type { NearbyPlace, TtsVoice } from '../types';
+
+/**
+ * Returns the id of a place's description audio in the shared audio player.
+ * @param placeName The name of the place.
+ */
+export const getPlaceTrackId = (placeName: string): string => `place:${placeName}`;
+
+/**
+ * Returns the narration of a place, generating it if needed. Supplied by the view that
+ * starts the tour, which knows the voice and language and keeps the generated audio.
+ */
+export type PlaceAudioLoader = (place: NearbyPlace, signal: AbortSignal) => Promise<string>;
+
+/**
+ * Returns true if the place already has its audio in the given voice. Audio recorded before
+ * the voice changed is read again in the new voice.
+ */
+const hasPlaceAudio = (place: NearbyPlace, voice: TtsVoice): boolean =>
+    !!place.audioData && place.audioVoice === voice;
+
+/**
+ * Creates the audio loader of a view that lists places. The loader returns the audio of a
+ * place in the given voice, generating it on demand and handing it back to the view to keep.
+ * @param voice The voice to read the places in.
+ * @param language The language code of the descriptions.
+ * @param updatePlace Stores the generated audio on the place with the given name.
+ */
+export const createPlaceAudioLoader = (
+    voice: TtsVoice,
+    language: string,
+    updatePlace: (placeName: string, changes: Pick<NearbyPlace, 'audioData' | 'audioVoice'>) => void
+) => async (place: NearbyPlace, signal?: AbortSignal): Promise<string> => {
+    if (place.audioData && hasPlaceAudio(place, voice)) return place.audioData;
+
+    const audioData = await generateAudioForText(place.description, voice, language, signal);
+    updatePlace(place.name, { audioData, audioVoice: voice });
+    return audioData;
+};
+
+/**
+ * Plays a place's audio in the shared player, or pauses or resumes it if it is the current track.
+ * @param place The place to play.
+ * @param voice The voice to read the place in.
+ * @param loadAudio Returns the audio of the place, see createPlaceAudioLoader.
+ * @param setLoadingPlace Receives the name of the place while its audio is being generated, and null afterwards.
+ * @throws If the audio cannot be generated or played.
+ */
+export const playPlaceAudio = async (
+    place: NearbyPlace,
+    voice: TtsVoice,
+    loadAudio: (place: NearbyPlace) => Promise<string>,
+    setLoadingPlace: (placeName: string | null) => void
+) => {
+    const trackId = getPlaceTrackId(place.name);
+    if (audioPlayer.toggle(trackId)) return;
+
+    audioPlayer.stop();
+
+    try {
+        // Only show the loading overlay when the audio has to be generated
+        if (!hasPlaceAudio(place, voice)) setLoadingPlace(place.name);
+        const audioData = await loadAudio(place);
+        await audioPlayer.play(audioData, undefined, trackId);
+    } finally {
+        setLoadingPlace(null);
+    }
+};
+
+/**
+ * A snapshot of the walking tour, replaced on every change so it can be compared by reference.
+ */
+export interface WalkingTourState {
+    /** The places in playing order; empty when no tour is running. */
+    places: NearbyPlace[];
+    /** Index of the place being narrated. */
+    index: number;
+    /** True while the current place's audio is being generated or decoded. */
+    isLoading: boolean;
+    /** What is being toured, e.g. the city, shown in the mini-player. */
+    title: string;
+}
+
+const IDLE_STATE: WalkingTourState = { places: [], index: 0, isLoading: false, title: '' };
+
+/**
+ * Narrates a list of places one after the other through the shared audio player.
+ * The next place's audio is generated while the current one plays, and places whose audio
+ * cannot be generated are skipped. The tour lives outside the views, so it keeps playing
+ * across tab switches; playing any other audio ends it.
+ */
+class WalkingTour {
+    private state: WalkingTourState = IDLE_STATE;
+    private listeners = new Set<() => void>();
+    private loadAudio: PlaceAudioLoader | null = null;
+    // Audio requests by place index, so a prefetched place is not generated twice
+    private audioRequests = new Map<number, Promise<string>>();
+    private controller: AbortController | null = null;
+
+    constructor() {
+        audioPlayer.subscribe(() => {
+            const { places, index, isLoading } = this.state;
+            if (places.length === 0 || isLoading) return;
+            if (audioPlayer.getState().trackId !== getPlaceTrackId(places[index].name)) this.end();
+        });
+    }
+
+    private setState(changes: Partial<WalkingTourState>) {
+        this.state = { ...this.state, ...changes };
+        this.listeners.forEach(listener => listener());
+    }
+
+    private getAudio(index: number, loadAudio: PlaceAudioLoader, signal: AbortSignal): Promise<string> {
+        let request = this.audioRequests.get(index);
+        if (!request) {
+            request = loadAudio(this.state.places[index], signal);
+            // A failed prefetch is handled when its place comes up
+            request.catch(() => undefined);
+            this.audioRequests.set(index, request);
+        }
+        return request;
+    }
+
+    private async playPlace(index: number) {
+        const { controller, loadAudio } = this;
+        if (!controller || !loadAudio) return;
+        const isCurrent = () => !controller.signal.aborted && this.state.index === index;
+        const place = this.state.places[index];
+
+        this.setState({ index, isLoading: true });
+        audioPlayer.stop();
+        try {
+            const audioData = await this.getAudio(index, loadAudio, controller.signal);
+            if (!isCurrent()) return;
+            await audioPlayer.play(audioData, () => this.next(), getPlaceTrackId(place.name));
+            if (!isCurrent()) return;
+            this.setState({ isLoading: false });
+            if (index + 1 < this.state.places.length) {
+                this.getAudio(index + 1, loadAudio, controller.signal);
+            }
+        } catch (err) {
+            if (!isCurrent()) return;
+            console.error(`Walking tour audio failed for ${place.name}, skipping it:`, err);
+            this.next();
+        }
+    }
+
+    /**
+     * Ends the tour without touching the player, which may already be playing something else.
+     */
+    private end() {
+        this.controller?.abort();
+        this.controller = null;
+        this.loadAudio = null;
+        this.audioRequests.clear();
+        if (this.state.places.length > 0) this.setState(IDLE_STATE);
+    }
+
+    /**
+     * Starts narrating the places from the first one, replacing any running tour.
+     * @param places The places in playing order.
+     * @param title What is being toured, shown in the mini-player.
+     * @param loadAudio Returns the narration of a place.
+     */
+    start(places: NearbyPlace[], title: string, loadAudio: PlaceAudioLoader) {
+        this.stop();
+        if (places.length === 0) return;
+        this.controller = new AbortController();
+        this.loadAudio = loadAudio;
+        this.setState({ places, index: 0, isLoading: true, title });
+        this.playPlace(0);
+    }
+
+    /**
+     * Moves on to the next place, or ends the tour after the last one.
+     */
+    next() {
+        if (this.state.index + 1 < this.state.places.length) {
+            this.playPlace(this.state.index + 1);
+        } else {
+            this.stop();
+        }
+    }
+
+    /**
+     * Goes back to the previous place, or starts the first one again.
+     */
+    previous() {
+        this.playPlace(Math.max(0, this.state.index - 1));
+    }
+
+    /**
+     * Pauses or resumes the current place.
+     */
+    togglePause() {
+        const { places, index, isLoading } = this.state;
+        if (places.length === 0 || isLoading) return;
+        audioPlayer.toggle(getPlaceTrackId(places[index].name));
+    }
+
+    /**
+     * Ends the tour and stops its audio.
+     */
+    stop() {
+        const isTourAudio = this.state.places.length > 0;
+        this.end();
+        if (isTourAudio) audioPlayer.stop();
+    }
+
+    /**
+     * Returns true while a tour is running.
+     */
+    get isActive(): boolean {
+        return this.state.places.length > 0;
+    }
+
+    /**
+     * Registers a listener called on every state change.
+     * @returns A function that removes the listener.
+     */
+    subscribe = (listener: () => void): (() => void) => {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    };
+
+    /**
+     * Returns the current state snapshot.
+     */
+    getState = (): WalkingTourState => this.state;
+}
+
+// Export a singleton instance so the tour outlives the view that started it.
+export const walkingTour = new WalkingTour();
+
+/**
+ * Subscribes a component to the walking tour's state and re-renders it on every change.
+ * @returns The current state of the tour.
+ */
+export const useWalkingTourState = (): WalkingTourState =>
+    useSyncExternalStore(walkingTour.subscribe, walkingTour.getState);
+
+/**
+ * Stops the shared player unless the walking tour is using it, since the tour keeps playing
+ * across tab switches. Views call this instead of audioPlayer.stop() when they go away.
+ */
+export const stopAudioUnlessTouring = () => {
+    if (!walkingTour.isActive) audioPlayer.stop();
+};